@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
   AppStage, 
   ComponentItem, 
@@ -6,7 +6,12 @@ import {
   Net, 
   CompatibilityReport,
   ComponentAction,
-  Project
+  Project,
+  DesignDiff,
+  DesignHistoryEntry,
+  SchematicData,
+  BomExtraField,
+  BomOptions
 } from './types';
 import { 
   generateBOM, 
@@ -14,11 +19,41 @@ import {
   analyzePins,
   generateNetlist, 
   checkSystemCompatibility,
-  searchComponentData
+  searchComponentData,
+  extendNetlist,
+  proposeDesignEdit
 } from './services/geminiService';
-import { generateEagleSchematic } from './services/exportService';
+import { LLM_PROVIDERS, LLM_STAGES, LlmSettings, getLlmSettings, getProvider, saveLlmSettings } from './services/llmProvider';
+import { isCancelled, runWithConcurrency } from './services/schedulerService';
+import { getCachedComponent, putCachedComponent } from './services/componentCacheService';
+import { validateNets } from './services/validationService';
+import { formatQuantity, getPinQuantity, parseQuantity } from './services/unitsService';
+import { analyzeVoltageDomains } from './services/voltageDomainService';
+import { AMBIENT_TEMP_C, analyzePowerBudget } from './services/powerBudgetService';
+import { parseIsolationRules } from './services/constraintService';
+import { pairDifferentialNets } from './services/diffPairService';
+import { annotateComponents, reannotateByPosition } from './services/annotationService';
+import { addDecoupling, expandPassives } from './services/passiveService';
+import { WiringConflict, applyRuleWiring, compareNetlists, generateRuleNetlist } from './services/wiringService';
+import { ERC_RULES, ErcSeverities, ErcSeverity, getErcSeverities, runErc, saveErcSeverities } from './services/ercService';
+import { DiffHighlights, applyEditPlan, buildDiffPreview, createComponentId, diffDesigns, isEmptyDiff, mergeAddedWiring, removeComponent } from './services/designService';
+import { PipelineSession, SESSION_FILE_EXTENSION, parseSession, serializeSession, startRecording, startReplay, stopRecording, stopReplay } from './services/sessionService';
+import { 
+  generateEagleSchematic, 
+  generateKiCadSchematic, 
+  generateSpiceNetlist,
+  generateKiCadNetlist,
+  generateTelesisNetlist,
+  generateEdifNetlist
+} from './services/exportService';
+import { parseEagleSchematic } from './services/importService';
+import { generateBomCsv, generateBomJson } from './services/bomService';
+import { generateSchematicSvg, generateSchematicPdf, PaperSize } from './services/printService';
+import { generateLandPattern, generateKiCadFootprint } from './services/footprintService';
+import { parseProjectFile, parseProjectStore, serializeProjectFile, serializeProjectStore, PROJECT_FILE_EXTENSION } from './services/projectService';
 import { ArchitectureDiagram } from './components/ArchitectureDiagram';
 import { SchematicView } from './components/SchematicView';
+import { AssistantMessage, DesignAssistant } from './components/DesignAssistant';
 import { 
   Terminal, 
   Cpu, 
@@ -32,6 +67,7 @@ import {
   PenTool,
   Wrench,
   RefreshCw,
+  Database,
   Folder,
   Save,
   Plus,
@@ -40,7 +76,13 @@ import {
   Globe,
   Loader2,
   Download,
-  MousePointer2
+  MousePointer2,
+  Check,
+  X,
+  ShieldCheck,
+  ShieldAlert,
+  Zap,
+  GitCompare
 } from 'lucide-react';
 import { INITIAL_LOGS } from './constants';
 
@@ -53,6 +95,7 @@ const App: React.FC = () => {
   const [projectId, setProjectId] = useState<string | null>(null);
   const [projectName, setProjectName] = useState("New Project");
   const [mainComponent, setMainComponent] = useState("ESP32-WROOM-32");
+  const [mainComponentId, setMainComponentId] = useState<string | undefined>(undefined); // Bus controller for the wiring rules
   const [appDescription, setAppDescription] = useState("IoT Weather Station with DHT22");
   const [logs, setLogs] = useState<LogEntry[]>(INITIAL_LOGS);
   const [components, setComponents] = useState<ComponentItem[]>([]);
@@ -60,21 +103,63 @@ const App: React.FC = () => {
   const [selectedComponent, setSelectedComponent] = useState<ComponentItem | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [compatibilityReport, setCompatibilityReport] = useState<CompatibilityReport | null>(null);
+  const [revision, setRevision] = useState("A");
+  const [author, setAuthor] = useState("");
+  const [paperSize, setPaperSize] = useState<PaperSize>('A4');
+  const [bomOptions, setBomOptions] = useState<BomOptions>({});
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(getLlmSettings);
+  const [ercSeverities, setErcSeverities] = useState<ErcSeverities>(getErcSeverities);
+  const [recordSession, setRecordSession] = useState(false);
+  const [replaySession, setReplaySession] = useState<{ name: string, session: PipelineSession } | null>(null);
   
   // Layout state for Export
   const [schematicLayout, setSchematicLayout] = useState<{
       positions: Record<string, {x: number, y: number, w: number, h: number}>,
       routes: any[]
   }>({ positions: {}, routes: [] });
+  // Positions seeded from an imported file, consumed by SchematicView on mount
+  const [seedPositions, setSeedPositions] = useState<Record<string, {x: number, y: number, w: number, h: number}>>({});
+
+  // Rule-based ERC, shown next to the AI compatibility report
+  const ercViolations = useMemo(() => runErc({ components, nets }, ercSeverities), [components, nets, ercSeverities]);
+  const voltageDomains = useMemo(() => analyzeVoltageDomains({ components, nets }), [components, nets]);
+  const powerBudget = useMemo(() => analyzePowerBudget({ components, nets }), [components, nets]);
+  // Deterministic bus and supply wiring, diffed against the AI netlist (see wiringService)
+  const ruleWiring = useMemo(() => generateRuleNetlist(components, mainComponentId), [components, mainComponentId]);
+  const wiringConflicts = useMemo(() => nets.length > 0 ? compareNetlists(ruleWiring.data, { components, nets }) : [], [ruleWiring, components, nets]);
 
   const logsEndRef = useRef<HTMLDivElement>(null);
+  const runAbortRef = useRef<AbortController | null>(null);
+  // Latest design, for handlers that continue after an await: their closure still
+  // holds the design from when they started
+  const designRef = useRef<SchematicData>({ components: [], nets: [] });
+  designRef.current = { components, nets };
+  // Compatibility actions the user declined; re-checks may suggest them again
+  const [rejectedActions, setRejectedActions] = useState<string[]>([]);
+  const [rejectedConflicts, setRejectedConflicts] = useState<string[]>([]);
+  const [applyingAction, setApplyingAction] = useState<string | null>(null);
+
+  // Design assistant: a proposed edit is previewed on the canvas until applied or discarded
+  const [assistantMessages, setAssistantMessages] = useState<AssistantMessage[]>([]);
+  const [assistantBusy, setAssistantBusy] = useState(false);
+  const [pendingEdit, setPendingEdit] = useState<{
+      request: string,
+      summary: string,
+      base: SchematicData,  // Design the edit was computed against
+      after: SchematicData,
+      diff: DesignDiff,
+      preview: { data: SchematicData, highlights: DiffHighlights }
+  } | null>(null);
+  const [designHistory, setDesignHistory] = useState<DesignHistoryEntry[]>([]);
 
   // Load projects from local storage on mount
   useEffect(() => {
     const saved = localStorage.getItem('eda_projects');
     if (saved) {
       try {
-        setProjects(JSON.parse(saved));
+        const { projects: stored, errors } = parseProjectStore(saved);
+        errors.forEach(err => console.error(err));
+        setProjects(stored);
       } catch (e) {
         console.error("Failed to load projects", e);
       }
@@ -95,14 +180,58 @@ const App: React.FC = () => {
     setProjectId(null); // New project has no ID until saved
     setProjectName("Untitled Project");
     setMainComponent("ESP32-WROOM-32");
+    setMainComponentId(undefined);
     setAppDescription("IoT Weather Station with DHT22");
     setComponents([]);
     setNets([]);
     setCompatibilityReport(null);
+    setRejectedActions([]);
+    setRejectedConflicts([]);
+    setRevision("A");
+    setAuthor("");
+    setBomOptions({});
+    setSeedPositions({});
     setLogs(INITIAL_LOGS);
+    setDesignHistory([]);
+    setAssistantMessages([]);
+    setPendingEdit(null);
     setStage(AppStage.INPUT);
   };
 
+  const importEagleProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = parseEagleSchematic(await file.text());
+
+      setProjectId(null);
+      setProjectName(file.name.replace(/\.sch$/i, ''));
+      setMainComponent(result.data.components[0]?.name || "");
+      setMainComponentId(undefined);
+      setAppDescription(`Imported from ${file.name}`);
+      setComponents(result.data.components);
+      setNets(result.data.nets);
+      setCompatibilityReport(null);
+      setRejectedActions([]);
+      setRejectedConflicts([]);
+      setBomOptions({});
+      setSeedPositions(result.positions);
+      setLogs(INITIAL_LOGS);
+      setDesignHistory([]);
+      setAssistantMessages([]);
+      setPendingEdit(null);
+      setStage(AppStage.SCHEMATIC);
+
+      addLog(`Imported ${file.name}: ${result.data.components.length} components, ${result.data.nets.length} nets.`, 'success', 'BUILDER');
+      result.warnings.forEach(w => addLog(w, 'warning', 'BUILDER'));
+    } catch (error) {
+      console.error(error);
+      addLog(`Failed to import ${file.name}: ${(error as Error).message}`, 'error', 'BUILDER');
+    }
+  };
+
   const saveProject = async () => {
     addLog("Saving project...", 'info', 'CLIENT');
     
@@ -123,11 +252,18 @@ const App: React.FC = () => {
       name: projectName,
       lastModified: Date.now(),
       mainComponent,
+      mainComponentId,
       appDescription,
       components: processedComponents,
       nets,
       compatibilityReport,
-      stage: stage === AppStage.PROJECTS ? AppStage.INPUT : stage
+      stage: stage === AppStage.PROJECTS ? AppStage.INPUT : stage,
+      revision,
+      author,
+      positions: schematicLayout.positions,
+      logs,
+      history: designHistory,
+      bomOptions
     };
 
     const updatedProjects = projectId 
@@ -139,7 +275,7 @@ const App: React.FC = () => {
     
     // Persist to local storage
     try {
-      localStorage.setItem('eda_projects', JSON.stringify(updatedProjects));
+      localStorage.setItem('eda_projects', serializeProjectStore(updatedProjects));
       addLog("Project saved successfully. (Note: Large PDF files are not persisted, only analysis data)", 'success', 'CLIENT');
     } catch (e) {
       addLog("Failed to save project. Storage limit exceeded?", 'error', 'CLIENT');
@@ -151,15 +287,28 @@ const App: React.FC = () => {
     setProjectId(project.id);
     setProjectName(project.name);
     setMainComponent(project.mainComponent);
+    setMainComponentId(project.mainComponentId);
     setAppDescription(project.appDescription);
-    setNets(project.nets);
+    // Projects saved before pair detection get their pairs here
+    setNets(pairDifferentialNets(project.nets, project.components));
     setCompatibilityReport(project.compatibilityReport);
+    setRejectedActions([]);
+    setRejectedConflicts([]);
+    setRevision(project.revision || "A");
+    setAuthor(project.author || "");
+    setBomOptions(project.bomOptions || {});
+    setSeedPositions(project.positions || {});
+    setLogs(project.logs?.length ? project.logs : INITIAL_LOGS);
+    setDesignHistory(project.history || []);
+    setAssistantMessages([]);
+    setPendingEdit(null);
     setStage(project.stage);
     
     // Hydrate components
-    const hydratedComponents = project.components.map(c => {
+    // Projects saved before annotation get designators here
+    const hydratedComponents = annotateComponents(project.components.map(c => {
        return { ...c };
-    });
+    }));
     setComponents(hydratedComponents);
     
     addLog(`Project "${project.name}" loaded.`, 'success', 'CLIENT');
@@ -169,10 +318,49 @@ const App: React.FC = () => {
     e.stopPropagation();
     const updated = projects.filter(p => p.id !== id);
     setProjects(updated);
-    localStorage.setItem('eda_projects', JSON.stringify(updated));
+    localStorage.setItem('eda_projects', serializeProjectStore(updated));
+  };
+
+  const exportProjectFile = (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+    triggerDownload(serializeProjectFile(project), `${project.name.replace(/[^a-z0-9_\-]+/gi, '_')}${PROJECT_FILE_EXTENSION}`, 'application/json');
+  };
+
+  const importProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseProjectFile(await file.text());
+      // Importing a colleague's copy of an existing project must not overwrite ours
+      const project = projects.some(p => p.id === imported.id)
+        ? { ...imported, id: `proj_${Date.now()}` }
+        : imported;
+
+      const updated = [...projects, project];
+      setProjects(updated);
+      localStorage.setItem('eda_projects', serializeProjectStore(updated));
+      loadProject(project);
+    } catch (error) {
+      console.error(error);
+      addLog(`Failed to import ${file.name}: ${(error as Error).message}`, 'error', 'CLIENT');
+    }
+  };
+
+  // --- Export Functions ---
+  const triggerDownload = (content: string, fileName: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
-  // --- Export Function ---
   const handleDownloadCAD = () => {
     if (!nets.length || !components.length) return;
     addLog("Generating Eagle Schematic file (.sch)...", 'info', 'BUILDER');
@@ -185,24 +373,411 @@ const App: React.FC = () => {
           schematicLayout.routes
       );
       
-      // Trigger Download
-      const blob = new Blob([eagleContent], { type: 'text/xml' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${projectName.replace(/\s+/g, '_')}.sch`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      triggerDownload(eagleContent, `${projectName.replace(/\s+/g, '_')}.sch`, 'text/xml');
       
-      addLog("Eagle Schematic (.sch) downloaded. Compatible with Eagle, Altium, KiCad.", 'success', 'BUILDER');
+      addLog("Eagle Schematic (.sch) downloaded. Compatible with Eagle, Fusion 360, Altium.", 'success', 'BUILDER');
     } catch (e) {
       console.error(e);
       addLog("Failed to generate CAD file.", 'error', 'BUILDER');
     }
   };
 
+  const handleDownloadKiCad = () => {
+    if (!nets.length || !components.length) return;
+    addLog("Generating KiCad Schematic file (.kicad_sch)...", 'info', 'BUILDER');
+
+    try {
+      const kicadContent = generateKiCadSchematic(
+          { components, nets },
+          schematicLayout.positions,
+          schematicLayout.routes,
+          projectName
+      );
+
+      triggerDownload(kicadContent, `${projectName.replace(/\s+/g, '_')}.kicad_sch`, 'text/plain');
+
+      addLog("KiCad Schematic (.kicad_sch) downloaded. Opens natively in KiCad 7/8.", 'success', 'BUILDER');
+    } catch (e) {
+      console.error(e);
+      addLog("Failed to generate KiCad file.", 'error', 'BUILDER');
+    }
+  };
+
+  const handleDownloadSpice = () => {
+    if (!nets.length || !components.length) return;
+    addLog("Generating SPICE netlist (.cir)...", 'info', 'BUILDER');
+
+    try {
+      const { netlist, unmodelled } = generateSpiceNetlist({ components, nets }, projectName);
+      triggerDownload(netlist, `${projectName.replace(/\s+/g, '_')}.cir`, 'text/plain');
+
+      unmodelled.forEach(name => addLog(`No SPICE model for ${name}; exported as a placeholder subcircuit.`, 'warning', 'BUILDER'));
+      addLog("SPICE netlist (.cir) downloaded. Ready for ngspice / LTspice.", 'success', 'BUILDER');
+    } catch (e) {
+      console.error(e);
+      addLog("Failed to generate SPICE netlist.", 'error', 'BUILDER');
+    }
+  };
+
+  const handleDownloadNetlist = (format: 'kicad' | 'telesis' | 'edif') => {
+    if (!nets.length || !components.length) return;
+    const fileBase = projectName.replace(/\s+/g, '_');
+    addLog(`Generating ${format.toUpperCase()} netlist...`, 'info', 'BUILDER');
+
+    try {
+      if (format === 'kicad') {
+        triggerDownload(generateKiCadNetlist({ components, nets }, projectName), `${fileBase}.net`, 'text/plain');
+      } else if (format === 'telesis') {
+        triggerDownload(generateTelesisNetlist({ components, nets }), `${fileBase}.tel`, 'text/plain');
+      } else {
+        triggerDownload(generateEdifNetlist({ components, nets }, projectName), `${fileBase}.edn`, 'text/plain');
+      }
+      addLog(`${format.toUpperCase()} netlist downloaded.`, 'success', 'BUILDER');
+    } catch (e) {
+      console.error(e);
+      addLog("Failed to generate netlist.", 'error', 'BUILDER');
+    }
+  };
+
+  const handleDownloadBOM = (format: 'csv' | 'json') => {
+    if (!components.length) return;
+    addLog(`Generating manufacturing BOM (.${format})...`, 'info', 'BUILDER');
+
+    try {
+      // Marked DNP parts must not be bought, so their column is always exported
+      const options = { ...bomOptions, includeDnp: bomOptions.includeDnp || components.some(c => c.dnp) };
+      const fileBase = `${projectName.replace(/\s+/g, '_')}_BOM`;
+      if (format === 'csv') {
+        triggerDownload(generateBomCsv(components, options), `${fileBase}.csv`, 'text/csv');
+      } else {
+        triggerDownload(generateBomJson(components, projectName, options), `${fileBase}.json`, 'application/json');
+      }
+      addLog(`BOM (.${format}) downloaded.`, 'success', 'BUILDER');
+    } catch (e) {
+      console.error(e);
+      addLog("Failed to generate BOM.", 'error', 'BUILDER');
+    }
+  };
+
+  const handleDownloadPrint = (format: 'svg' | 'pdf') => {
+    if (!components.length) return;
+    addLog(`Rendering printable schematic (${paperSize}, .${format})...`, 'info', 'BUILDER');
+
+    try {
+      const options = { paper: paperSize, projectName, revision, author };
+      const fileName = `${projectName.replace(/\s+/g, '_')}_Rev${revision || '-'}.${format}`;
+      if (format === 'svg') {
+        const svg = generateSchematicSvg({ components, nets }, schematicLayout.positions, schematicLayout.routes, options);
+        triggerDownload(svg, fileName, 'image/svg+xml');
+      } else {
+        const pdf = generateSchematicPdf({ components, nets }, schematicLayout.positions, schematicLayout.routes, options);
+        triggerDownload(pdf, fileName, 'application/pdf');
+      }
+      addLog(`Printable schematic (.${format}) downloaded.`, 'success', 'BUILDER');
+    } catch (e) {
+      console.error(e);
+      addLog("Failed to render printable schematic.", 'error', 'BUILDER');
+    }
+  };
+
+  const handleDownloadFootprint = (comp: ComponentItem) => {
+    const { pattern, warnings } = generateLandPattern(comp);
+    warnings.forEach(w => addLog(w, 'warning', 'BUILDER'));
+    if (!pattern) return;
+
+    triggerDownload(generateKiCadFootprint(pattern, comp.name), `${pattern.name}.kicad_mod`, 'text/plain');
+    addLog(`Footprint ${pattern.name}.kicad_mod downloaded (IPC-7351B nominal).`, 'success', 'BUILDER');
+  };
+
+  // Re-runs the datasheet search for one part, bypassing and then updating the cache
+  const refreshComponent = async (comp: ComponentItem) => {
+    addLog(`Refreshing ${comp.name} from source...`, 'info', 'DATASHEET_SPIDER');
+    setComponents(prev => prev.map(c => c.id === comp.id ? { ...c, status: 'searching_datasheet' } : c));
+
+    const result = await searchComponentData(comp.name, appDescription, {
+      onIssue: msg => addLog(`${comp.name}: ${msg}`, 'warning', 'DATASHEET_SPIDER')
+    });
+    if (result.pins.length === 0) {
+      setComponents(prev => prev.map(c => c.id === comp.id ? { ...c, status: 'ready' } : c));
+      addLog(`No data found for ${comp.name}; keeping the existing pinout.`, 'warning', 'DATASHEET_SPIDER');
+      return;
+    }
+
+    await putCachedComponent(comp.name, comp.footprintType, 'search', result);
+    // Edits made while the search ran (DNP, designators, other parts) are kept
+    const refresh = (c: ComponentItem): ComponentItem => ({
+      ...c,
+      pins: result.pins,
+      description: result.description || c.description,
+      datasheetUrl: result.datasheetUrl || c.datasheetUrl,
+      physicalSpecs: result.physicalSpecs,
+      isolationRules: result.isolationRules,
+      cachedAt: undefined,
+      status: 'ready'
+    });
+    const current = designRef.current;
+    if (!current.components.some(c => c.id === comp.id)) {
+      addLog(`${comp.name} was removed during the refresh; the new data is discarded.`, 'warning', 'DATASHEET_SPIDER');
+      return;
+    }
+    const updated = current.components.map(c => c.id === comp.id ? refresh(c) : c);
+    setComponents(prev => prev.map(c => c.id === comp.id ? refresh(c) : c));
+    setSelectedComponent(prev => prev?.id === comp.id ? refresh(prev) : prev);
+
+    // The new pinout may no longer have pins the netlist points at
+    const { value: checkedNets, errors } = validateNets({ nets: current.nets }, updated);
+    errors.forEach(e => addLog(`Netlist after refresh: ${e}`, 'warning', 'BUILDER'));
+    setNets(pairDifferentialNets(checkedNets, updated));
+    addLog(`${comp.name} refreshed: ${result.pins.length} pins.`, 'success', 'DATASHEET_SPIDER');
+  };
+
+  const actionKey = (action: ComponentAction) => `${action.type}:${action.componentName.toLowerCase()}`;
+
+  const rejectComponentAction = (action: ComponentAction) => {
+    setRejectedActions(prev => [...prev, actionKey(action)]);
+    addLog(`Rejected suggestion: ${action.type} ${action.componentName}`, 'info', 'CLIENT');
+  };
+
+  /**
+   * Applies one compatibility action, patches the netlist incrementally and re-runs
+   * the check, so the design converges without regenerating everything.
+   */
+  const recheckCompatibility = async (nextComponents: ComponentItem[]) => {
+    addLog("Re-running compatibility check...", 'info', 'LLM_PRO');
+    const report = await checkSystemCompatibility(nextComponents, appDescription, {
+      onIssue: msg => addLog(msg, 'warning', 'LLM_PRO')
+    });
+    setCompatibilityReport(report);
+    addLog(report.isCompatible ? "System Design Verified. No critical issues." : `Compatibility Issues Found: ${report.issues.length}`,
+      report.isCompatible ? 'success' : 'warning', 'LLM_PRO');
+  };
+
+  const applyComponentAction = async (action: ComponentAction) => {
+    setApplyingAction(actionKey(action));
+    const onIssue = (msg: string) => addLog(msg, 'warning', 'BUILDER');
+
+    try {
+      let nextComponents: ComponentItem[];
+      let nextNets: Net[];
+
+      if (action.type === 'REMOVE') {
+        const wanted = action.componentName.trim().toLowerCase();
+        let target = components.find(c => c.name.trim().toLowerCase() === wanted);
+        if (!target) {
+          // A partial match ("LED" vs "LED driver") may be another part, so the user decides
+          const candidates = components.filter(c => c.name.toLowerCase().includes(wanted) || wanted.includes(c.name.toLowerCase()));
+          if (candidates.length > 1) {
+            addLog(`Cannot remove ${action.componentName}: it could be ${candidates.map(c => c.designator || c.name).join(', ')}. Remove the right part by hand.`, 'warning', 'BUILDER');
+            return;
+          }
+          if (candidates.length === 1 && window.confirm(`The suggestion removes "${action.componentName}". Remove ${candidates[0].designator || ''} "${candidates[0].name}"?`)) {
+            target = candidates[0];
+          }
+        }
+        if (!target) {
+          addLog(`Cannot remove ${action.componentName}: no such component in the design.`, 'warning', 'BUILDER');
+          setRejectedActions(prev => [...prev, actionKey(action)]);
+          return;
+        }
+        ({ components: nextComponents, nets: nextNets } = removeComponent({ components, nets }, target.id));
+        if (selectedComponent?.id === target.id) setSelectedComponent(null);
+        addLog(`Removed ${target.name} and its connections (${action.reason}).`, 'success', 'BUILDER');
+      } else {
+        const added: ComponentItem = {
+          id: createComponentId(components, action.componentName),
+          name: action.componentName,
+          description: action.description || action.reason,
+          footprintType: action.footprintType || '',
+          status: 'searching_datasheet'
+        };
+        setComponents(prev => [...prev, added]);
+        const acquired = await acquireComponentData(added, true);
+        const ready = { ...acquired, footprintType: acquired.footprintType || acquired.physicalSpecs?.packageType || '' };
+        // The design may have been edited during the search
+        nextComponents = annotateComponents([...designRef.current.components.filter(c => c.id !== added.id), ready]);
+        setComponents(nextComponents);
+
+        addLog(`Connecting ${ready.name} to the existing netlist...`, 'info', 'BUILDER');
+        const extended = await extendNetlist(nextComponents, designRef.current.nets, [ready.id], action.reason, { onIssue });
+        // The new part's nets are taken over onto the netlist as it is now
+        nextComponents = designRef.current.components;
+        const { nets: wiredNets, wiring, errors } = mergeAddedWiring(designRef.current, extended, [ready.id]);
+        errors.forEach(onIssue);
+        nextNets = wiredNets;
+        addLog(`Added ${ready.name} on ${wiring.length} nets (${action.reason}).`, 'success', 'BUILDER');
+      }
+
+      setComponents(nextComponents);
+      setNets(nextNets);
+      await recheckCompatibility(nextComponents);
+    } catch (error) {
+      console.error(error);
+      addLog(`Failed to apply ${action.type} ${action.componentName}: ${(error as Error).message}`, 'error', 'BUILDER');
+    } finally {
+      setApplyingAction(null);
+    }
+  };
+
+  // Plans the edit, fetches pinouts for new parts and wires them, then previews the result
+  const handleDesignRequest = async (request: string) => {
+    setAssistantMessages(prev => [...prev, { role: 'user', text: request }]);
+    setAssistantBusy(true);
+    const onIssue = (msg: string) => addLog(msg, 'warning', 'BUILDER');
+    const base: SchematicData = { components, nets };
+
+    try {
+      addLog(`Design assistant: planning "${request}"...`, 'info', 'LLM_PRO');
+      const plan = await proposeDesignEdit(request, components, nets, appDescription, { onIssue });
+      let after = applyEditPlan(base, plan);
+
+      if (plan.addComponents.length > 0) {
+        const added: ComponentItem[] = [];
+        plan.addComponents.forEach(part => added.push({
+          id: createComponentId([...after.components, ...added], part.name),
+          name: part.name,
+          description: part.description,
+          footprintType: part.footprintType,
+          status: 'searching_datasheet'
+        }));
+        const ready = await runWithConcurrency(added, llmSettings.concurrency, comp => acquireComponentData(comp, true));
+        const nextComponents = annotateComponents([...after.components, ...ready]);
+
+        addLog(`Connecting ${ready.map(c => c.name).join(', ')} to the netlist...`, 'info', 'BUILDER');
+        after = {
+          components: nextComponents,
+          nets: await extendNetlist(nextComponents, after.nets, ready.map(c => c.id), plan.wiringInstructions, { onIssue })
+        };
+      }
+
+      const diff = diffDesigns(base, after);
+      if (isEmptyDiff(diff)) {
+        setAssistantMessages(prev => [...prev, { role: 'assistant', text: `${plan.summary} This leaves the design unchanged.` }]);
+        return;
+      }
+
+      setPendingEdit({ request, summary: plan.summary, base, after, diff, preview: buildDiffPreview(base, after, diff) });
+      setAssistantMessages(prev => [...prev, { role: 'assistant', text: `${plan.summary} The change is highlighted on the canvas; apply or discard it.` }]);
+      addLog(`Design edit proposed: +${diff.addedComponents.length}/−${diff.removedComponents.length} components, +${diff.addedConnections.length}/−${diff.removedConnections.length} connections.`, 'success', 'BUILDER');
+    } catch (error) {
+      console.error(error);
+      setAssistantMessages(prev => [...prev, { role: 'assistant', text: `I could not plan this change: ${(error as Error).message}` }]);
+      addLog(`Design assistant failed: ${(error as Error).message}`, 'error', 'LLM_PRO');
+    } finally {
+      setAssistantBusy(false);
+    }
+  };
+
+  // Applies the previewed edit as one state change and records it in the project history
+  const applyDesignEdit = async () => {
+    if (!pendingEdit) return;
+    const { request, summary, base, after, diff } = pendingEdit;
+    setPendingEdit(null);
+
+    if (base.components !== components || base.nets !== nets) {
+      setAssistantMessages(prev => [...prev, { role: 'assistant', text: "The design changed while this edit was pending, so it was not applied. Please ask again." }]);
+      addLog("Design edit discarded: the design changed since it was proposed.", 'warning', 'BUILDER');
+      return;
+    }
+
+    setComponents(after.components);
+    setNets(after.nets);
+    setDesignHistory(prev => [...prev, { id: `edit_${Date.now()}`, timestamp: Date.now(), request, summary, diff }]);
+    if (selectedComponent && diff.removedComponents.some(c => c.id === selectedComponent.id)) setSelectedComponent(null);
+    setAssistantMessages(prev => [...prev, { role: 'assistant', text: "Applied." }]);
+    addLog(`Applied design edit: ${summary}`, 'success', 'BUILDER');
+
+    setAssistantBusy(true);
+    try {
+      await recheckCompatibility(after.components);
+    } catch (error) {
+      console.error(error);
+      addLog(`Compatibility re-check failed: ${(error as Error).message}`, 'error', 'LLM_PRO');
+    } finally {
+      setAssistantBusy(false);
+    }
+  };
+
+  const discardDesignEdit = () => {
+    setPendingEdit(null);
+    setAssistantMessages(prev => [...prev, { role: 'assistant', text: "Discarded." }]);
+  };
+
+  const updateSupplyCurrent = (comp: ComponentItem, supplyCurrent: string) => {
+    const updated = { ...comp, supplyCurrent: supplyCurrent || undefined };
+    setComponents(prev => prev.map(c => c.id === comp.id ? updated : c));
+    setSelectedComponent(updated);
+  };
+
+  // Replaces the AI wiring of the given nets with the rule netlist's
+  const applyRuleConflicts = (conflicts: WiringConflict[]) => {
+    const next = applyRuleWiring({ components, nets }, ruleWiring.data, conflicts);
+    setComponents(annotateComponents(next.components));
+    setNets(next.nets);
+    addLog(`Rule wiring applied to ${conflicts.map(c => c.net.name).join(', ')}.`, 'success', 'BUILDER');
+  };
+
+  // Renumbers every designator by sheet position: rows top to bottom, left to right
+  const reannotate = () => {
+    const next = reannotateByPosition(components, schematicLayout.positions);
+    setComponents(next);
+    if (selectedComponent) setSelectedComponent(next.find(c => c.id === selectedComponent.id) || null);
+    addLog(`Re-annotated ${next.length} components by sheet position.`, 'success', 'BUILDER');
+  };
+
+  const toggleDnp = (comp: ComponentItem) => {
+    const updated = { ...comp, dnp: !comp.dnp };
+    setComponents(prev => prev.map(c => c.id === comp.id ? updated : c));
+    setSelectedComponent(updated);
+  };
+
+  const bomFields = bomOptions.extraFields || [];
+
+  const updateBomFields = (extraFields: BomExtraField[]) => setBomOptions(prev => ({ ...prev, extraFields }));
+
+  const addBomField = () => {
+    let n = bomFields.length + 1;
+    while (bomFields.some(f => f.key === `field_${n}`)) n++;
+    updateBomFields([...bomFields, { key: `field_${n}`, label: `Field ${n}`, values: {}, defaultValue: '' }]);
+  };
+
+  const updateBomField = (key: string, changes: Partial<BomExtraField>) =>
+    updateBomFields(bomFields.map(f => f.key === key ? { ...f, ...changes } : f));
+
+  // An empty value falls back to the column default
+  const setBomFieldValue = (field: BomExtraField, componentId: string, value: string) => {
+    const values = { ...field.values };
+    if (value) values[componentId] = value; else delete values[componentId];
+    updateBomField(field.key, { values });
+  };
+
+  const updateErcSeverity = (rule: keyof ErcSeverities, severity: ErcSeverity) => {
+    const updated = { ...ercSeverities, [rule]: severity };
+    setErcSeverities(updated);
+    saveErcSeverities(updated);
+  };
+
+  const updateLlmSettings = (settings: LlmSettings) => {
+    setLlmSettings(settings);
+    saveLlmSettings(settings);
+  };
+
+  const loadReplaySession = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const session = parseSession(await file.text());
+      setReplaySession({ name: file.name, session });
+      setRecordSession(false);
+      setMainComponent(session.input.mainComponent);
+      setAppDescription(session.input.appDescription);
+      addLog(`Session ${file.name} loaded: ${session.exchanges.length} recorded AI calls.`, 'success', 'CLIENT');
+    } catch (error) {
+      addLog(`Failed to load ${file.name}: ${(error as Error).message}`, 'error', 'CLIENT');
+    }
+  };
+
   // --- Layout Handler ---
   const handleLayoutChange = (positions: any, routes: any) => {
       setSchematicLayout({ positions, routes });
@@ -224,7 +799,9 @@ const App: React.FC = () => {
     try {
       addLog(`Analyzing PDF structure & Electrical Specs with Gemini 3.0 Pro...`, 'info', 'LLM_PRO');
       // PASS APP DESCRIPTION CONTEXT
-      const result = await analyzeDatasheetPDF(comp, file, appDescription);
+      const result = await analyzeDatasheetPDF(comp, file, appDescription, {
+        onIssue: msg => addLog(`${comp.name}: ${msg}`, 'warning', 'LLM_PRO')
+      });
       
       setComponents(prev => prev.map(c => c.id === comp.id ? { 
         ...c, 
@@ -232,9 +809,20 @@ const App: React.FC = () => {
         analysisReport: result.report,
         physicalSpecs: result.physicalSpecs,
         isolationRules: result.isolationRules,
+        cachedAt: undefined,
         status: 'ready' 
       } : c));
 
+      if (!result.fallback) {
+        // A user-supplied datasheet is the best source we will get for this part
+        await putCachedComponent(comp.name, comp.footprintType, 'datasheet', {
+          pins: result.pins,
+          physicalSpecs: result.physicalSpecs,
+          isolationRules: result.isolationRules,
+          analysisReport: result.report
+        });
+      }
+
       addLog(`Deep Analysis complete for ${comp.name}. Extracted physical dimensions & isolation rules.`, 'success', 'LLM_PRO');
 
     } catch (error) {
@@ -242,51 +830,92 @@ const App: React.FC = () => {
     }
   };
 
+  // Cache lookup, then datasheet search, then heuristic pinout as a last resort
+  const acquireComponentData = async (comp: ComponentItem, useCache: boolean, signal?: AbortSignal): Promise<ComponentItem> => {
+    const cached = useCache ? await getCachedComponent(comp.name, comp.footprintType) : undefined;
+    if (cached) {
+        addLog(`Cache hit for ${comp.name}: ${cached.data.pins.length} pins from ${cached.source} (${new Date(cached.storedAt).toLocaleDateString()})`, 'success', 'DATASHEET_SPIDER');
+        return { ...comp, ...cached.data, status: 'ready', cachedAt: cached.storedAt };
+    }
+
+    addLog(`Searching technical data for: ${comp.name}`, 'info', 'DATASHEET_SPIDER');
+    
+    // Use Google Search + Gemini to find pinout and specs
+    const componentIssues = { onIssue: (msg: string) => addLog(`${comp.name}: ${msg}`, 'warning', 'DATASHEET_SPIDER'), signal };
+    const searchResult = await searchComponentData(comp.name, appDescription, componentIssues);
+    
+    if (searchResult.pins.length > 0) {
+        addLog(`Found data for ${comp.name}: ${searchResult.pins.length} pins, ${searchResult.physicalSpecs?.packageType || 'Unknown Package'}`, 'success', 'DATASHEET_SPIDER');
+        await putCachedComponent(comp.name, comp.footprintType, 'search', searchResult);
+        return { 
+            ...comp, 
+            pins: searchResult.pins, 
+            status: 'ready', 
+            datasheetUrl: searchResult.datasheetUrl,
+            physicalSpecs: searchResult.physicalSpecs,
+            isolationRules: searchResult.isolationRules 
+        };
+    } else {
+        // Fallback
+        addLog(`Deep search failed for ${comp.name}. Using heuristic generation.`, 'warning', 'DATASHEET_SPIDER');
+        const fallbackPins = await analyzePins(comp.name, appDescription, componentIssues);
+        return { ...comp, pins: fallbackPins, status: 'ready' };
+    }
+  };
+
   const handleStartProcessing = async () => {
     if (!mainComponent || !appDescription) return;
+    // Restored on cancel so an aborted run leaves the project as it was
+    const snapshot = { components, nets, compatibilityReport, mainComponentId };
+    const controller = new AbortController();
+    const signal = controller.signal;
+    runAbortRef.current = controller;
+
     setStage(AppStage.PROCESSING);
     setIsProcessing(true);
+    setRejectedActions([]);
+    setRejectedConflicts([]);
     addLog(`Initializing Design Pipeline for: ${mainComponent}`, 'info', 'CLIENT');
 
+    if (replaySession) {
+      startReplay(replaySession.session);
+      addLog(`Replaying recorded session ${replaySession.name} (offline).`, 'info', 'CLIENT');
+    } else if (recordSession) {
+      startRecording(llmSettings.provider, { mainComponent, appDescription });
+      addLog("Recording AI session.", 'info', 'CLIENT');
+    }
+
     try {
       // 1. Generate BOM
       addLog(`Generating Context-Aware Bill of Materials (BOM)...`, 'info', 'LLM_FLASH');
-      const bom = await generateBOM(mainComponent, appDescription);
+      const generatedBom = await generateBOM(mainComponent, appDescription, {
+        onIssue: msg => addLog(msg, 'warning', 'LLM_FLASH'),
+        signal
+      });
+      // One part per passive value; decoupling is placed per power pin once the netlist exists
+      const { components: expandedBom, decoupling, expanded } = expandPassives(generatedBom);
+      // Parts that were already in the design keep their designators
+      const bom = annotateComponents(expandedBom, snapshot.components);
       setComponents(bom);
       addLog(`BOM Generated with ${bom.length} components.`, 'success', 'LLM_FLASH');
+      if (expanded > 0) addLog(`Expanded ${expanded} passive entries into individual parts.`, 'info', 'LLM_FLASH');
 
       // 2. Automated Search & Analysis for each Component
-      addLog("Initiating Parallel Datasheet Search & Extraction...", 'info', 'DATASHEET_SPIDER');
+      addLog(`Initiating Datasheet Search & Extraction (${llmSettings.concurrency} in parallel)...`, 'info', 'DATASHEET_SPIDER');
       
-      const updatedComponents = await Promise.all(bom.map(async (comp) => {
-         addLog(`Searching technical data for: ${comp.name}`, 'info', 'DATASHEET_SPIDER');
-         
-         // Use Google Search + Gemini to find pinout and specs
-         const searchResult = await searchComponentData(comp.name, appDescription);
-         
-         if (searchResult.pins.length > 0) {
-             addLog(`Found data for ${comp.name}: ${searchResult.pins.length} pins, ${searchResult.physicalSpecs?.packageType || 'Unknown Package'}`, 'success', 'DATASHEET_SPIDER');
-             return { 
-                 ...comp, 
-                 pins: searchResult.pins, 
-                 status: 'ready', 
-                 datasheetUrl: searchResult.datasheetUrl,
-                 physicalSpecs: searchResult.physicalSpecs,
-                 isolationRules: searchResult.isolationRules 
-             } as ComponentItem;
-         } else {
-             // Fallback
-             addLog(`Deep search failed for ${comp.name}. Using heuristic generation.`, 'warning', 'DATASHEET_SPIDER');
-             const fallbackPins = await analyzePins(comp.name, appDescription);
-             return { ...comp, pins: fallbackPins, status: 'ready' } as ComponentItem;
-         }
-      }));
+      // Cached data would bypass the recorded calls, so sessions always go to the source
+      const useCache = !replaySession && !recordSession;
+      // Expanded passives already have their two pins
+      const updatedComponents = await runWithConcurrency(bom, llmSettings.concurrency, comp => comp.status === 'ready' ? Promise.resolve(comp) : acquireComponentData(comp, useCache, signal), signal);
 
       setComponents(updatedComponents);
 
       // 3. Compatibility Check
       addLog("Running Electrical Rule Check (ERC) & Compatibility Analysis...", 'info', 'LLM_PRO');
-      const report = await checkSystemCompatibility(updatedComponents, appDescription);
+      const report = await checkSystemCompatibility(updatedComponents, appDescription, {
+        onIssue: msg => addLog(msg, 'warning', 'LLM_PRO'),
+        signal
+      });
       setCompatibilityReport(report);
       
       if (!report.isCompatible) {
@@ -297,21 +926,72 @@ const App: React.FC = () => {
 
       // 4. Generate Netlist
       addLog("Synthesizing Schematic Netlist...", 'info', 'BUILDER');
+      // The BOM lists the main component first
       const mainCompId = updatedComponents[0]?.id;
-      const generatedNets = await generateNetlist(updatedComponents, mainCompId);
-      setNets(generatedNets);
+      setMainComponentId(mainCompId);
+      const generatedNets = await generateNetlist(updatedComponents, mainCompId, {
+        onIssue: msg => addLog(msg, 'warning', 'BUILDER'),
+        signal
+      });
       addLog(`Netlist created with ${generatedNets.length} distinct nets.`, 'success', 'BUILDER');
 
+      // 5. Decoupling: one capacitor per IC power pin
+      const decoupled = addDecoupling({ components: updatedComponents, nets: generatedNets }, decoupling);
+      const finalComponents = annotateComponents(decoupled.data.components);
+      setComponents(finalComponents);
+      setNets(decoupled.data.nets);
+      addLog(`Placed ${decoupled.added.length} decoupling capacitors (${decoupling.perPin} per power pin${decoupling.bulk.length ? `, ${decoupling.bulk.join('/')} per rail` : ''}).`, 'success', 'BUILDER');
+
+      const erc = runErc(decoupled.data, ercSeverities);
+      const ercErrors = erc.filter(v => v.severity === 'error').length;
+      addLog(erc.length === 0 ? "Rule-based ERC passed." : `Rule-based ERC: ${ercErrors} errors, ${erc.length - ercErrors} warnings/notes.`,
+        ercErrors > 0 ? 'error' : erc.length > 0 ? 'warning' : 'success', 'BUILDER');
+
+      // 6. Protocol rules: where the deterministic wiring disagrees with the AI netlist
+      const rules = generateRuleNetlist(finalComponents, mainCompId);
+      const conflicts = compareNetlists(rules.data, { components: finalComponents, nets: decoupled.data.nets });
+      addLog(conflicts.length === 0 ? "Protocol wiring rules agree with the AI netlist." : `Protocol wiring rules disagree with the AI netlist on ${conflicts.length} nets; review them under Wiring Conflicts.`,
+        conflicts.length > 0 ? 'warning' : 'success', 'BUILDER');
+      rules.notes.forEach(note => addLog(note, 'info', 'BUILDER'));
+
       setStage(AppStage.SCHEMATIC);
     } catch (error) {
-      console.error(error);
-      addLog("Critical System Failure during processing.", 'error', 'CLIENT');
+      if (isCancelled(error, signal)) {
+        setComponents(snapshot.components);
+        setNets(snapshot.nets);
+        setCompatibilityReport(snapshot.compatibilityReport);
+        setMainComponentId(snapshot.mainComponentId);
+        setStage(AppStage.INPUT);
+        addLog("Pipeline cancelled. Project restored to its state before the run.", 'warning', 'CLIENT');
+      } else {
+        console.error(error);
+        addLog("Critical System Failure during processing.", 'error', 'CLIENT');
+      }
     } finally {
       setIsProcessing(false);
+      runAbortRef.current = null;
+
+      if (replaySession) {
+        const misses = stopReplay();
+        if (misses.length > 0) {
+          addLog(`Replay diverged from the recording: no response for ${misses.join(', ')}. Fallback data was used where available.`, 'warning', 'CLIENT');
+        }
+      }
+      const recorded = stopRecording();
+      // A cancelled run is incomplete and would only produce replay misses
+      if (recorded && !signal.aborted) {
+        const fileName = `${projectName.replace(/[^a-z0-9_\-]+/gi, '_')}${SESSION_FILE_EXTENSION}`;
+        triggerDownload(serializeSession(recorded), fileName, 'application/json');
+        addLog(`Session recorded: ${recorded.exchanges.length} AI calls saved to ${fileName}.`, 'success', 'CLIENT');
+      }
     }
   };
 
 
+  const cancelProcessing = () => {
+    runAbortRef.current?.abort();
+  };
+
   // --- UI Renderers ---
 
   const renderProjects = () => (
@@ -322,12 +1002,22 @@ const App: React.FC = () => {
              <h1 className="text-4xl font-bold text-white mb-2 tracking-tight">AutoSchematic AI</h1>
              <p className="text-eda-muted text-lg">Next-Gen Generative EDA Suite</p>
            </div>
-           <button 
-             onClick={createProject}
-             className="bg-eda-accent hover:bg-cyan-400 text-slate-900 px-6 py-3 rounded-lg font-bold flex items-center gap-2 transition-all shadow-lg shadow-cyan-500/20"
-           >
-             <Plus size={20}/> New Project
-           </button>
+           <div className="flex gap-3">
+             <label className="border border-eda-border hover:border-eda-accent text-eda-muted hover:text-white px-6 py-3 rounded-lg font-bold flex items-center gap-2 transition-all cursor-pointer">
+               <Upload size={20}/> Import Eagle .SCH
+               <input type="file" className="hidden" accept=".sch" onChange={importEagleProject} />
+             </label>
+             <label className="border border-eda-border hover:border-eda-accent text-eda-muted hover:text-white px-6 py-3 rounded-lg font-bold flex items-center gap-2 transition-all cursor-pointer">
+               <Upload size={20}/> Import {PROJECT_FILE_EXTENSION}
+               <input type="file" className="hidden" accept={`${PROJECT_FILE_EXTENSION},application/json`} onChange={importProjectFile} />
+             </label>
+             <button 
+               onClick={createProject}
+               className="bg-eda-accent hover:bg-cyan-400 text-slate-900 px-6 py-3 rounded-lg font-bold flex items-center gap-2 transition-all shadow-lg shadow-cyan-500/20"
+             >
+               <Plus size={20}/> New Project
+             </button>
+           </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -339,7 +1029,10 @@ const App: React.FC = () => {
             >
                <div className="flex justify-between items-start mb-4">
                  <Folder className="text-eda-accent" size={32}/>
-                 <button onClick={(e) => deleteProject(e, p.id)} className="text-eda-muted hover:text-red-400 p-2"><Trash2 size={16}/></button>
+                 <div className="flex">
+                   <button onClick={(e) => exportProjectFile(e, p)} className="text-eda-muted hover:text-white p-2" title={`Export ${PROJECT_FILE_EXTENSION}`}><Download size={16}/></button>
+                   <button onClick={(e) => deleteProject(e, p.id)} className="text-eda-muted hover:text-red-400 p-2"><Trash2 size={16}/></button>
+                 </div>
                </div>
                <h3 className="text-xl font-bold text-white mb-2 group-hover:text-eda-accent transition-colors">{p.name}</h3>
                <p className="text-eda-muted text-sm line-clamp-2">{p.appDescription}</p>
@@ -398,6 +1091,68 @@ const App: React.FC = () => {
             />
           </div>
 
+          <details className="bg-eda-bg border border-eda-border rounded-lg p-4">
+            <summary className="text-eda-muted text-sm font-bold uppercase tracking-wider cursor-pointer">AI Provider: {getProvider(llmSettings.provider).label}</summary>
+            <div className="mt-4 space-y-3">
+              <select
+                className="w-full bg-eda-panel border border-eda-border rounded p-2 text-white text-sm focus:border-eda-accent focus:outline-none"
+                value={llmSettings.provider}
+                onChange={e => updateLlmSettings({ ...llmSettings, provider: e.target.value, models: {} })}
+              >
+                {LLM_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <div className="grid grid-cols-2 gap-2">
+                {LLM_STAGES.map(st => (
+                  <label key={st.id} className="text-[10px] text-eda-muted uppercase">
+                    {st.label}
+                    <input
+                      className="mt-1 w-full bg-eda-panel border border-eda-border rounded p-2 text-white text-xs font-mono normal-case focus:border-eda-accent focus:outline-none"
+                      value={llmSettings.models[st.id] || ''}
+                      placeholder={getProvider(llmSettings.provider).defaultModels[st.id]}
+                      onChange={e => updateLlmSettings({ ...llmSettings, models: { ...llmSettings.models, [st.id]: e.target.value } })}
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {([
+                  ['concurrency', 'Parallel jobs', 1, 1],
+                  ['maxRetries', 'Retries', 0, 1],
+                  ['timeoutMs', 'Timeout (s)', 5, 1000]
+                ] as const).map(([key, label, min, unit]) => (
+                  <label key={key} className="text-[10px] text-eda-muted uppercase">
+                    {label}
+                    <input
+                      type="number"
+                      min={min}
+                      className="mt-1 w-full bg-eda-panel border border-eda-border rounded p-2 text-white text-xs font-mono focus:border-eda-accent focus:outline-none"
+                      value={llmSettings[key] / unit}
+                      onChange={e => updateLlmSettings({ ...llmSettings, [key]: Math.max(min, Number(e.target.value) || min) * unit })}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          </details>
+
+          <div className="flex items-center gap-4 text-xs text-eda-muted">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={recordSession} disabled={!!replaySession} onChange={e => setRecordSession(e.target.checked)} />
+              Record session
+            </label>
+            {replaySession ? (
+              <span className="flex items-center gap-2 font-mono text-eda-accent">
+                Replaying {replaySession.name}
+                <button onClick={() => setReplaySession(null)} className="text-eda-muted hover:text-red-400"><Trash2 size={12}/></button>
+              </span>
+            ) : (
+              <label className="flex items-center gap-1 hover:text-white cursor-pointer">
+                <Upload size={12}/> Replay session
+                <input type="file" className="hidden" accept={`${SESSION_FILE_EXTENSION},application/json`} onChange={loadReplaySession} />
+              </label>
+            )}
+          </div>
+
           <div className="pt-4 flex gap-4">
              <button onClick={() => setStage(AppStage.PROJECTS)} className="px-6 py-4 rounded-lg font-bold text-eda-muted hover:text-white transition-colors">Back</button>
              <button 
@@ -424,6 +1179,9 @@ const App: React.FC = () => {
                 nets.length === 0 ? `Processing Components (${components.filter(c => c.status === 'ready').length}/${components.length})...` :
                 "Finalizing Netlist..."}
              </span>
+             <button onClick={cancelProcessing} disabled={!isProcessing} className="ml-2 text-xs font-bold text-eda-muted hover:text-red-400 border border-eda-border hover:border-red-400 px-3 py-1 rounded-full transition-colors disabled:opacity-50">
+               Cancel
+             </button>
           </div>
        </div>
        <div className="h-1/2 bg-black p-4 font-mono text-xs overflow-auto">
@@ -468,10 +1226,25 @@ const App: React.FC = () => {
                className={`p-3 rounded border transition-all cursor-pointer ${selectedComponent?.id === c.id ? 'bg-eda-accent/10 border-eda-accent' : 'bg-eda-bg border-eda-border hover:border-slate-500'}`}
              >
                 <div className="flex justify-between items-start mb-1">
-                   <span className="font-bold text-sm text-white">{c.name}</span>
+                   <span className="font-bold text-sm text-white">{c.designator && <span className="font-mono text-eda-accent mr-1.5">{c.designator}</span>}{c.name}</span>
                    {c.status === 'ready' ? <CheckCircle size={14} className="text-green-500"/> : <Loader2 size={14} className="animate-spin text-eda-accent"/>}
                 </div>
                 <p className="text-xs text-eda-muted line-clamp-1 mb-2">{c.description}</p>
+                <div className="flex items-center gap-2 mb-2 text-[10px]">
+                   {c.cachedAt && (
+                      <span className="flex items-center gap-1 text-emerald-400 bg-emerald-400/10 px-1.5 py-0.5 rounded" title={`From local component cache, stored ${new Date(c.cachedAt).toLocaleString()}`}>
+                         <Database size={10}/> Cached
+                      </span>
+                   )}
+                   <button
+                      onClick={e => { e.stopPropagation(); refreshComponent(c); }}
+                      disabled={c.status !== 'ready'}
+                      className="ml-auto flex items-center gap-1 text-eda-muted hover:text-white disabled:opacity-50"
+                      title="Refresh from source (bypasses the cache)"
+                   >
+                      <RefreshCw size={10}/> Refresh
+                   </button>
+                </div>
                 
                 {/* PDF Upload / Status */}
                 {c.datasheetUrl ? (
@@ -488,22 +1261,155 @@ const App: React.FC = () => {
           ))}
         </div>
 
+        {/* Rule-based ERC (deterministic, see ercService) */}
+        <div className="p-4 bg-eda-bg/50 border-t border-eda-border max-h-64 overflow-y-auto">
+           <h3 className={`font-bold text-xs mb-2 flex items-center gap-2 ${ercViolations.some(v => v.severity === 'error') ? 'text-red-400' : ercViolations.length > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+              {ercViolations.length > 0 ? <ShieldAlert size={12}/> : <ShieldCheck size={12}/>} ERC
+              <span className="ml-auto font-mono text-[10px] text-eda-muted">
+                 {ercViolations.filter(v => v.severity === 'error').length}E / {ercViolations.filter(v => v.severity === 'warning').length}W / {ercViolations.filter(v => v.severity === 'info').length}I
+              </span>
+           </h3>
+           <ul className="text-[10px] space-y-1 mb-2">
+              {ercViolations.map((v, i) => (
+                 <li key={i} className={v.severity === 'error' ? 'text-red-300' : v.severity === 'warning' ? 'text-yellow-200' : 'text-eda-muted'}>
+                    <span className="font-mono uppercase mr-1">[{v.severity[0]}]</span>{v.message}
+                 </li>
+              ))}
+           </ul>
+           <details className="text-[10px] text-eda-muted mb-1">
+              <summary className="cursor-pointer hover:text-white">Voltage domains ({voltageDomains.rails.length} rails)</summary>
+              <ul className="mt-2 space-y-0.5 font-mono">
+                 {voltageDomains.rails.map(r => <li key={r.netId} title={r.source}><span className="text-red-300">{r.netName}</span> = {r.voltage}V</li>)}
+                 {voltageDomains.levels.map(l => <li key={l.netId} title={l.drivers.join(', ')}><span className="text-green-300">{l.netName}</span> driven at {l.level}V</li>)}
+              </ul>
+           </details>
+           <details className="text-[10px] text-eda-muted">
+              <summary className="cursor-pointer hover:text-white">Rule severities</summary>
+              <div className="mt-2 space-y-1">
+                 {ERC_RULES.map(rule => (
+                    <label key={rule.id} className="flex items-center justify-between gap-2">
+                       {rule.label}
+                       <select
+                          className="bg-eda-panel border border-eda-border rounded px-1 text-white"
+                          value={ercSeverities[rule.id] || rule.defaultSeverity}
+                          onChange={e => updateErcSeverity(rule.id, e.target.value as ErcSeverity)}
+                       >
+                          {(['error', 'warning', 'info', 'off'] as const).map(sev => <option key={sev} value={sev}>{sev}</option>)}
+                       </select>
+                    </label>
+                 ))}
+              </div>
+           </details>
+        </div>
+
         {/* Compatibility Report Mini-View */}
-        {compatibilityReport && !compatibilityReport.isCompatible && (
+        {((compatibilityReport && !compatibilityReport.isCompatible) || powerBudget.warnings.length > 0) && (
            <div className="p-4 bg-red-900/20 border-t border-red-900/50">
-              <h3 className="text-red-400 font-bold text-xs mb-2 flex items-center gap-2"><AlertTriangle size={12}/> Design Issues</h3>
-              <ul className="text-[10px] text-red-200 list-disc pl-4 space-y-1">
-                 {compatibilityReport.issues.slice(0, 3).map((issue, i) => <li key={i}>{issue}</li>)}
-              </ul>
+              {compatibilityReport && !compatibilityReport.isCompatible && (
+                 <>
+                    <h3 className="text-red-400 font-bold text-xs mb-2 flex items-center gap-2"><AlertTriangle size={12}/> Design Issues (AI review)</h3>
+                    <ul className="text-[10px] text-red-200 list-disc pl-4 space-y-1">
+                       {compatibilityReport.issues.slice(0, 3).map((issue, i) => <li key={i}>{issue}</li>)}
+                    </ul>
+                 </>
+              )}
+              {powerBudget.warnings.length > 0 && (
+                 <>
+                    <h3 className="text-yellow-400 font-bold text-xs mt-3 mb-2 flex items-center gap-2 first:mt-0"><Zap size={12}/> Power Budget</h3>
+                    <ul className="text-[10px] text-yellow-200 list-disc pl-4 space-y-1">
+                       {powerBudget.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                    </ul>
+                 </>
+              )}
            </div>
         )}
+
+        {/* Suggested Fixes (CompatibilityReport.actions) */}
+        {(() => {
+           const pending = (compatibilityReport?.actions || []).filter(a => !rejectedActions.includes(actionKey(a)));
+           if (pending.length === 0) return null;
+           return (
+              <div className="p-4 bg-eda-bg/50 border-t border-eda-border max-h-64 overflow-y-auto">
+                 <h3 className="text-eda-accent font-bold text-xs mb-2 flex items-center gap-2"><Wrench size={12}/> Suggested Fixes</h3>
+                 <div className="space-y-2">
+                    {pending.map(action => {
+                       const key = actionKey(action);
+                       return (
+                          <div key={key} className="bg-eda-panel border border-eda-border rounded p-2 text-[10px]">
+                             <div className="flex items-center gap-2 mb-1">
+                                <span className={`font-bold font-mono px-1 rounded ${action.type === 'ADD' ? 'text-green-400 bg-green-400/10' : 'text-red-400 bg-red-400/10'}`}>{action.type}</span>
+                                <span className="text-white font-bold truncate">{action.componentName}</span>
+                             </div>
+                             <p className="text-eda-muted mb-2">{action.reason}</p>
+                             <div className="flex gap-2">
+                                <button onClick={() => applyComponentAction(action)} disabled={!!applyingAction} className="flex-1 flex items-center justify-center gap-1 bg-white/5 hover:bg-green-500/20 text-green-400 py-1 rounded disabled:opacity-50">
+                                   {applyingAction === key ? <Loader2 size={10} className="animate-spin"/> : <Check size={10}/>} Accept
+                                </button>
+                                <button onClick={() => rejectComponentAction(action)} disabled={!!applyingAction} className="flex-1 flex items-center justify-center gap-1 bg-white/5 hover:bg-red-500/20 text-eda-muted hover:text-red-400 py-1 rounded disabled:opacity-50">
+                                   <X size={10}/> Reject
+                                </button>
+                             </div>
+                          </div>
+                       );
+                    })}
+                 </div>
+              </div>
+           );
+        })()}
+
+        {/* Wiring Conflicts: protocol rules vs. AI netlist (see wiringService) */}
+        {(() => {
+           const pending = wiringConflicts.filter(c => !rejectedConflicts.includes(c.key));
+           if (pending.length === 0) return null;
+           return (
+              <div className="p-4 bg-eda-bg/50 border-t border-eda-border max-h-64 overflow-y-auto">
+                 <h3 className="text-yellow-400 font-bold text-xs mb-2 flex items-center gap-2">
+                    <GitCompare size={12}/> Wiring Conflicts
+                    <button onClick={() => applyRuleConflicts(pending)} className="ml-auto font-normal text-[10px] text-eda-accent hover:text-white">Use rules for all</button>
+                 </h3>
+                 <div className="space-y-2">
+                    {pending.map(conflict => (
+                       <div key={conflict.key} className="bg-eda-panel border border-eda-border rounded p-2 text-[10px]">
+                          <div className="flex items-center gap-2 mb-1">
+                             <span className="text-white font-bold font-mono truncate">{conflict.net.name}</span>
+                             {conflict.aiNets.length > 0 && <span className="text-eda-muted truncate">AI: {conflict.aiNets.join(', ')}</span>}
+                          </div>
+                          {conflict.missing.length > 0 && <p className="text-eda-muted">Rules add: <span className="text-green-300">{conflict.missing.join(', ')}</span></p>}
+                          {conflict.extra.length > 0 && <p className="text-eda-muted">Rules remove: <span className="text-red-300">{conflict.extra.join(', ')}</span></p>}
+                          <div className="flex gap-2 mt-2">
+                             <button onClick={() => applyRuleConflicts([conflict])} className="flex-1 flex items-center justify-center gap-1 bg-white/5 hover:bg-green-500/20 text-green-400 py-1 rounded">
+                                <Check size={10}/> Use rules
+                             </button>
+                             <button onClick={() => setRejectedConflicts(prev => [...prev, conflict.key])} className="flex-1 flex items-center justify-center gap-1 bg-white/5 hover:bg-red-500/20 text-eda-muted hover:text-red-400 py-1 rounded">
+                                <X size={10}/> Keep AI
+                             </button>
+                          </div>
+                       </div>
+                    ))}
+                 </div>
+              </div>
+           );
+        })()}
       </div>
 
       {/* Main Schematic Canvas */}
-      <div className="flex-1 flex flex-col relative">
-         <SchematicView 
-            data={{ components, nets }} 
-            onLayoutChange={handleLayoutChange} 
+      <div className="flex-1 flex flex-col relative min-w-0">
+         <div className="flex-1 min-h-0">
+            <SchematicView 
+               data={pendingEdit ? pendingEdit.preview.data : { components, nets }} 
+               initialPositions={seedPositions}
+               onLayoutChange={handleLayoutChange} 
+               highlights={pendingEdit?.preview.highlights}
+            />
+         </div>
+         <DesignAssistant
+            messages={assistantMessages}
+            pending={pendingEdit}
+            history={designHistory}
+            busy={assistantBusy}
+            onSubmit={handleDesignRequest}
+            onApply={applyDesignEdit}
+            onDiscard={discardDesignEdit}
          />
       </div>
 
@@ -512,8 +1418,23 @@ const App: React.FC = () => {
           {selectedComponent ? (
             <div className="p-0 flex flex-col h-full">
                <div className="p-4 border-b border-eda-border bg-eda-bg">
-                  <h2 className="font-bold text-lg text-white mb-1">{selectedComponent.name}</h2>
-                  <span className="text-xs font-mono text-eda-accent bg-eda-accent/10 px-2 py-0.5 rounded">{selectedComponent.footprintType}</span>
+                  <h2 className="font-bold text-lg text-white mb-1">{selectedComponent.designator && <span className="font-mono text-eda-accent mr-2">{selectedComponent.designator}</span>}{selectedComponent.name}</h2>
+                  <div className="flex items-center justify-between">
+                     <span className="text-xs font-mono text-eda-accent bg-eda-accent/10 px-2 py-0.5 rounded">{selectedComponent.footprintType}</span>
+                     <label className="text-[10px] text-eda-muted flex items-center gap-1 cursor-pointer" title="Do Not Populate">
+                        <input type="checkbox" checked={!!selectedComponent.dnp} onChange={() => toggleDnp(selectedComponent)} /> DNP
+                     </label>
+                  </div>
+                  {bomFields.length > 0 && (
+                     <div className="mt-2 space-y-1">
+                        {bomFields.map(field => (
+                           <label key={field.key} className="flex items-center gap-2 text-[10px] text-eda-muted" title="BOM column">
+                              <span className="w-20 truncate">{field.label}</span>
+                              <input value={field.values[selectedComponent.id] ?? ''} placeholder={field.defaultValue} onChange={e => setBomFieldValue(field, selectedComponent.id, e.target.value)} className="flex-1 min-w-0 bg-eda-panel border border-eda-border rounded text-white px-1"/>
+                           </label>
+                        ))}
+                     </div>
+                  )}
                </div>
                
                <div className="p-4 flex-1 overflow-y-auto">
@@ -523,14 +1444,55 @@ const App: React.FC = () => {
                         <div className="flex justify-between"><span>Width:</span> <span className="text-white">{selectedComponent.physicalSpecs?.widthMm || '?'} mm</span></div>
                         <div className="flex justify-between"><span>Pitch:</span> <span className="text-white">{selectedComponent.physicalSpecs?.pinPitchMm || '?'} mm</span></div>
                         <div className="flex justify-between"><span>Pins:</span> <span className="text-white">{selectedComponent.pins?.length || 0}</span></div>
+                        <label className="flex justify-between items-center gap-2" title="Typical supply current used by the power budget (overrides pin maxCurrent)">
+                           <span>Supply I:</span>
+                           <input
+                              className={`w-20 bg-eda-panel border rounded px-1 text-right text-white focus:outline-none ${selectedComponent.supplyCurrent && !parseQuantity(selectedComponent.supplyCurrent, 'A') ? 'border-red-500' : 'border-eda-border focus:border-eda-accent'}`}
+                              value={selectedComponent.supplyCurrent || ''}
+                              placeholder="e.g. 80mA"
+                              onChange={e => updateSupplyCurrent(selectedComponent, e.target.value)}
+                           />
+                        </label>
                      </div>
                   </div>
 
+                  {(() => {
+                      const { pattern, warnings } = generateLandPattern(selectedComponent);
+                      return (
+                        <div className="mb-6">
+                           <h3 className="text-xs font-bold text-eda-muted uppercase mb-2">Land Pattern (IPC-7351)</h3>
+                           <div className="bg-eda-bg rounded p-3 text-xs font-mono text-slate-300 space-y-2">
+                              <div className="text-white break-all">{pattern ? pattern.name : 'Not available'}</div>
+                              {pattern && <div className="text-[10px] text-eda-muted">{pattern.pads.length} pads · courtyard {pattern.courtyard.w.toFixed(2)} x {pattern.courtyard.h.toFixed(2)} mm</div>}
+                              {warnings.map((w, i) => <div key={i} className="text-[10px] text-yellow-400 flex gap-1"><AlertTriangle size={10} className="shrink-0 mt-0.5"/> {w}</div>)}
+                              {pattern && (
+                                 <button onClick={() => handleDownloadFootprint(selectedComponent)} className="w-full text-[10px] text-eda-accent hover:text-white bg-white/5 hover:bg-white/10 py-1 rounded flex items-center justify-center gap-1">
+                                    <Download size={10}/> .kicad_mod
+                                 </button>
+                              )}
+                           </div>
+                        </div>
+                      );
+                  })()}
+
                   {selectedComponent.isolationRules && selectedComponent.isolationRules.length > 0 && (
                       <div className="mb-6">
                         <h3 className="text-xs font-bold text-orange-400 uppercase mb-2 flex items-center gap-2"><AlertTriangle size={12}/> Isolation Rules</h3>
                         <ul className="list-disc pl-4 text-xs text-orange-200/80 space-y-1">
-                           {selectedComponent.isolationRules.map((rule, i) => <li key={i}>{rule}</li>)}
+                           {selectedComponent.isolationRules.map((rule, i) => {
+                              const constraints = parseIsolationRules({ ...selectedComponent, isolationRules: [rule] });
+                              return (
+                                 <li key={i}>
+                                    {rule}
+                                    {constraints.map((c, j) => (
+                                       <span key={j} className="ml-1 text-[9px] font-mono text-orange-300 bg-orange-400/10 px-1 rounded" title="Checked by ERC">
+                                          {c.kind}: {c.classes.join('/')}{c.minCreepageMm !== undefined && ` ≥${c.minCreepageMm}mm`}
+                                       </span>
+                                    ))}
+                                    {constraints.length === 0 && <span className="ml-1 text-[9px] text-eda-muted" title="Not recognised as a net constraint; review manually">(prose only)</span>}
+                                 </li>
+                              );
+                           })}
                         </ul>
                       </div>
                   )}
@@ -542,6 +1504,10 @@ const App: React.FC = () => {
                            <div key={i} className="flex items-center text-xs bg-eda-bg/50 p-1.5 rounded border border-transparent hover:border-eda-border">
                               <span className="font-mono text-eda-accent w-6 mr-2 text-right">{pin.pinNumber}</span>
                               <span className="text-white font-bold mr-auto">{pin.name}</span>
+                              {(() => {
+                                 const maxV = getPinQuantity(pin, 'maxVoltage');
+                                 return maxV && <span className="text-[9px] font-mono text-eda-muted mr-1" title={`Max voltage: ${pin.electrical?.maxVoltage}`}>≤{formatQuantity(maxV)}</span>;
+                              })()}
                               <span className="text-[10px] text-eda-muted bg-white/5 px-1.5 rounded">{pin.type}</span>
                               {pin.electrical?.behavior && <span className="ml-1 text-[9px] text-yellow-500" title={pin.electrical.behavior}>⚡</span>}
                            </div>
@@ -551,17 +1517,115 @@ const App: React.FC = () => {
                </div>
             </div>
           ) : (
-            <div className="flex-1 flex flex-col items-center justify-center text-eda-muted p-8 text-center">
-               <MousePointer2 size={48} className="mb-4 opacity-20"/>
-               <p>Select a component to view deep technical analysis and physical specs.</p>
+            <div className="flex-1 flex flex-col overflow-y-auto">
+               {powerBudget.rails.length > 0 && (
+                  <div className="p-4 border-b border-eda-border">
+                     <h3 className="text-xs font-bold text-eda-muted uppercase mb-2 flex items-center gap-2"><Zap size={12}/> Power Budget</h3>
+                     <div className="space-y-2">
+                        {powerBudget.rails.map(rail => {
+                           const reg = rail.regulator;
+                           const overloaded = reg?.rating !== undefined && rail.total > reg.rating;
+                           return (
+                              <div key={rail.netId} className="bg-eda-bg rounded p-2 text-[10px] font-mono">
+                                 <div className="flex justify-between text-xs mb-1">
+                                    <span className="text-white font-bold">{rail.netName}{rail.voltage !== undefined && <span className="text-eda-muted font-normal"> {rail.voltage}V</span>}</span>
+                                    <span className={overloaded ? 'text-red-400' : 'text-green-400'}>
+                                       {formatQuantity({ value: rail.total, unit: 'A' })}{reg?.rating !== undefined && ` / ${formatQuantity({ value: reg.rating, unit: 'A' })}`}
+                                    </span>
+                                 </div>
+                                 {reg && (
+                                    <div className="text-eda-muted mb-1">
+                                       from {reg.name}
+                                       {reg.dissipation !== undefined && (
+                                          <span className={reg.maxDissipation !== undefined && reg.dissipation > reg.maxDissipation ? 'text-red-400' : ''}>
+                                             {' '}· {formatQuantity({ value: reg.dissipation, unit: 'W' })}{reg.maxDissipation !== undefined && ` of ${formatQuantity({ value: reg.maxDissipation, unit: 'W' })} (${reg.packageType}, ${AMBIENT_TEMP_C}°C)`}
+                                          </span>
+                                       )}
+                                    </div>
+                                 )}
+                                 {rail.loads.map(load => (
+                                    <div key={load.componentId} className="flex justify-between text-slate-400">
+                                       <span className="truncate">{load.name}</span>
+                                       <span title={load.source === 'user' ? 'User-entered typical current' : load.source === 'regulator' ? 'Drawn by regulator output' : 'Sum of supply pin maxCurrent'}>
+                                          {load.current !== undefined ? formatQuantity({ value: load.current, unit: 'A' }) : '?'}
+                                       </span>
+                                    </div>
+                                 ))}
+                              </div>
+                           );
+                        })}
+                     </div>
+                     <p className="text-[10px] text-eda-muted mt-2">"?" loads have no current data; select the part to enter a typical supply current.</p>
+                  </div>
+               )}
+               <div className="flex-1 flex flex-col items-center justify-center text-eda-muted p-8 text-center">
+                  <MousePointer2 size={48} className="mb-4 opacity-20"/>
+                  <p>Select a component to view deep technical analysis and physical specs.</p>
+               </div>
             </div>
           )}
           
           <div className="p-4 border-t border-eda-border bg-eda-bg">
-             <button onClick={handleDownloadCAD} className="w-full bg-eda-accent hover:bg-cyan-400 text-slate-900 font-bold py-3 rounded flex items-center justify-center gap-2 transition-all">
-                <Download size={18}/> Export .SCH
+             <button onClick={reannotate} disabled={components.length === 0} className="w-full mb-2 text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded disabled:opacity-50" title="Renumber reference designators by position on the sheet">
+                Re-annotate by position
              </button>
-             <p className="text-[10px] text-center mt-2 text-eda-muted">Compatible with Eagle, Altium, KiCad</p>
+             <div className="grid grid-cols-2 gap-2">
+                <button onClick={handleDownloadCAD} className="w-full bg-eda-accent hover:bg-cyan-400 text-slate-900 font-bold py-3 rounded flex items-center justify-center gap-2 transition-all">
+                   <Download size={18}/> Export .SCH
+                </button>
+                <button onClick={handleDownloadKiCad} className="w-full bg-eda-bg border border-eda-accent text-eda-accent hover:bg-eda-accent/10 font-bold py-3 rounded flex items-center justify-center gap-2 transition-all">
+                   <Download size={18}/> Export .kicad_sch
+                </button>
+             </div>
+             <p className="text-[10px] text-center mt-2 text-eda-muted">Eagle / Fusion 360 / Altium · KiCad 7/8 native</p>
+             <div className="flex flex-wrap gap-1 mt-3 pt-3 border-t border-eda-border">
+                <button onClick={handleDownloadSpice} className="flex-1 text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded flex items-center justify-center gap-1" title="SPICE netlist for ngspice / LTspice">
+                   <FileText size={10}/> SPICE .cir
+                </button>
+                <button onClick={() => handleDownloadBOM('csv')} className="flex-1 text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded flex items-center justify-center gap-1" title="Grouped manufacturing BOM">
+                   <FileText size={10}/> BOM .csv
+                </button>
+                <button onClick={() => handleDownloadBOM('json')} className="flex-1 text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded flex items-center justify-center gap-1" title="Grouped manufacturing BOM (JSON schema v1)">
+                   <FileText size={10}/> BOM .json
+                </button>
+                <button onClick={() => handleDownloadNetlist('kicad')} className="flex-1 text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded flex items-center justify-center gap-1" title="KiCad netlist for Pcbnew">
+                   <FileText size={10}/> KiCad .net
+                </button>
+                <button onClick={() => handleDownloadNetlist('telesis')} className="flex-1 text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded flex items-center justify-center gap-1" title="Cadence Telesis netlist for Allegro">
+                   <FileText size={10}/> Telesis
+                </button>
+                <button onClick={() => handleDownloadNetlist('edif')} className="flex-1 text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded flex items-center justify-center gap-1" title="EDIF 2.0.0 netlist">
+                   <FileText size={10}/> EDIF
+                </button>
+             </div>
+             <details className="text-[10px] text-eda-muted mt-2">
+                <summary className="cursor-pointer hover:text-white">BOM columns</summary>
+                <div className="mt-2 space-y-1">
+                   <label className="flex items-center gap-1" title={components.some(c => c.dnp) ? "Always exported while parts are marked DNP" : "Adds a DNP column"}>
+                      <input type="checkbox" checked={!!bomOptions.includeDnp || components.some(c => c.dnp)} disabled={components.some(c => c.dnp)} onChange={e => setBomOptions(prev => ({ ...prev, includeDnp: e.target.checked }))}/> DNP column
+                   </label>
+                   {bomFields.map(field => (
+                      <div key={field.key} className="flex items-center gap-1">
+                         <input value={field.label} onChange={e => updateBomField(field.key, { label: e.target.value })} placeholder="Column" className="flex-1 min-w-0 bg-eda-panel border border-eda-border rounded text-white px-1"/>
+                         <input value={field.defaultValue || ''} onChange={e => updateBomField(field.key, { defaultValue: e.target.value })} placeholder="Default" className="flex-1 min-w-0 bg-eda-panel border border-eda-border rounded text-white px-1"/>
+                         <button onClick={() => updateBomFields(bomFields.filter(f => f.key !== field.key))} className="hover:text-red-400" title="Remove column"><X size={10}/></button>
+                      </div>
+                   ))}
+                   <button onClick={addBomField} className="flex items-center gap-1 hover:text-white"><Plus size={10}/> Add column</button>
+                   {bomFields.length > 0 && <p>Per-part values are set in the part details.</p>}
+                </div>
+             </details>
+             <div className="flex gap-1 mt-3 pt-3 border-t border-eda-border">
+                <select value={paperSize} onChange={e => setPaperSize(e.target.value as PaperSize)} className="bg-eda-panel border border-eda-border rounded text-[10px] text-white px-1" title="Paper size">
+                   <option value="A4">A4</option>
+                   <option value="A3">A3</option>
+                   <option value="Letter">Letter</option>
+                </select>
+                <input value={revision} onChange={e => setRevision(e.target.value)} placeholder="Rev" className="w-10 bg-eda-panel border border-eda-border rounded text-[10px] text-white px-1" title="Revision"/>
+                <input value={author} onChange={e => setAuthor(e.target.value)} placeholder="Author" className="flex-1 min-w-0 bg-eda-panel border border-eda-border rounded text-[10px] text-white px-1" title="Author"/>
+                <button onClick={() => handleDownloadPrint('svg')} className="text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded" title="Printable SVG with title block">SVG</button>
+                <button onClick={() => handleDownloadPrint('pdf')} className="text-[10px] font-mono text-eda-muted hover:text-white bg-white/5 hover:bg-white/10 py-1.5 px-2 rounded" title="Printable PDF with title block">PDF</button>
+             </div>
           </div>
       </div>
     </div>
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DesignDiff, DesignHistoryEntry } from '../types';
+import { MessageSquare, Send, Check, X, History, Loader2 } from 'lucide-react';
+
+export interface AssistantMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+interface DesignAssistantProps {
+  messages: AssistantMessage[];
+  pending: { summary: string; diff: DesignDiff } | null; // Edit shown as a preview on the canvas
+  history: DesignHistoryEntry[];
+  busy: boolean;
+  onSubmit: (request: string) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const DiffList = ({ diff }: { diff: DesignDiff }) => (
+  <ul className="font-mono text-[10px] space-y-0.5 max-h-28 overflow-y-auto">
+    {diff.addedComponents.map(c => <li key={`+${c.id}`} className="text-green-400">+ {c.name}</li>)}
+    {diff.removedComponents.map(c => <li key={`-${c.id}`} className="text-red-400 line-through">− {c.name}</li>)}
+    {diff.addedConnections.map(c => <li key={`+${c.net}|${c.componentId}|${c.pin}`} className="text-green-400">+ {c.net}: {c.componentId}.{c.pin}</li>)}
+    {diff.removedConnections.map(c => <li key={`-${c.net}|${c.componentId}|${c.pin}`} className="text-red-400">− {c.net}: {c.componentId}.{c.pin}</li>)}
+  </ul>
+);
+
+export const DesignAssistant: React.FC<DesignAssistantProps> = ({ messages, pending, history, busy, onSubmit, onApply, onDiscard }) => {
+  const [draft, setDraft] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, pending]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || busy || pending) return;
+    onSubmit(draft.trim());
+    setDraft("");
+  };
+
+  return (
+    <div className="h-64 flex-shrink-0 border-t border-eda-border bg-eda-panel flex flex-col text-eda-text">
+      <div className="px-4 py-2 border-b border-eda-border flex items-center justify-between">
+        <h3 className="font-bold text-xs text-white flex items-center gap-2"><MessageSquare size={12} className="text-eda-accent"/> Design Assistant</h3>
+        <button onClick={() => setShowHistory(s => !s)} className="text-[10px] text-eda-muted hover:text-white flex items-center gap-1">
+          <History size={10}/> History ({history.length})
+        </button>
+      </div>
+
+      {showHistory ? (
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {history.length === 0 && <p className="text-[10px] text-eda-muted">No edits applied yet.</p>}
+          {[...history].reverse().map(entry => (
+            <div key={entry.id} className="bg-eda-bg border border-eda-border rounded p-2 text-[10px]">
+              <div className="flex justify-between text-eda-muted mb-1">
+                <span className="text-white font-bold truncate">"{entry.request}"</span>
+                <span className="flex-shrink-0 ml-2">{new Date(entry.timestamp).toLocaleString()}</span>
+              </div>
+              <p className="text-eda-muted mb-1">{entry.summary}</p>
+              <DiffList diff={entry.diff}/>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-3 space-y-2 text-xs">
+          {messages.length === 0 && (
+            <p className="text-[10px] text-eda-muted">Describe a change, e.g. "add a CAN transceiver on GPIO4/5" or "remove the DHT22". Edits are previewed on the canvas before they are applied.</p>
+          )}
+          {messages.map((m, i) => (
+            <div key={i} className={`px-3 py-1.5 rounded max-w-[80%] ${m.role === 'user' ? 'ml-auto bg-eda-accent/20 text-white' : 'bg-eda-bg border border-eda-border'}`}>
+              {m.text}
+            </div>
+          ))}
+          {pending && (
+            <div className="bg-eda-bg border border-amber-500/50 rounded p-2 text-[10px]">
+              <p className="text-white font-bold mb-1">{pending.summary}</p>
+              <DiffList diff={pending.diff}/>
+              <div className="flex gap-2 mt-2">
+                <button onClick={onApply} disabled={busy} className="flex-1 flex items-center justify-center gap-1 bg-white/5 hover:bg-green-500/20 text-green-400 py-1 rounded disabled:opacity-50">
+                  <Check size={10}/> Apply
+                </button>
+                <button onClick={onDiscard} disabled={busy} className="flex-1 flex items-center justify-center gap-1 bg-white/5 hover:bg-red-500/20 text-eda-muted hover:text-red-400 py-1 rounded disabled:opacity-50">
+                  <X size={10}/> Discard
+                </button>
+              </div>
+            </div>
+          )}
+          <div ref={endRef}/>
+        </div>
+      )}
+
+      <form onSubmit={submit} className="p-2 border-t border-eda-border flex gap-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          disabled={busy || !!pending}
+          placeholder={pending ? "Apply or discard the previewed edit first" : "Ask for a design change..."}
+          className="flex-1 bg-eda-bg border border-eda-border rounded px-3 py-1.5 text-xs text-white focus:outline-none focus:border-eda-accent disabled:opacity-50"
+        />
+        <button type="submit" disabled={busy || !!pending || !draft.trim()} className="px-3 bg-eda-accent/20 hover:bg-eda-accent/30 text-eda-accent rounded disabled:opacity-50">
+          {busy ? <Loader2 size={14} className="animate-spin"/> : <Send size={14}/>}
+        </button>
+      </form>
+    </div>
+  );
+};
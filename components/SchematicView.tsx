@@ -1,6 +1,8 @@
 import React, { useMemo, useState, useEffect, useCallback } from 'react';
 import { SchematicData, ComponentItem, PinDefinition, Net } from '../types';
 import { ZoomIn, ZoomOut, Move, Grid, MousePointer2 } from 'lucide-react';
+import type { DiffHighlights, DiffMark } from '../services/designService';
+import { getDesignators } from '../services/annotationService';
 
 interface Route {
   path: {x: number, y: number}[];
@@ -11,16 +13,24 @@ interface Route {
 
 interface SchematicViewProps {
   data: SchematicData;
+  initialPositions?: Record<string, {x: number, y: number, w: number, h: number}>;
   onLayoutChange?: (
     positions: Record<string, {x: number, y: number, w: number, h: number}>,
     routes: Route[]
   ) => void;
+  highlights?: DiffHighlights; // Marks parts and nets of a previewed design edit
 }
 
 const GRID_SIZE = 20;
 const HEADER_HEIGHT = 40;
 const PIN_SPACING = 20;
 
+const DIFF_COLORS: Record<DiffMark, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  changed: '#f59e0b'
+};
+
 // --- A* Pathfinding Logic ---
 
 interface Point { x: number; y: number; }
@@ -130,26 +140,70 @@ const findPathAStar = (
   ];
 };
 
-export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChange }) => {
+// --- Differential Pairs ---
+
+// Grid cells between the two wires of a pair; equal to the pin pitch, so halves on
+// neighbouring pins run straight out without a jog
+const PAIR_SPACING = (PIN_SPACING * 2) / GRID_SIZE;
+
+interface PinPoint { p: Point; side: string; componentId: string; }
+
+const dedupe = (path: Point[]) => path.filter((p, i) => i === 0 || p.x !== path[i-1].x || p.y !== path[i-1].y);
+
+// L-shaped link between two grid points, the same shape the router falls back to
+const joinOrthogonal = (a: Point, b: Point): Point[] =>
+  a.x === b.x || a.y === b.y ? [a, b] : [a, { x: b.x, y: a.y }, b];
+
+/**
+ * Copy of an orthogonal path shifted sideways by `distance` cells, every segment
+ * parallel to the original. The side is the one whose start lies nearer `toward`.
+ */
+const offsetPath = (path: Point[], distance: number, toward: Point): Point[] => {
+  const points = dedupe(path);
+  if (points.length < 2) return points;
+  const normal = (a: Point, b: Point) => ({ x: -Math.sign(b.y - a.y), y: Math.sign(b.x - a.x) });
+  const shift = (side: number) => points.map((p, i) => {
+    const nIn = i > 0 ? normal(points[i-1], p) : undefined;
+    const nOut = i < points.length - 1 ? normal(p, points[i+1]) : undefined;
+    // At a corner both normals apply, which keeps the distance to both segments
+    const n = !nIn ? nOut! : !nOut || (nIn.x === nOut.x && nIn.y === nOut.y) ? nIn : { x: nIn.x + nOut.x, y: nIn.y + nOut.y };
+    return { x: p.x + n.x * distance * side, y: p.y + n.y * distance * side };
+  });
+  const left = shift(1);
+  const right = shift(-1);
+  return getManhattanDistance(left[0], toward) <= getManhattanDistance(right[0], toward) ? left : right;
+};
+
+export const SchematicView: React.FC<SchematicViewProps> = ({ data, initialPositions, onLayoutChange, highlights }) => {
   const [scale, setScale] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [positions, setPositions] = useState<Record<string, { x: number, y: number, w: number, h: number }>>({});
   const [dragState, setDragState] = useState<{ id: string | 'pan', startX: number, startY: number, initialX: number, initialY: number } | null>(null);
   const [hoveredComp, setHoveredComp] = useState<string | null>(null);
 
-  // Initialize Component Positions
+  // Initialize Component Positions (parts added later get rows below the existing layout)
   useEffect(() => {
-    if (Object.keys(positions).length > 0) return; 
+    const missing = data.components.filter(comp => !positions[comp.id]);
+    if (missing.length === 0) return;
 
+    const placed: { x: number, y: number, w: number, h: number }[] = Object.values(positions);
     const newPos: Record<string, any> = {};
     let col = 0;
     let row = 0;
     const startX = 60;
-    const startY = 60;
+    const startY = placed.length > 0
+      ? Math.ceil((Math.max(...placed.map(p => p.y + p.h)) + 60) / GRID_SIZE) * GRID_SIZE
+      : 60;
     const colWidth = 320; // Good spacing
     const rowHeight = 350;
 
-    data.components.forEach((comp) => {
+    missing.forEach((comp) => {
+       // Seeded layout (e.g. from an imported Eagle file) takes precedence over the auto grid
+       if (initialPositions?.[comp.id]) {
+           newPos[comp.id] = initialPositions[comp.id];
+           return;
+       }
+
        const leftPins = comp.pins?.filter(p => p.side === 'left' || !p.side) || [];
        const rightPins = comp.pins?.filter(p => p.side === 'right') || [];
        
@@ -171,16 +225,21 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
        if (col > 2) { col = 0; row++; }
     });
 
-    setPositions(newPos);
+    setPositions(prev => ({ ...prev, ...newPos }));
   }, [data.components]);
 
+  const designators = useMemo(() => getDesignators(data.components), [data.components]);
+
   // --- Routing Calculation ---
   const routes: Route[] = useMemo(() => {
     // 1. Build Blocked Grid (Obstacles)
     const blocked = new Set<string>();
     const padding = 2; // Extra padding for good spacing around components
     
-    Object.values(positions).forEach((p: { x: number, y: number, w: number, h: number }) => {
+    // Positions of parts no longer in the design stay in state but must not block wires
+    data.components.forEach(comp => {
+        const p = positions[comp.id];
+        if (!p) return;
         const gx = toGrid(p.x);
         const gy = toGrid(p.y);
         const gw = toGrid(p.w);
@@ -195,10 +254,9 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
 
     const calculatedRoutes: Route[] = [];
 
-    // 2. Route Nets
-    data.nets.forEach(net => {
-        // Collect pin locations
-        const pinPoints: { p: Point, side: string }[] = [];
+    // Collect pin locations of a net
+    const getPinPoints = (net: Net) => {
+        const pinPoints: PinPoint[] = [];
         
         net.connections.forEach(conn => {
             const comp = data.components.find(c => c.id === conn.componentId);
@@ -235,12 +293,24 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
                 side = 'bottom';
             }
 
-            pinPoints.push({ p: { x: toGrid(px), y: toGrid(py) }, side });
+            pinPoints.push({ p: { x: toGrid(px), y: toGrid(py) }, side, componentId: comp.id });
         });
-
-        if (pinPoints.length < 2) return;
-
-        // Chain Routing
+        return pinPoints;
+    };
+
+    // Color Coding based on Net Type
+    const getNetColor = (net: Net) => {
+        let color = '#059669'; // Default Green (Signal)
+        if (net.type === 'power' || net.name.includes('VCC') || net.name.includes('3V3') || net.name.includes('5V')) color = '#dc2626'; // Red
+        if (net.type === 'ground' || net.name.includes('GND')) color = '#1e293b'; // Dark/Black
+        if (net.diffPair) color = '#7c3aed'; // Violet, so both halves read as one pair
+        return color;
+    };
+
+    // Chain Routing; returns the grid path of every segment. `exit` is how many cells
+    // a wire runs straight out of its pin before the router takes over.
+    const routeChain = (pinPoints: PinPoint[], exit = 1): Point[][] => {
+        const paths: Point[][] = [];
         for (let i = 0; i < pinPoints.length - 1; i++) {
             const startNode = pinPoints[i];
             const endNode = pinPoints[i+1];
@@ -248,10 +318,10 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
             // "Pull" start and end points out of the blocked zone so the router can find them
             const getAccessPoint = (pt: Point, side: string) => {
               switch(side) {
-                case 'left': return { x: pt.x - 1, y: pt.y };
-                case 'right': return { x: pt.x + 1, y: pt.y };
-                case 'top': return { x: pt.x, y: pt.y - 1 };
-                case 'bottom': return { x: pt.x, y: pt.y + 1 };
+                case 'left': return { x: pt.x - exit, y: pt.y };
+                case 'right': return { x: pt.x + exit, y: pt.y };
+                case 'top': return { x: pt.x, y: pt.y - exit };
+                case 'bottom': return { x: pt.x, y: pt.y + exit };
                 default: return pt;
               }
             };
@@ -271,20 +341,55 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
             const path = findPathAStar(startAccess, endAccess, blocked, bounds);
             
             // Re-attach the exact pin points to the path
-            const finalPath = [startNode.p, ...path, endNode.p];
-
-            // Color Coding based on Net Type
-            let color = '#059669'; // Default Green (Signal)
-            if (net.type === 'power' || net.name.includes('VCC') || net.name.includes('3V3') || net.name.includes('5V')) color = '#dc2626'; // Red
-            if (net.type === 'ground' || net.name.includes('GND')) color = '#1e293b'; // Dark/Black
+            paths.push([startNode.p, ...path, endNode.p]);
+        }
+        return paths;
+    };
 
+    const addRoutes = (net: Net, paths: Point[][]) => {
+        const color = getNetColor(net);
+        paths.forEach((path, i) => {
             calculatedRoutes.push({ 
-                path: finalPath.map(p => ({ x: toPx(p.x), y: toPx(p.y) })), 
+                path: path.map(p => ({ x: toPx(p.x), y: toPx(p.y) })), 
                 color,
                 id: `${net.id}-${i}`,
                 netName: net.name
             });
+        });
+    };
+
+    // 2. Route Nets
+    const netsById = new Map<string, Net>(data.nets.map(n => [n.id, n]));
+    data.nets.forEach(net => {
+        const partner = net.diffPair && netsById.get(net.diffPair.partnerId);
+        if (partner && net.diffPair!.polarity === 'N') return; // Routed alongside its positive half
+
+        const pinPoints = getPinPoints(net);
+        if (pinPoints.length < 2) {
+            // Nothing to follow: the negative half is routed on its own
+            const partnerPoints = partner ? getPinPoints(partner) : [];
+            if (partnerPoints.length >= 2) addRoutes(partner!, routeChain(partnerPoints));
+            return;
         }
+        // A pair leaves its pins further out so the inner half clears the part at the first bend
+        const paths = routeChain(pinPoints, partner ? PAIR_SPACING + 1 : 1);
+        addRoutes(net, paths);
+        if (!partner) return;
+
+        // The negative half follows the positive one at a fixed spacing. Its pins are put
+        // in the same part order; if the halves do not land on the same parts, route it alone.
+        const partnerPoints = getPinPoints(partner);
+        const ordered = pinPoints.map(pp => partnerPoints.find(q => q.componentId === pp.componentId));
+        if (partnerPoints.length !== pinPoints.length || ordered.some(q => !q) || new Set(ordered).size !== ordered.length) {
+            if (partnerPoints.length >= 2) addRoutes(partner, routeChain(partnerPoints));
+            return;
+        }
+        addRoutes(partner, paths.map((path, i) => {
+            const start = ordered[i]!.p;
+            const end = ordered[i + 1]!.p;
+            const offset = offsetPath(path, PAIR_SPACING, start);
+            return dedupe([...joinOrthogonal(start, offset[0]), ...offset, ...joinOrthogonal(offset[offset.length - 1], end)]);
+        }));
     });
 
     return calculatedRoutes;
@@ -347,6 +452,15 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
       <div className="absolute top-4 left-4 z-20 bg-yellow-50/90 backdrop-blur shadow-sm px-4 py-2 rounded border border-yellow-200 text-xs font-bold text-yellow-900 uppercase tracking-widest flex items-center gap-2">
          <Grid size={14}/> Schematic Editor
       </div>
+
+      {highlights && (
+        <div className="absolute top-16 left-4 z-20 bg-white/90 backdrop-blur shadow-sm px-3 py-2 rounded border border-slate-200 text-[10px] font-bold uppercase tracking-wider flex items-center gap-3">
+          <span className="text-slate-500">Preview</span>
+          <span className="text-green-600">+ Added</span>
+          <span className="text-red-600">− Removed</span>
+          <span className="text-amber-500">~ Changed</span>
+        </div>
+      )}
       
       <div className="absolute bottom-4 left-4 z-20 text-[10px] text-slate-400 font-mono">
          GRID: 20px | SNAP: ON | ROUTING: MANHATTAN
@@ -376,15 +490,18 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
              {routes.map((r, idx) => {
                  let d = `M ${r.path[0].x} ${r.path[0].y}`;
                  for(let i=1; i<r.path.length; i++) d += ` L ${r.path[i].x} ${r.path[i].y}`;
+                 // In a preview, unchanged wires fade so the edit stands out
+                 const mark = highlights?.nets[r.netName];
+                 const color = mark ? DIFF_COLORS[mark] : r.color;
                  return (
-                    <g key={r.id}>
+                    <g key={r.id} opacity={highlights && !mark ? 0.35 : 1}>
                         {/* Shadow/Glow for easier reading */}
                         <path d={d} stroke="white" strokeWidth="4" fill="none" strokeLinejoin="round" /> 
                         {/* Wire */}
-                        <path d={d} stroke={r.color} strokeWidth="1.5" fill="none" strokeLinejoin="round" strokeLinecap="round"/>
+                        <path d={d} stroke={color} strokeWidth={mark ? 2.5 : 1.5} strokeDasharray={mark === 'removed' ? '6 4' : undefined} fill="none" strokeLinejoin="round" strokeLinecap="round"/>
                         {/* Joint Dots */}
-                        <circle cx={r.path[0].x} cy={r.path[0].y} r="2.5" fill={r.color}/>
-                        <circle cx={r.path[r.path.length-1].x} cy={r.path[r.path.length-1].y} r="2.5" fill={r.color}/>
+                        <circle cx={r.path[0].x} cy={r.path[0].y} r="2.5" fill={color}/>
+                        <circle cx={r.path[r.path.length-1].x} cy={r.path[r.path.length-1].y} r="2.5" fill={color}/>
                     </g>
                  )
              })}
@@ -396,6 +513,7 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
                  
                  const isHovered = hoveredComp === comp.id;
                  const isDragging = dragState?.id === comp.id;
+                 const mark = highlights?.components[comp.id];
 
                  return (
                      <g 
@@ -405,10 +523,14 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
                        onMouseEnter={() => setHoveredComp(comp.id)}
                        onMouseLeave={() => setHoveredComp(null)}
                        className={`transition-opacity ${isDragging ? 'opacity-80 cursor-grabbing' : 'cursor-grab'}`}
+                       opacity={mark === 'removed' ? 0.45 : 1}
                      >
                         {/* Selection Glow */}
                         {isHovered && <rect x="-4" y="-4" width={pos.w+8} height={pos.h+8} fill="none" stroke="#3b82f6" strokeWidth="2" strokeDasharray="4" rx="4"/>}
 
+                        {/* Diff Outline */}
+                        {mark && <rect x="-8" y="-8" width={pos.w+16} height={pos.h+16} fill="none" stroke={DIFF_COLORS[mark]} strokeWidth="3" strokeDasharray={mark === 'removed' ? '8 4' : undefined} rx="6"/>}
+
                         {/* Body - PDF Style (Pale Yellow Body, Maroon Outline) */}
                         <rect 
                            width={pos.w} 
@@ -419,6 +541,11 @@ export const SchematicView: React.FC<SchematicViewProps> = ({ data, onLayoutChan
                            rx="0" 
                         />
                         
+                        {/* Reference Designator */}
+                        <text x="0" y="-6" className="font-bold text-xs fill-[#7f1d1d] font-mono pointer-events-none">
+                            {designators[comp.id]}
+                        </text>
+
                         {/* Header Bar Area */}
                         <path d={`M 0 ${HEADER_HEIGHT} L ${pos.w} ${HEADER_HEIGHT}`} stroke="#7f1d1d" strokeWidth="1"/>
                         <text x="10" y="26" className="font-bold text-sm fill-[#451a03] font-mono pointer-events-none tracking-tight">
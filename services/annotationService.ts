@@ -0,0 +1,168 @@
+import { ComponentItem } from '../types';
+import { parseQuantity } from './unitsService';
+
+/**
+ * Reference designator annotation.
+ *
+ * Every part gets a class prefix (R, C, U, J...) from its name, description and
+ * footprint, and a number within that class. Designators are stored on the component
+ * (`ComponentItem.designator`) so they stay put when the netlist or BOM is regenerated;
+ * only parts without one are numbered. Re-annotation by sheet position renumbers all.
+ */
+
+export type DesignatorPrefix = 'R' | 'C' | 'L' | 'D' | 'Q' | 'U' | 'J' | 'Y' | 'F' | 'SW' | 'TP';
+
+// A text is classed by its head noun, the match that ends last ("LED current limiting
+// resistor" is R, "LED driver" is U); on a tie the earlier entry wins
+const CLASS_PATTERNS: [DesignatorPrefix, RegExp][] = [
+  ['U', /\b(IC|MCU|microcontroller|SoC|regulator|LDO|converter|driver|controller|transceiver|sensor|amplifier|op-?amp|comparator|ADC|DAC|codec|module|memory|EEPROM|flash|logic|buffer|multiplexer|shifter|charger|timer)\b/i],
+  ['TP', /\btest[- ]?point\b|^TP\d*$/i],
+  ['SW', /\b(switch(es)?|buttons?|push-?buttons?|tactile|DIP[- ]switch|slide switch)\b/i],
+  ['J', /\b(connectors?|headers?|jacks?|sockets?|receptacles?|terminal( blocks?)?|plugs?|barrel)\b/i],
+  ['Y', /\b(crystals?|oscillators?|resonators?|XTAL)\b/i],
+  ['F', /\b(fuses?|poly-?fuses?|PTC)\b/i],
+  ['D', /\b(diodes?|LEDs?|TVS|zener|schottky|rectifiers?|ESD protection)\b/i],
+  ['Q', /\b(transistors?|MOSFETs?|BJT|JFET|IGBT|N-?channel|P-?channel|NPN|PNP)\b/i],
+  ['L', /\b(inductors?|ferrite|beads?|chokes?)\b/i],
+  ['C', /\b(capacitors?|caps?|electrolytic|tantalum|MLCC)\b/i],
+  ['R', /\b(resistors?|potentiometers?|trimmers?|thermistors?|NTC|pull-?(ups?|downs?))\b|\d\s*(Ω|ohm)/i]
+];
+
+// Common discrete part numbers that carry no description words
+const PART_NUMBER_PATTERNS: [DesignatorPrefix, RegExp][] = [
+  ['Q', /^(2N\d{4}|BSS\d{2,3}|BC\d{3}|IRL?[FZBML]?\d{3,4}|AO\d{4}|SI\d{4}|MMBT|DMG\d|FDN\d|FQP\d)/i],
+  ['D', /^(1N\d{4}|BAT\d{2}|BAV\d{2}|SS\d{2}|SMBJ|SMAJ|P6KE|BZX|MBR\d|B5819|PESD|USBLC|TPD\dE)/i]
+];
+
+// KiCad-style footprint names ("R_0603_1608Metric", "LED_SMD:LED_0805")
+const FOOTPRINT_PATTERNS: [DesignatorPrefix, RegExp][] = [
+  ['R', /(^|:)R_/],
+  ['C', /(^|:)(C|CP)_/],
+  ['L', /(^|:)L_/],
+  ['D', /(^|:)(D|LED)_/],
+  ['Y', /(^|:)Crystal/i],
+  ['J', /(^|:)(Conn|PinHeader|PinSocket|USB_|BarrelJack|TerminalBlock)/i],
+  ['TP', /(^|:)TestPoint/i],
+  ['SW', /(^|:)SW_/]
+];
+
+// "Decoupling capacitor for MCU": the noun before a qualifier names the part
+const QUALIFIER = /\s(?:for|with|on|to|from|at|near|between)\s/i;
+
+const lastMatchEnd = (pattern: RegExp, text: string): number =>
+  Math.max(-1, ...Array.from(text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`)), m => m.index! + m[0].length));
+
+const classifyText = (text: string): DesignatorPrefix | undefined => {
+  for (const phrase of [text.split(QUALIFIER)[0], text]) {
+    const [prefix] = CLASS_PATTERNS.reduce<[DesignatorPrefix | undefined, number]>((best, [candidate, pattern]) => {
+      const matchEnd = lastMatchEnd(pattern, phrase);
+      return matchEnd > best[1] ? [candidate, matchEnd] : best;
+    }, [undefined, -1]);
+    if (prefix) return prefix;
+  }
+  return undefined;
+};
+
+const VALUE_UNIT_PREFIXES: Record<string, DesignatorPrefix> = { 'Ω': 'R', F: 'C', H: 'L' };
+
+// A resistance without its unit: an SI prefix or RKM marker on a number ("10k", "4k7", "1M", "1R5")
+const BARE_RESISTANCE = /^\d+(?:[.,]\d+)?\s*(?:meg|[kKMR])\d*$/;
+
+/**
+ * Designator class of a part. Falls back to U when nothing identifies it.
+ */
+export const classifyComponent = (comp: ComponentItem): DesignatorPrefix => {
+  // A value as the name ("10kΩ", "100nF", "4.7uH")
+  const value = parseQuantity(comp.name);
+  if (value && VALUE_UNIT_PREFIXES[value.unit]) return VALUE_UNIT_PREFIXES[value.unit];
+  if (BARE_RESISTANCE.test(comp.name.trim()) && parseQuantity(comp.name, 'Ω')) return 'R';
+
+  const byPartNumber = PART_NUMBER_PATTERNS.find(([, pattern]) => pattern.test(comp.name.trim()));
+  if (byPartNumber) return byPartNumber[0];
+
+  for (const text of [comp.name, comp.description || '']) {
+    const match = classifyText(text);
+    if (match) return match;
+  }
+  const byFootprint = FOOTPRINT_PATTERNS.find(([, pattern]) => pattern.test(comp.footprintType || ''));
+  return byFootprint ? byFootprint[0] : 'U';
+};
+
+const DESIGNATOR_PATTERN = /^([A-Z]+)(\d+)$/;
+
+/**
+ * Fills in designators for parts without a valid, unique one, using the lowest free
+ * number of their class. Existing designators are kept; parts carried over from
+ * `previous` (same id, else same name) keep the designator they had there.
+ */
+export const annotateComponents = (components: ComponentItem[], previous: ComponentItem[] = []): ComponentItem[] => {
+  const used = new Set<string>();
+  const claimed = new Set<ComponentItem>();
+  const carried = components.map(comp => {
+    if (comp.designator) return comp.designator;
+    const before = previous.find(p => p.id === comp.id && !claimed.has(p))
+      || previous.find(p => p.name === comp.name && !claimed.has(p) && !components.some(c => c.id === p.id));
+    if (before) claimed.add(before);
+    return before?.designator;
+  });
+
+  const kept = carried.map(designator => {
+    if (!designator || !DESIGNATOR_PATTERN.test(designator) || used.has(designator)) return undefined;
+    used.add(designator);
+    return designator;
+  });
+
+  return components.map((comp, i) => {
+    let designator = kept[i];
+    if (!designator) {
+      const prefix = classifyComponent(comp);
+      let n = 1;
+      while (used.has(`${prefix}${n}`)) n++;
+      designator = `${prefix}${n}`;
+      used.add(designator);
+    }
+    return designator === comp.designator ? comp : { ...comp, designator };
+  });
+};
+
+// Parts whose tops lie within one band count as one row
+const ROW_BAND = 100;
+
+/**
+ * Renumbers every part per class by sheet position: rows top to bottom, each row left
+ * to right. Parts without a position follow in list order.
+ */
+export const reannotateByPosition = (
+  components: ComponentItem[],
+  positions: Record<string, { x: number, y: number }>
+): ComponentItem[] => {
+  const order = components
+    .map((comp, index) => ({ comp, index, pos: positions[comp.id] }))
+    .sort((a, b) => {
+      if (!a.pos || !b.pos) return a.pos ? -1 : b.pos ? 1 : a.index - b.index;
+      const row = Math.floor(a.pos.y / ROW_BAND) - Math.floor(b.pos.y / ROW_BAND);
+      return row || a.pos.x - b.pos.x || a.index - b.index;
+    });
+
+  const counters: Partial<Record<DesignatorPrefix, number>> = {};
+  const designators = new Map<string, string>();
+  order.forEach(({ comp }) => {
+    const prefix = classifyComponent(comp);
+    counters[prefix] = (counters[prefix] || 0) + 1;
+    designators.set(comp.id, `${prefix}${counters[prefix]}`);
+  });
+  return components.map(comp => ({ ...comp, designator: designators.get(comp.id) }));
+};
+
+/**
+ * Designator of every part, keyed by component id. Parts not yet annotated are
+ * numbered as `annotateComponents` would, so every exporter agrees on the names.
+ */
+export const getDesignators = (components: ComponentItem[]): Record<string, string> => {
+  const refs: Record<string, string> = {};
+  annotateComponents(components).forEach(comp => { refs[comp.id] = comp.designator!; });
+  return refs;
+};
+
+/** Class prefix of a designator, e.g. "SW" for "SW2". */
+export const designatorPrefix = (designator: string) => DESIGNATOR_PATTERN.exec(designator)?.[1] ?? 'U';
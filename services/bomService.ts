@@ -0,0 +1,163 @@
+import { BomOptions, ComponentItem } from '../types';
+import { getDesignators } from './annotationService';
+
+/**
+ * One BOM line = one group of identical parts.
+ * Parts are identical when name, manufacturer, footprint, package, DNP state and all
+ * extra field values match.
+ */
+export interface BomLine {
+  designators: string[];
+  quantity: number;
+  name: string;
+  manufacturer: string;
+  footprintType: string;
+  packageType: string;
+  datasheetUrl: string;
+  dnp?: boolean;
+  extra: Record<string, string>;
+}
+
+export interface BomDocument {
+  $schema: string;
+  format: 'autoschematic-bom';
+  version: 1;
+  project: string;
+  generatedAt: string;
+  totalQuantity: number;
+  lines: BomLine[];
+}
+
+/**
+ * JSON Schema (draft-07) describing the BOM JSON export.
+ * Kept alongside the writer so the documented format and the output cannot drift apart.
+ */
+export const BOM_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://autoschematic.ai/schemas/bom-v1.json',
+  title: 'AutoSchematic Manufacturing BOM',
+  type: 'object',
+  required: ['format', 'version', 'project', 'generatedAt', 'totalQuantity', 'lines'],
+  properties: {
+    format: { const: 'autoschematic-bom' },
+    version: { const: 1 },
+    project: { type: 'string', description: 'Project name' },
+    generatedAt: { type: 'string', format: 'date-time' },
+    totalQuantity: { type: 'integer', minimum: 0, description: 'Sum of all line quantities' },
+    lines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['designators', 'quantity', 'name', 'manufacturer', 'footprintType', 'packageType', 'datasheetUrl', 'extra'],
+        properties: {
+          designators: { type: 'array', items: { type: 'string' }, description: 'Reference designators, naturally sorted' },
+          quantity: { type: 'integer', minimum: 1 },
+          name: { type: 'string' },
+          manufacturer: { type: 'string' },
+          footprintType: { type: 'string' },
+          packageType: { type: 'string', description: 'physicalSpecs.packageType' },
+          datasheetUrl: { type: 'string', description: 'Web URL; empty for uploaded PDFs' },
+          dnp: { type: 'boolean', description: 'Present only when the DNP column is enabled' },
+          extra: { type: 'object', additionalProperties: { type: 'string' }, description: 'User-defined fields keyed by BomExtraField.key' }
+        }
+      }
+    }
+  }
+} as const;
+
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Groups components into BOM lines with quantities.
+ * Designators are the same as in the exports (see annotationService).
+ */
+export const buildBomLines = (components: ComponentItem[], options: BomOptions = {}): BomLine[] => {
+  const extraFields = options.extraFields || [];
+  const groups = new Map<string, BomLine>();
+  const refs = getDesignators(components);
+
+  components.forEach(comp => {
+    const extra: Record<string, string> = {};
+    extraFields.forEach(field => {
+      extra[field.key] = field.values[comp.id] ?? field.defaultValue ?? '';
+    });
+
+    const line: BomLine = {
+      designators: [refs[comp.id]],
+      quantity: 1,
+      name: comp.name,
+      manufacturer: comp.manufacturer || '',
+      footprintType: comp.footprintType || '',
+      packageType: comp.physicalSpecs?.packageType || '',
+      // Uploaded PDFs are stored as data URIs, which are useless to purchasing
+      datasheetUrl: comp.datasheetUrl?.startsWith('data:') ? '' : (comp.datasheetUrl || ''),
+      extra
+    };
+    if (options.includeDnp) line.dnp = !!comp.dnp;
+
+    const key = JSON.stringify([line.name, line.manufacturer, line.footprintType, line.packageType, line.dnp, extra]);
+    const existing = groups.get(key);
+    if (existing) {
+      existing.designators.push(...line.designators);
+      existing.quantity++;
+      if (!existing.datasheetUrl) existing.datasheetUrl = line.datasheetUrl;
+    } else {
+      groups.set(key, line);
+    }
+  });
+
+  const lines = Array.from(groups.values());
+  lines.forEach(l => l.designators.sort(naturalCompare));
+  return lines.sort((a, b) => naturalCompare(a.designators[0], b.designators[0]));
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Generates a manufacturing BOM as RFC 4180 CSV.
+ */
+export const generateBomCsv = (components: ComponentItem[], options: BomOptions = {}): string => {
+  const lines = buildBomLines(components, options);
+  const extraFields = options.extraFields || [];
+
+  const header = ['Designators', 'Quantity', 'Name', 'Manufacturer', 'Footprint', 'Package', 'Datasheet'];
+  if (options.includeDnp) header.push('DNP');
+  extraFields.forEach(f => header.push(f.label));
+
+  const rows = lines.map(line => {
+    const row: (string | number)[] = [
+      line.designators.join(' '),
+      line.quantity,
+      line.name,
+      line.manufacturer,
+      line.footprintType,
+      line.packageType,
+      line.datasheetUrl
+    ];
+    if (options.includeDnp) row.push(line.dnp ? 'DNP' : '');
+    extraFields.forEach(f => row.push(line.extra[f.key]));
+    return row.map(csvCell).join(',');
+  });
+
+  return [header.map(csvCell).join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * Generates a manufacturing BOM as JSON following BOM_JSON_SCHEMA.
+ */
+export const generateBomJson = (components: ComponentItem[], projectName: string, options: BomOptions = {}): string => {
+  const lines = buildBomLines(components, options);
+  const doc: BomDocument = {
+    $schema: BOM_JSON_SCHEMA.$id,
+    format: 'autoschematic-bom',
+    version: 1,
+    project: projectName,
+    generatedAt: new Date().toISOString(),
+    totalQuantity: lines.reduce((sum, l) => sum + l.quantity, 0),
+    lines
+  };
+  return JSON.stringify(doc, null, 2);
+};
@@ -0,0 +1,109 @@
+import { PinDefinition, PhysicalSpecs } from '../types';
+
+/**
+ * Local knowledge cache for component data, stored in IndexedDB.
+ *
+ * Results of datasheet search and PDF analysis are keyed by a normalised part
+ * number and package, so well-known parts are not re-extracted (with a different
+ * pinout each time) for every project. Entries expire after CACHE_TTL_MS.
+ * IndexedDB failures never break the pipeline: reads miss and writes are dropped.
+ */
+
+export const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'autoschematic';
+const DB_VERSION = 1;
+const STORE = 'components';
+
+export interface CachedComponentData {
+  pins: PinDefinition[];
+  description?: string;
+  datasheetUrl?: string;
+  physicalSpecs?: PhysicalSpecs;
+  isolationRules?: string[];
+  analysisReport?: string;
+}
+
+export interface ComponentCacheEntry {
+  key: string;
+  partNumber: string;
+  packageType: string;
+  source: 'search' | 'datasheet';
+  storedAt: number;
+  data: CachedComponentData;
+}
+
+// "esp32 wroom-32" and "ESP32-WROOM-32" are the same part
+const normalize = (text: string | undefined) => (text || '').toUpperCase().replace(/[^A-Z0-9.]/g, '');
+
+/**
+ * Cache key for a part. The package is the BOM footprint type (the only package
+ * information known before the search); parts without one share a wildcard entry.
+ */
+export const getCacheKey = (partNumber: string, packageType?: string) =>
+  `${normalize(partNumber)}|${normalize(packageType) || '*'}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null; // Allow a retry, e.g. after the user closes another tab blocking an upgrade
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Returns the cached entry for a part, or undefined on a miss or an expired entry.
+ */
+export const getCachedComponent = async (partNumber: string, packageType?: string, ttlMs = CACHE_TTL_MS): Promise<ComponentCacheEntry | undefined> => {
+  try {
+    const entry = await run<ComponentCacheEntry | undefined>('readonly', store => store.get(getCacheKey(partNumber, packageType)));
+    if (!entry || Date.now() - entry.storedAt > ttlMs) return undefined;
+    return entry;
+  } catch (error) {
+    console.error("Component cache read failed", error);
+    return undefined;
+  }
+};
+
+export const putCachedComponent = async (
+  partNumber: string,
+  packageType: string | undefined,
+  source: ComponentCacheEntry['source'],
+  data: CachedComponentData
+): Promise<void> => {
+  if (data.pins.length === 0) return;
+  const entry: ComponentCacheEntry = {
+    key: getCacheKey(partNumber, packageType),
+    partNumber,
+    packageType: packageType || '',
+    source,
+    storedAt: Date.now(),
+    // Uploaded PDFs are data URIs and would bloat the cache
+    data: { ...data, datasheetUrl: data.datasheetUrl?.startsWith('data:') ? undefined : data.datasheetUrl }
+  };
+  try {
+    await run('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error("Component cache write failed", error);
+  }
+};
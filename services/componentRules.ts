@@ -0,0 +1,32 @@
+import { ComponentItem, PinDefinition } from '../types';
+import { classifyComponent } from './annotationService';
+
+/**
+ * Pin and part predicates shared by the rule engines.
+ *
+ * ERC, voltage domains, the power budget and rule wiring must agree on what a
+ * regulator, a connector or an open-drain pin is, so each predicate is defined once here.
+ */
+
+// Resolves a NetConnection pin reference: a pin number, or else a pin name as the models often answer
+export const findPin = (comp: ComponentItem | undefined, pin: string | number) =>
+  comp?.pins?.find(p => String(p.pinNumber) === String(pin)) || comp?.pins?.find(p => p.name === String(pin));
+
+export const isOpenDrain = (pin: PinDefinition) =>
+  /open[- ]?(drain|collector)/i.test(`${pin.electrical?.signalType || ''} ${pin.electrical?.behavior || ''}`);
+
+export const isRegulatorInput = (pin: PinDefinition) => /^(VIN|IN|VI)$/i.test(pin.name);
+// OUT-style names only: a rail name such as "3V3" is also the supply pin of an MCU with a VIN pin
+export const isRegulatorOutput = (pin: PinDefinition) => /^(VOUT|OUT|VO)\d*$/i.test(pin.name);
+
+export const isRegulator = (comp: ComponentItem) =>
+  (comp.pins || []).some(isRegulatorInput) && (comp.pins || []).some(isRegulatorOutput);
+
+// Connectors only: a USB interface IC such as a CP2102 is a load, not a power input
+export const isConnector = (comp: ComponentItem) => classifyComponent(comp) === 'J';
+
+export const isResistor = (comp: ComponentItem) => classifyComponent(comp) === 'R';
+
+// Resistors, capacitors, inductors, beads and fuses, or any part with passive pins only
+export const isPassive = (comp: ComponentItem) =>
+  ['R', 'C', 'L', 'F'].includes(classifyComponent(comp)) || (comp.pins || []).every(p => p.type === 'Passive');
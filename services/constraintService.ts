@@ -0,0 +1,222 @@
+import { ComponentItem, Net, PinDefinition, SchematicData } from '../types';
+import { findPin } from './componentRules';
+import { analyzeVoltageDomains, isGroundNet } from './voltageDomainService';
+
+/**
+ * Net classes and isolation constraints.
+ *
+ * `ComponentItem.isolationRules` is datasheet prose ("Keep separate from Analog GND",
+ * "Creepage > 2mm"). It is parsed here into structured constraints that are checked
+ * against the netlist, while nets are sorted into classes (AGND, DGND, HV...) whose
+ * clearances are exported to layout tools. Rules that cannot be parsed stay prose.
+ */
+
+export type NetClassName = 'default' | 'DGND' | 'AGND' | 'PGND' | 'ANALOG' | 'HV' | 'DIFF';
+
+export interface NetClass {
+  name: NetClassName;
+  description: string;
+  widthMm: number;     // Minimum trace width
+  clearanceMm: number; // Minimum clearance to other classes
+}
+
+export const NET_CLASSES: NetClass[] = [
+  { name: 'default', description: 'Signals and supplies', widthMm: 0.2, clearanceMm: 0.2 },
+  { name: 'DGND', description: 'Digital ground', widthMm: 0.4, clearanceMm: 0.2 },
+  { name: 'AGND', description: 'Analog ground', widthMm: 0.4, clearanceMm: 0.2 },
+  { name: 'PGND', description: 'Power ground', widthMm: 0.6, clearanceMm: 0.2 },
+  { name: 'ANALOG', description: 'Analog signals and references', widthMm: 0.2, clearanceMm: 0.3 },
+  { name: 'HV', description: 'High voltage (50V and above)', widthMm: 0.5, clearanceMm: 2.5 },
+  { name: 'DIFF', description: 'Differential pairs', widthMm: 0.2, clearanceMm: 0.3 }
+];
+
+export const HV_THRESHOLD_V = 50;
+
+export type IsolationConstraintKind = 'must-not-share-net' | 'single-tie-point' | 'min-creepage';
+
+export interface IsolationConstraint {
+  kind: IsolationConstraintKind;
+  componentId: string;
+  classes: NetClassName[];
+  minCreepageMm?: number;
+  source: string; // The prose rule it came from
+}
+
+export interface IsolationViolation {
+  message: string;
+  netId?: string;
+  componentId?: string;
+  pin?: string;
+}
+
+// Ground pins whose name names a specific ground ("AGND", "PGND"); plain GND pins fit any ground
+const pinGroundClass = (pin: PinDefinition): NetClassName | undefined => {
+  if (/AGND|GNDA|AVSS/i.test(pin.name)) return 'AGND';
+  if (/PGND|GNDP/i.test(pin.name)) return 'PGND';
+  if (/DGND|GNDD|DVSS/i.test(pin.name)) return 'DGND';
+  return undefined;
+};
+
+const nameClass = (name: string): NetClassName | undefined => {
+  if (/AGND|GNDA|AVSS/i.test(name)) return 'AGND';
+  if (/PGND|GNDP/i.test(name)) return 'PGND';
+  if (/DGND|GNDD|DVSS/i.test(name)) return 'DGND';
+  if (/\bHV\b|HV_|MAINS|^AC_?[LN]$|(?<![A-Z])LINE(?![A-Z])|NEUTRAL/i.test(name)) return 'HV'; // not ONLINE_LED
+  if (/^A(IN|DC)\d*|ADC|VREF|AVDD|AVCC|ANALOG/i.test(name)) return 'ANALOG';
+  return undefined;
+};
+
+/**
+ * Class of every net, keyed by net id. Plain ground nets are digital ground, rails
+ * of HV_THRESHOLD_V or more are HV whatever their name, and both halves of a
+ * differential pair are DIFF.
+ */
+export const assignNetClasses = (data: SchematicData): Record<string, NetClassName> => {
+  const railVoltages = new Map(analyzeVoltageDomains(data).rails.map(r => [r.netId, r.voltage]));
+  const classes: Record<string, NetClassName> = {};
+  data.nets.forEach(net => {
+    const voltage = railVoltages.get(net.id);
+    classes[net.id] = voltage !== undefined && Math.abs(voltage) >= HV_THRESHOLD_V
+      ? 'HV'
+      : net.diffPair ? 'DIFF' : nameClass(net.name) || (isGroundNet(net) ? 'DGND' : 'default');
+  });
+  return classes;
+};
+
+const mentionedClasses = (text: string): NetClassName[] => {
+  const found: NetClassName[] = [];
+  if (/analog\s*(gnd|ground)|\bAGND\b/i.test(text)) found.push('AGND');
+  if (/digital\s*(gnd|ground)|\bDGND\b/i.test(text)) found.push('DGND');
+  if (/power\s*(gnd|ground)|\bPGND\b/i.test(text)) found.push('PGND');
+  if (/high[- ]?voltage|\bHV\b|mains|AC line/i.test(text)) found.push('HV');
+  if (/analog\s+(signal|input|trace|section|circuit)s?/i.test(text)) found.push('ANALOG');
+  return found;
+};
+
+/**
+ * Structured constraints for one component. Rules without a recognised kind or
+ * net class produce none and stay advisory prose.
+ */
+export const parseIsolationRules = (comp: ComponentItem): IsolationConstraint[] =>
+  (comp.isolationRules || []).flatMap(rule => parseIsolationRule(comp, rule));
+
+const parseIsolationRule = (comp: ComponentItem, rule: string): IsolationConstraint[] => {
+  const classes = mentionedClasses(rule);
+  const base = { componentId: comp.id, source: rule };
+
+  const creepage = /(creepage|clearance|spacing)[^0-9]*(\d+(?:\.\d+)?)\s*mm/i.exec(rule);
+  if (creepage) {
+    return [{ ...base, kind: 'min-creepage', classes: classes.length ? classes : ['HV'], minCreepageMm: parseFloat(creepage[2]) }];
+  }
+  if (/single[- ]point|star[- ]ground|one point|tie[- ]point|net[- ]tie|joined at a single/i.test(rule)) {
+    const grounds = classes.filter(c => c !== 'HV' && c !== 'ANALOG');
+    const pair: NetClassName[] = grounds.length >= 2 ? grounds.slice(0, 2) : Array.from(new Set<NetClassName>([...grounds, 'AGND', 'DGND'])).slice(0, 2);
+    return [{ ...base, kind: 'single-tie-point', classes: pair }];
+  }
+  if (classes.length > 0 && /separat|isolat|keep (away|apart)|do not (connect|share|mix)|must not share|away from|avoid/i.test(rule)) {
+    return [{ ...base, kind: 'must-not-share-net', classes }];
+  }
+  return [];
+};
+
+
+/**
+ * Clearance per class for export: the class default, raised to the largest
+ * creepage any part demands for that class.
+ */
+export const getClassClearances = (data: SchematicData): Record<NetClassName, number> => {
+  const clearances = Object.fromEntries(NET_CLASSES.map(c => [c.name, c.clearanceMm])) as Record<NetClassName, number>;
+  data.components.flatMap(parseIsolationRules).forEach(constraint => {
+    if (constraint.kind !== 'min-creepage') return;
+    constraint.classes.forEach(cls => { clearances[cls] = Math.max(clearances[cls], constraint.minCreepageMm!); });
+  });
+  return clearances;
+};
+
+export const checkIsolation = (data: SchematicData): IsolationViolation[] => {
+  const byId = new Map(data.components.map(c => [c.id, c]));
+  const netClasses = assignNetClasses(data);
+  const violations: IsolationViolation[] = [];
+
+  const resolved = (net: Net) => net.connections
+    .map(c => ({ comp: byId.get(c.componentId), pin: findPin(byId.get(c.componentId), c.pin) }))
+    .filter((p): p is { comp: ComponentItem; pin: PinDefinition } => !!p.comp && !!p.pin);
+
+  const constraints = data.components.flatMap(parseIsolationRules);
+  const isGroundClass = (cls: NetClassName) => cls === 'AGND' || cls === 'DGND' || cls === 'PGND';
+
+  // Specific ground pins must land on a ground net of the same kind. A single-plane
+  // design legitimately puts AGND pins on GND, so this only applies once the design
+  // splits its grounds or a part asks for that ground to be kept apart.
+  const splitGrounds = new Set(data.nets.map(n => netClasses[n.id]).filter(isGroundClass)).size > 1;
+  data.nets.forEach(net => {
+    const netClass = netClasses[net.id];
+    if (!isGroundClass(netClass)) return;
+    resolved(net).forEach(({ comp, pin }) => {
+      const pinClass = pinGroundClass(pin);
+      if (!pinClass || pinClass === netClass) return;
+      if (splitGrounds || constraints.some(c => c.kind !== 'min-creepage' && c.classes.includes(pinClass))) {
+        violations.push({ message: `${comp.name} ${pin.name} (${pinClass}) is wired straight into ${netClass} net ${net.name}; join grounds only through a tie point`, netId: net.id, componentId: comp.id, pin: String(pin.pinNumber) });
+      }
+    });
+  });
+
+  const ownNetIds = (comp: ComponentItem) => data.nets.filter(n => n.connections.some(c => c.componentId === comp.id)).map(n => n.id);
+  const seenTies = new Set<string>();
+
+  constraints.forEach(constraint => {
+    const comp = byId.get(constraint.componentId)!;
+    const ownNets = data.nets.filter(net => net.connections.some(c => c.componentId === comp.id));
+
+    if (constraint.kind === 'must-not-share-net') {
+      ownNets.filter(net => constraint.classes.includes(netClasses[net.id])).forEach(net => {
+        // On a ground net, a pin breaches the rule when it names another ground, or is a
+        // plain GND pin and the rule names that ground alone ("Keep separate from Analog
+        // GND"). The part's own AGND pin on AGND, or its GND pin on the common DGND under
+        // "Keep AGND separate from DGND", is what the rule asks for.
+        const netClass = netClasses[net.id];
+        const offending = resolved(net).filter(({ comp: owner, pin }) => {
+          if (owner !== comp) return false;
+          if (!isGroundClass(netClass)) return true;
+          const pinClass = pinGroundClass(pin);
+          return pinClass ? pinClass !== netClass : constraint.classes.filter(isGroundClass).length === 1;
+        });
+        offending.forEach(({ pin }) => {
+          violations.push({ message: `${comp.name} ${pin.name} is on ${netClass} net ${net.name} despite "${constraint.source}"`, netId: net.id, componentId: comp.id, pin: String(pin.pinNumber) });
+        });
+      });
+    }
+
+    if (constraint.kind === 'single-tie-point') {
+      const [a, b] = constraint.classes;
+      const key = [a, b].sort().join('|');
+      if (seenTies.has(key)) return;
+      seenTies.add(key);
+      const netsOf = (cls: NetClassName) => new Set(data.nets.filter(n => netClasses[n.id] === cls).map(n => n.id));
+      const aNets = netsOf(a);
+      const bNets = netsOf(b);
+      if (aNets.size === 0 || bNets.size === 0) return;
+
+      // Tie parts: a net tie, 0R or bead with one pin on each ground
+      const ties = data.components.filter(c => {
+        if ((c.pins || []).length !== 2) return false;
+        const sides = ownNetIds(c);
+        return sides.some(id => aNets.has(id)) && sides.some(id => bNets.has(id));
+      });
+      if (ties.length !== 1) {
+        violations.push({
+          message: ties.length === 0
+            ? `${a} and ${b} have no tie point ("${constraint.source}", ${comp.name}); add a net tie or 0R between them`
+            : `${a} and ${b} are joined at ${ties.length} points (${ties.map(t => t.name).join(', ')}); "${constraint.source}" (${comp.name}) asks for one`,
+          componentId: comp.id
+        });
+      }
+    }
+
+    if (constraint.kind === 'min-creepage' && !ownNets.some(net => constraint.classes.includes(netClasses[net.id]))) {
+      violations.push({ message: `${comp.name}: "${constraint.source}" applies to ${constraint.classes.join('/')} nets, but none of its nets is in that class, so the clearance will not reach layout`, componentId: comp.id });
+    }
+  });
+
+  return violations;
+};
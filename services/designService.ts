@@ -0,0 +1,158 @@
+import { ComponentItem, Net, NetConnection, SchematicData, DesignDiff, DiffConnection } from '../types';
+import { pairDifferentialNets } from './diffPairService';
+import { validateNets } from './validationService';
+
+/**
+ * Pure edit operations on a design. They never call the AI; callers validate the
+ * result (validateNets) when connections come from a model.
+ */
+
+/**
+ * Removes a component together with every connection to it.
+ * Nets left without connections are dropped.
+ */
+export const removeComponent = (data: SchematicData, componentId: string): SchematicData => {
+  const components = data.components.filter(c => c.id !== componentId);
+  const nets = data.nets
+    .map(net => ({ ...net, connections: net.connections.filter(c => c.componentId !== componentId) }))
+    .filter(net => net.connections.length > 0);
+  return { components, nets: pairDifferentialNets(nets, components) };
+};
+
+/**
+ * Merges nets by name: connections of an addition with an existing name join that
+ * net, other additions are appended. Existing nets keep their ids and order.
+ */
+export const mergeNets = (existing: Net[], additions: Net[]): Net[] => {
+  const merged = existing.map(net => ({ ...net, connections: [...net.connections] }));
+  additions.forEach(addition => {
+    const target = merged.find(net => net.name === addition.name);
+    if (!target) {
+      merged.push({ ...addition, connections: [...addition.connections] });
+      return;
+    }
+    addition.connections.forEach(c => {
+      if (!target.connections.some(x => x.componentId === c.componentId && String(x.pin) === String(c.pin))) {
+        target.connections.push(c);
+      }
+    });
+    if (!target.type && addition.type) target.type = addition.type;
+  });
+  return merged;
+};
+
+/**
+ * Takes the wiring of newly added parts from an extended netlist onto the design as it
+ * is now: every net that contains one of the parts, with all of its connections, so a new
+ * net also keeps the pins of the existing parts it reaches. The result is validated
+ * against the current components, which drops pins of parts removed in the meantime and
+ * keeps net ids unique.
+ */
+export const mergeAddedWiring = (current: SchematicData, extended: Net[], componentIds: string[]): { nets: Net[]; wiring: Net[]; errors: string[] } => {
+  const added = new Set(componentIds);
+  const wiring = extended.filter(net => net.connections.some(c => added.has(c.componentId)));
+  const merged = validateNets({ nets: mergeNets(current.nets, wiring) }, current.components);
+  return { nets: pairDifferentialNets(merged.value, current.components), wiring, errors: merged.errors };
+};
+
+/**
+ * Component id for a part added after the BOM, following the BOM id scheme and
+ * skipping ids already in use.
+ */
+export const createComponentId = (components: ComponentItem[], name: string): string => {
+  const base = name.replace(/[^a-zA-Z0-9_-]/g, '_');
+  let index = components.length;
+  while (components.some(c => c.id === `comp_${index}_${base}`)) index++;
+  return `comp_${index}_${base}`;
+};
+
+/**
+ * Edit proposed by the design assistant. Connections here only involve parts
+ * already in the design; parts in `addComponents` are wired up after their pinouts
+ * are known, following `wiringInstructions`.
+ */
+export interface DesignEditPlan {
+  summary: string;
+  removeComponentIds: string[];
+  addComponents: { name: string; description: string; footprintType: string }[];
+  disconnect: NetConnection[];
+  connect: Net[];
+  wiringInstructions: string;
+}
+
+/**
+ * Applies the removals, disconnections and connections of a plan. The result goes
+ * through validateNets so nets the plan creates get ids of their own.
+ */
+export const applyEditPlan = (data: SchematicData, plan: DesignEditPlan): SchematicData => {
+  let next = plan.removeComponentIds.reduce(removeComponent, data);
+
+  const detached = new Set(plan.disconnect.map(c => `${c.componentId}:${c.pin}`));
+  next = {
+    components: next.components,
+    nets: next.nets
+      .map(net => ({ ...net, connections: net.connections.filter(c => !detached.has(`${c.componentId}:${c.pin}`)) }))
+      .filter(net => net.connections.length > 0)
+  };
+
+  const merged = validateNets({ nets: mergeNets(next.nets, plan.connect) }, next.components);
+  return { components: next.components, nets: pairDifferentialNets(merged.value, next.components) };
+};
+
+const connectionSet = (nets: Net[]) => {
+  const set = new Map<string, DiffConnection>();
+  nets.forEach(net => net.connections.forEach(c => {
+    const conn = { net: net.name, componentId: c.componentId, pin: String(c.pin) };
+    set.set(`${conn.net}|${conn.componentId}|${conn.pin}`, conn);
+  }));
+  return set;
+};
+
+export const diffDesigns = (before: SchematicData, after: SchematicData): DesignDiff => {
+  const beforeIds = new Set(before.components.map(c => c.id));
+  const afterIds = new Set(after.components.map(c => c.id));
+  const beforeConns = connectionSet(before.nets);
+  const afterConns = connectionSet(after.nets);
+
+  return {
+    addedComponents: after.components.filter(c => !beforeIds.has(c.id)).map(c => ({ id: c.id, name: c.name })),
+    removedComponents: before.components.filter(c => !afterIds.has(c.id)).map(c => ({ id: c.id, name: c.name })),
+    addedConnections: Array.from(afterConns).filter(([key]) => !beforeConns.has(key)).map(([, c]) => c),
+    removedConnections: Array.from(beforeConns).filter(([key]) => !afterConns.has(key)).map(([, c]) => c)
+  };
+};
+
+export const isEmptyDiff = (diff: DesignDiff) =>
+  diff.addedComponents.length + diff.removedComponents.length + diff.addedConnections.length + diff.removedConnections.length === 0;
+
+export type DiffMark = 'added' | 'removed' | 'changed';
+
+export interface DiffHighlights {
+  components: Record<string, DiffMark>;
+  nets: Record<string, DiffMark>;
+}
+
+/**
+ * Union of both versions for previewing a diff: removed parts and connections
+ * stay visible so they can be drawn struck out next to the additions.
+ */
+export const buildDiffPreview = (before: SchematicData, after: SchematicData, diff: DesignDiff): { data: SchematicData; highlights: DiffHighlights } => {
+  const components = [
+    ...after.components,
+    ...before.components.filter(c => diff.removedComponents.some(r => r.id === c.id))
+  ];
+  // Removed nets may share ids with new ones, so the preview gets its own (and pair links to match)
+  const nets = pairDifferentialNets(mergeNets(after.nets, before.nets).map((net, i) => ({ ...net, id: `preview_${i}` })), components);
+
+  const highlights: DiffHighlights = { components: {}, nets: {} };
+  diff.addedComponents.forEach(c => { highlights.components[c.id] = 'added'; });
+  diff.removedComponents.forEach(c => { highlights.components[c.id] = 'removed'; });
+
+  const beforeNames = new Set(before.nets.map(n => n.name));
+  const afterNames = new Set(after.nets.map(n => n.name));
+  [...diff.addedConnections, ...diff.removedConnections].forEach(({ net }) => {
+    highlights.nets[net] = !beforeNames.has(net) ? 'added' : !afterNames.has(net) ? 'removed' : 'changed';
+  });
+
+  return { data: { components, nets }, highlights };
+};
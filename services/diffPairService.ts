@@ -0,0 +1,118 @@
+import { ComponentItem, Net, PinDefinition } from '../types';
+import { findPin } from './componentRules';
+import { isGroundNet, isPowerNet } from './voltageDomainService';
+
+/**
+ * Differential pair detection.
+ *
+ * The netlist model returns USB D+/D−, CAN H/L and LVDS lanes as unrelated nets. Pairs
+ * are found from complementary pin names on the same part ("D+"/"D-", "CANH"/"CANL",
+ * "TX0_P"/"TX0_N") and recorded on both nets as `Net.diffPair`, which the router and
+ * the exporters read. Generic suffixes ("IN+", "A"/"B") only count on pins whose
+ * signal type is "Differential".
+ */
+
+interface PolarityPattern {
+  pattern: RegExp;  // Group 1 is the pair base, group 2 the polarity marker
+  positive: RegExp; // Markers of the positive half
+  protocol: boolean; // Known bus naming, accepted without a "Differential" signal type
+}
+
+const POLARITY_PATTERNS: PolarityPattern[] = [
+  { pattern: /^(.*CAN)[_-]?([HL])$/i, positive: /H/i, protocol: true },
+  { pattern: /^(.*D)([+\-−PMN])$/i, positive: /[+P]/i, protocol: true },
+  { pattern: /^(.*(?:TX|RX|CLK|LANE|DATA|DIN|DOUT)\d*)[_-]?([+\-−PN])$/i, positive: /[+P]/i, protocol: true },
+  { pattern: /^(.+?)[_-]?([+\-−])$/, positive: /\+/, protocol: false },
+  { pattern: /^(.+)[_-]([PN])$/i, positive: /P/i, protocol: false },
+  { pattern: /^(.*?)([AB])$/i, positive: /A/i, protocol: false }
+];
+
+const isDifferential = (pin: PinDefinition) => /differential/i.test(pin.electrical?.signalType || '');
+
+
+/**
+ * The other half of `pin` on the same part, if the two names form a pair.
+ */
+export const findComplementPin = (comp: ComponentItem, pin: PinDefinition): { pin: PinDefinition; polarity: 'P' | 'N'; base: string } | undefined => {
+  const name = pin.name.trim();
+  for (const { pattern, positive, protocol } of POLARITY_PATTERNS) {
+    const match = pattern.exec(name);
+    if (!match) continue;
+    const [, base, marker] = match;
+    const polarity = positive.test(marker) ? 'P' : 'N';
+    const partner = (comp.pins || []).find(other => {
+      if (other === pin) return false;
+      const m = pattern.exec(other.name.trim());
+      return !!m && m[1].toUpperCase() === base.toUpperCase() && (positive.test(m[2]) ? 'P' : 'N') !== polarity;
+    });
+    if (partner && (protocol || isDifferential(pin) || isDifferential(partner))) {
+      return { pin: partner, polarity, base: base.replace(/[_-]+$/, '') };
+    }
+  }
+  return undefined;
+};
+
+// "USB_DP" + "USB_DM" -> "USB_D"; falls back to the pin base when the names share nothing
+const pairName = (a: string, b: string, pinBase: string) => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i].toUpperCase() === b[i].toUpperCase()) i++;
+  const common = a.slice(0, i).replace(/[_\-+]+$/, '');
+  return common || pinBase || a;
+};
+
+/**
+ * Returns the nets with `diffPair` set on both halves of every detected pair. Links
+ * are recomputed from scratch, so stale links from an earlier edit are dropped. Each
+ * net belongs to at most one pair and pair names are unique within the design.
+ */
+export const pairDifferentialNets = (nets: Net[], components: ComponentItem[]): Net[] => {
+  const byId = new Map(components.map(c => [c.id, c]));
+  const netOfPin = new Map<PinDefinition, Net>();
+  nets.forEach(net => net.connections.forEach(c => {
+    const pin = findPin(byId.get(c.componentId), c.pin);
+    if (pin && !netOfPin.has(pin)) netOfPin.set(pin, net);
+  }));
+
+  const links = new Map<string, Net['diffPair']>();
+  const usedNames = new Set(nets.map(n => n.name.toUpperCase()));
+
+  nets.forEach(net => {
+    if (links.has(net.id) || isPowerNet(net) || isGroundNet(net)) return;
+    for (const conn of net.connections) {
+      const comp = byId.get(conn.componentId);
+      const pin = findPin(comp, conn.pin);
+      const complement = comp && pin ? findComplementPin(comp, pin) : undefined;
+      const partner = complement && netOfPin.get(complement.pin);
+      if (!complement || !partner || partner.id === net.id || links.has(partner.id) || isPowerNet(partner) || isGroundNet(partner)) continue;
+
+      const [positive, negative] = complement.polarity === 'P' ? [net, partner] : [partner, net];
+      // Exporters name the halves <pair>_P / <pair>_N, which must not collide with other nets
+      const base = pairName(positive.name, negative.name, complement.base);
+      const own = new Set([positive.name.toUpperCase(), negative.name.toUpperCase()]);
+      const taken = (candidate: string) => ['P', 'N'].some(suffix => {
+        const full = `${candidate}_${suffix}`.toUpperCase();
+        return usedNames.has(full) && !own.has(full);
+      });
+      let name = base;
+      for (let k = 2; taken(name); k++) name = `${base}${k}`;
+      usedNames.add(`${name}_P`.toUpperCase());
+      usedNames.add(`${name}_N`.toUpperCase());
+
+      links.set(positive.id, { partnerId: negative.id, polarity: 'P', name });
+      links.set(negative.id, { partnerId: positive.id, polarity: 'N', name });
+      break;
+    }
+  });
+
+  return nets.map(net => {
+    const { diffPair: _previous, ...rest } = net;
+    const link = links.get(net.id);
+    return link ? { ...rest, diffPair: link } : rest;
+  });
+};
+
+/**
+ * Name of a net in a PCB export: pair halves become "<pair>_P" / "<pair>_N", the
+ * suffix convention layout tools use to recognise differential pairs.
+ */
+export const exportNetName = (net: Net) => net.diffPair ? `${net.diffPair.name}_${net.diffPair.polarity}` : net.name;
@@ -0,0 +1,164 @@
+import { ComponentItem, PinDefinition, SchematicData } from '../types';
+import { analyzeVoltageDomains, isGroundNet, isPowerNet } from './voltageDomainService';
+import { checkIsolation } from './constraintService';
+import { findPin, isOpenDrain, isResistor } from './componentRules';
+import { isObject } from './validationService';
+
+/**
+ * Deterministic electrical rule check over the netlist.
+ *
+ * Unlike the compatibility check this never calls the AI: the same design always
+ * gives the same violations, so the result can gate a release. Rules only use
+ * pin types, pin electrical specs and net types/names.
+ */
+
+export type ErcRuleId =
+  | 'output-conflict'
+  | 'floating-input'
+  | 'unconnected-power'
+  | 'single-connection-net'
+  | 'open-drain-no-pullup'
+  | 'power-on-signal-net'
+  | 'level-mismatch'
+  | 'isolation';
+
+export type ErcSeverity = 'error' | 'warning' | 'info' | 'off';
+
+const ERC_SEVERITIES: ErcSeverity[] = ['error', 'warning', 'info', 'off'];
+
+export const ERC_RULES: { id: ErcRuleId; label: string; defaultSeverity: ErcSeverity }[] = [
+  { id: 'output-conflict', label: 'Output driving output', defaultSeverity: 'error' },
+  { id: 'floating-input', label: 'Unconnected input', defaultSeverity: 'warning' },
+  { id: 'unconnected-power', label: 'Unconnected power pin', defaultSeverity: 'error' },
+  { id: 'single-connection-net', label: 'Net with one connection', defaultSeverity: 'warning' },
+  { id: 'open-drain-no-pullup', label: 'Open-drain net without pull-up', defaultSeverity: 'warning' },
+  { id: 'power-on-signal-net', label: 'Power pin on signal net', defaultSeverity: 'error' },
+  { id: 'level-mismatch', label: 'Logic level above receiver rating', defaultSeverity: 'error' },
+  { id: 'isolation', label: 'Isolation constraint', defaultSeverity: 'error' }
+];
+
+export type ErcSeverities = Partial<Record<ErcRuleId, ErcSeverity>>; // Overrides of the rule defaults
+
+export interface ErcViolation {
+  rule: ErcRuleId;
+  severity: Exclude<ErcSeverity, 'off'>;
+  message: string;
+  netId?: string;
+  componentId?: string;
+  pin?: string;
+}
+
+const SETTINGS_KEY = 'eda_erc_severities';
+
+export const getErcSeverities = (): ErcSeverities => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : undefined;
+    // Settings from older builds may name rules or severities that no longer exist
+    if (isObject(parsed)) {
+      return Object.fromEntries(ERC_RULES
+        .filter(rule => ERC_SEVERITIES.includes(parsed[rule.id] as ErcSeverity))
+        .map(rule => [rule.id, parsed[rule.id]]));
+    }
+  } catch (e) {
+    console.error("Failed to load ERC settings", e);
+  }
+  return {};
+};
+
+export const saveErcSeverities = (severities: ErcSeverities) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(severities));
+};
+
+// Pins marked "no connect" are meant to stay open
+const isNoConnect = (pin: PinDefinition) => /^(NC|N\.C\.|DNC|NO CONNECT)$/i.test(pin.name.trim());
+
+// Tri-state outputs may legitimately share a bus
+const isTriState = (pin: PinDefinition) =>
+  /tri-?state|high-?z/i.test(`${pin.electrical?.signalType || ''} ${pin.electrical?.behavior || ''} ${pin.electrical?.impedance || ''}`);
+
+const hasInternalPullUp = (pin: PinDefinition) => /pull-?up/i.test(pin.electrical?.behavior || '');
+
+
+const describePin = (comp: ComponentItem, pin: PinDefinition) => `${comp.name} pin ${pin.pinNumber} (${pin.name})`;
+
+/**
+ * Runs every enabled rule. Violations are ordered by rule, then by net or part order.
+ */
+export const runErc = (data: SchematicData, severities: ErcSeverities = {}): ErcViolation[] => {
+  const byId = new Map(data.components.map(c => [c.id, c]));
+  const violations: ErcViolation[] = [];
+
+  const severityOf = (rule: ErcRuleId) => severities[rule] || ERC_RULES.find(r => r.id === rule)!.defaultSeverity;
+  const report = (rule: ErcRuleId, message: string, location: Omit<ErcViolation, 'rule' | 'severity' | 'message'> = {}) => {
+    const severity = severityOf(rule);
+    if (severity !== 'off') violations.push({ rule, severity, message, ...location });
+  };
+
+  // Resolved pins per net, and every pin that is on some net
+  const netPins = data.nets.map(net => net.connections
+    .map(c => ({ comp: byId.get(c.componentId), pin: findPin(byId.get(c.componentId), c.pin) }))
+    .filter((p): p is { comp: ComponentItem; pin: PinDefinition } => !!p.comp && !!p.pin));
+  const connected = new Set<PinDefinition>();
+  netPins.forEach(pins => pins.forEach(({ pin }) => connected.add(pin)));
+
+  data.nets.forEach((net, i) => {
+    const pins = netPins[i];
+    const drivers = pins.filter(({ pin }) => pin.type === 'Output' && !isOpenDrain(pin) && !isTriState(pin));
+    if (drivers.length > 1) {
+      report('output-conflict', `Net ${net.name} is driven by ${drivers.length} outputs: ${drivers.map(d => describePin(d.comp, d.pin)).join(', ')}`, { netId: net.id });
+    }
+  });
+
+  data.components.forEach(comp => (comp.pins || []).forEach(pin => {
+    if (connected.has(pin) || isNoConnect(pin)) return;
+    if (pin.type === 'Input' || pin.type === 'Clock') {
+      report('floating-input', `${describePin(comp, pin)} is an unconnected input`, { componentId: comp.id, pin: String(pin.pinNumber) });
+    } else if (pin.type === 'Power') {
+      report('unconnected-power', `${describePin(comp, pin)} is an unconnected power pin`, { componentId: comp.id, pin: String(pin.pinNumber) });
+    }
+  }));
+
+  data.nets.forEach(net => {
+    const endpoints = new Set(net.connections.map(c => `${c.componentId}:${c.pin}`));
+    if (endpoints.size === 1) {
+      report('single-connection-net', `Net ${net.name} has only one connection`, { netId: net.id });
+    }
+  });
+
+  data.nets.forEach((net, i) => {
+    const pins = netPins[i];
+    const openDrain = pins.filter(({ pin }) => isOpenDrain(pin));
+    if (openDrain.length === 0 || pins.some(({ pin }) => hasInternalPullUp(pin))) return;
+
+    // A resistor on this net whose other end sits on a supply net
+    const pulledUp = pins.some(({ comp, pin }) => isResistor(comp) && (comp.pins || []).some(other =>
+      other !== pin && data.nets.some((n, j) => isPowerNet(n) && netPins[j].some(p => p.pin === other))
+    ));
+    if (!pulledUp) {
+      report('open-drain-no-pullup', `Net ${net.name} has open-drain ${openDrain.map(d => describePin(d.comp, d.pin)).join(', ')} but no pull-up resistor to a supply`, { netId: net.id });
+    }
+  });
+
+  // Untyped nets with unrecognised names count as signal nets only when a logic pin is on them
+  data.nets.forEach((net, i) => {
+    if (isPowerNet(net) || isGroundNet(net)) return;
+    if (net.type !== 'signal' && !netPins[i].some(({ pin }) => pin.type !== 'Power' && pin.type !== 'Passive')) return;
+    netPins[i].filter(({ pin }) => pin.type === 'Power').forEach(({ comp, pin }) => {
+      report('power-on-signal-net', `${describePin(comp, pin)} is a power pin on signal net ${net.name}`, { netId: net.id, componentId: comp.id, pin: String(pin.pinNumber) });
+    });
+  });
+
+  if (severityOf('level-mismatch') !== 'off') {
+    analyzeVoltageDomains(data).mismatches.forEach(m => {
+      const limit = m.limitSource === 'maxVoltage' ? `rated ${m.limit}V` : `assumed VDD+0.3V = ${m.limit.toFixed(1)}V`;
+      report('level-mismatch', `Net ${m.netName}: ${m.driver} drives ${m.level}V into ${m.receiver} (${limit}). ${m.suggestion}.`, { netId: m.netId, componentId: m.componentId, pin: m.pin });
+    });
+  }
+
+  if (severityOf('isolation') !== 'off') {
+    checkIsolation(data).forEach(({ message, ...location }) => report('isolation', message, location));
+  }
+
+  return violations;
+};
@@ -1,4 +1,11 @@
-import { SchematicData, ComponentItem, PinDefinition, Net } from '../types';
+import { SchematicData, ComponentItem, PinDefinition, Net, QuantityUnit } from '../types';
+import { generateLandPattern, generateEaglePackage } from './footprintService';
+import { NET_CLASSES, assignNetClasses, getClassClearances } from './constraintService';
+import { exportNetName } from './diffPairService';
+import { classifyComponent, designatorPrefix, getDesignators } from './annotationService';
+import { findPin, isOpenDrain } from './componentRules';
+import { passiveValues } from './passiveService';
+import { formatQuantity, parseQuantity } from './unitsService';
 
 interface Route {
   path: {x: number, y: number}[];
@@ -14,6 +21,101 @@ const SCALE = 2.54 / 20;
 
 const cleanName = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, '_');
 
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+
+// Unique library symbol name per component; duplicate part names get a numeric suffix.
+const getSymbolNames = (components: ComponentItem[]): Record<string, string> => {
+  const names: Record<string, string> = {};
+  const used = new Set<string>();
+  components.forEach(comp => {
+    let symName = cleanName(comp.name);
+    for (let n = 2; used.has(symName); n++) symName = `${cleanName(comp.name)}_${n}`;
+    used.add(symName);
+    names[comp.id] = symName;
+  });
+  return names;
+};
+
+// Eagle needs unique pin names per symbol. Repeated names (GND, VCC...) use the NAME@n
+// convention, which Eagle hides on the sheet.
+const getEaglePinNames = (comp: ComponentItem): Map<PinDefinition, string> => {
+  const names = new Map<PinDefinition, string>();
+  const pins = comp.pins || [];
+  pins.forEach((pin, i) => {
+    const isRepeated = pins.filter(p => p.name === pin.name).length > 1;
+    names.set(pin, isRepeated ? `${pin.name}@${i + 1}` : pin.name);
+  });
+  return names;
+};
+
+// Pad names come from pinNumber and must be unique within a package.
+const getEaglePadNames = (comp: ComponentItem): Map<PinDefinition, string> => {
+  const names = new Map<PinDefinition, string>();
+  const used = new Set<string>();
+  (comp.pins || []).forEach(pin => {
+    const base = cleanName(String(pin.pinNumber)) || 'P';
+    let pad = base;
+    for (let n = 2; used.has(pad); n++) pad = `${base}_${n}`;
+    used.add(pad);
+    names.set(pin, pad);
+  });
+  return names;
+};
+
+/**
+ * Builds a generic dual-row Eagle package from PhysicalSpecs.
+ * Pads are numbered counter-clockwise (down the left row, up the right row) at the part's pin pitch.
+ */
+const buildEaglePackage = (packageName: string, comp: ComponentItem, padNames: Map<PinDefinition, string>): string => {
+  const specs = comp.physicalSpecs;
+  const pins = [...(comp.pins || [])].sort((a, b) =>
+    String(a.pinNumber).localeCompare(String(b.pinNumber), undefined, { numeric: true }));
+  const pitch = specs?.pinPitchMm && specs.pinPitchMm > 0 ? specs.pinPitchMm : 1.27;
+  const perSide = Math.max(Math.ceil(pins.length / 2), 1);
+  const bodyW = specs?.widthMm && specs.widthMm > 0 ? specs.widthMm : 4;
+  const bodyH = Math.max(specs?.heightMm && specs.heightMm > 0 ? specs.heightMm : 0, perSide * pitch);
+  const isThroughHole = /DIP|THT|TO-?\d|HDR|HEADER|PTH/i.test(specs?.packageType || comp.footprintType || '');
+
+  const padW = Math.min(pitch * 0.6, 1.5);
+  const padL = isThroughHole ? padW : 1.5;
+  const rowX = bodyW / 2 + padL / 2;
+  const f = (n: number) => n.toFixed(3);
+
+  let pkg = `<package name="${packageName}">\n`;
+  pkg += `<description>${escapeXml(specs?.packageType || comp.footprintType || 'Generic')} (generated from physical specs)</description>\n`;
+
+  pins.forEach((pin, i) => {
+    const onLeft = i < perSide;
+    const rowIdx = onLeft ? i : (perSide - 1) - (i - perSide);
+    const x = onLeft ? -rowX : rowX;
+    const y = ((perSide - 1) / 2 - rowIdx) * pitch;
+    const pad = padNames.get(pin)!;
+    if (isThroughHole) {
+      pkg += `<pad name="${pad}" x="${f(x)}" y="${f(y)}" drill="${f(Math.min(pitch * 0.4, 1))}" diameter="${f(padW * 1.6)}"${i === 0 ? ' shape="square"' : ''}/>\n`;
+    } else {
+      pkg += `<smd name="${pad}" x="${f(x)}" y="${f(y)}" dx="${f(padL)}" dy="${f(padW)}" layer="1"/>\n`;
+    }
+  });
+
+  // Body outline on tPlace, pin 1 marker and name/value texts
+  const hx = bodyW / 2;
+  const hy = bodyH / 2;
+  pkg += `<wire x1="${f(-hx)}" y1="${f(hy)}" x2="${f(hx)}" y2="${f(hy)}" width="0.127" layer="21"/>\n`;
+  pkg += `<wire x1="${f(hx)}" y1="${f(hy)}" x2="${f(hx)}" y2="${f(-hy)}" width="0.127" layer="21"/>\n`;
+  pkg += `<wire x1="${f(hx)}" y1="${f(-hy)}" x2="${f(-hx)}" y2="${f(-hy)}" width="0.127" layer="21"/>\n`;
+  pkg += `<wire x1="${f(-hx)}" y1="${f(-hy)}" x2="${f(-hx)}" y2="${f(hy)}" width="0.127" layer="21"/>\n`;
+  pkg += `<circle x="${f(-hx + 0.6)}" y="${f(hy - 0.6)}" radius="0.2" width="0.127" layer="21"/>\n`;
+  pkg += `<text x="${f(-hx)}" y="${f(hy + 0.8)}" size="1" layer="25">&gt;NAME</text>\n`;
+  pkg += `<text x="${f(-hx)}" y="${f(-hy - 1.8)}" size="1" layer="27">&gt;VALUE</text>\n`;
+  pkg += `</package>\n`;
+  return pkg;
+};
+
 /**
  * Generates an Eagle CAD XML Schematic File (.sch)
  * Compatible with Eagle 9.x, Fusion 360, Altium Designer (Import), and KiCad (Import).
@@ -34,6 +136,18 @@ export const generateEagleSchematic = (
   
   // Layers
   xml += `<layers>\n`;
+  xml += `<layer number="1" name="Top" color="4" fill="1" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="16" name="Bottom" color="1" fill="1" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="17" name="Pads" color="2" fill="1" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="18" name="Vias" color="2" fill="1" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="20" name="Dimension" color="15" fill="1" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="21" name="tPlace" color="7" fill="1" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="25" name="tNames" color="7" fill="1" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="27" name="tValues" color="7" fill="1" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="29" name="tStop" color="7" fill="3" visible="no" active="yes"/>\n`;
+  xml += `<layer number="31" name="tCream" color="7" fill="4" visible="no" active="yes"/>\n`;
+  xml += `<layer number="39" name="tKeepout" color="4" fill="11" visible="yes" active="yes"/>\n`;
+  xml += `<layer number="51" name="tDocu" color="7" fill="1" visible="yes" active="yes"/>\n`;
   xml += `<layer number="91" name="Nets" color="2" fill="1" visible="yes" active="yes"/>\n`;
   xml += `<layer number="92" name="Busses" color="1" fill="1" visible="yes" active="yes"/>\n`;
   xml += `<layer number="93" name="Pins" color="2" fill="1" visible="yes" active="yes"/>\n`;
@@ -48,12 +162,32 @@ export const generateEagleSchematic = (
   // --- LIBRARIES ---
   xml += `<libraries>\n`;
   xml += `<library name="AutoSchematicLib">\n`;
-  xml += `<packages>\n</packages>\n`;
+  const symbolNames = getSymbolNames(data.components);
+  const packageNames: Record<string, string> = {};
+
+  // Generate one package per component: an IPC-7351 land pattern when the package family
+  // is supported and its pads cover every pin, otherwise a generic one from physical specs
+  xml += `<packages>\n`;
+  const usedPackages = new Set<string>();
+  data.components.forEach(comp => {
+      const padNames = getEaglePadNames(comp);
+      const { pattern } = generateLandPattern(comp);
+      const fitsPins = !!pattern && Array.from(padNames.values()).every(pad => pattern.pads.some(p => p.name === pad));
+
+      const base = cleanName(fitsPins ? pattern!.name : (comp.physicalSpecs?.packageType || comp.footprintType || 'PKG'));
+      let pkgName = base;
+      for (let n = 2; usedPackages.has(pkgName); n++) pkgName = `${base}_${n}`;
+      usedPackages.add(pkgName);
+      packageNames[comp.id] = pkgName;
+      xml += fitsPins ? generateEaglePackage(pattern!, pkgName) : buildEaglePackage(pkgName, comp, padNames);
+  });
+  xml += `</packages>\n`;
   xml += `<symbols>\n`;
 
   // Generate Symbols for each component
   data.components.forEach(comp => {
-      const symName = cleanName(comp.name);
+      const symName = symbolNames[comp.id];
+      const pinNames = getEaglePinNames(comp);
       const pos = layoutPositions[comp.id] || { x:0, y:0, w: 100, h: 100 };
       
       // Dimensions in mm
@@ -130,17 +264,35 @@ export const generateEagleSchematic = (
             rot = "R270"; 
         }
 
-        xml += `<pin name="${pin.name}" x="${x.toFixed(2)}" y="${y.toFixed(2)}" length="middle" rot="${rot}"/>\n`;
+        const direction = pin.type === 'Power' ? 'pwr' : pin.type === 'Input' || pin.type === 'Clock' ? 'in' : pin.type === 'Output' ? 'out' : pin.type === 'Passive' ? 'pas' : 'io';
+
+        xml += `<pin name="${escapeXml(pinNames.get(pin)!)}" x="${x.toFixed(2)}" y="${y.toFixed(2)}" length="middle" direction="${isOpenDrain(pin) ? 'oc' : direction}"${pin.type === 'Clock' ? ' function="clk"' : ''} rot="${rot}"/>\n`;
       });
 
       xml += `</symbol>\n`;
   });
+  xml += `</symbols>\n`;
+
+  const refs = getDesignators(data.components);
 
   xml += `<devicesets>\n`;
   data.components.forEach(comp => {
-      const symName = cleanName(comp.name);
-      xml += `<deviceset name="${symName}" prefix="U">\n`;
+      const symName = symbolNames[comp.id];
+      const pinNames = getEaglePinNames(comp);
+      const padNames = getEaglePadNames(comp);
+
+      xml += `<deviceset name="${symName}" prefix="${designatorPrefix(refs[comp.id])}">\n`;
+      if (comp.description) xml += `<description>${escapeXml(comp.description)}</description>\n`;
       xml += `<gates>\n<gate name="G$1" symbol="${symName}" x="0" y="0"/>\n</gates>\n`;
+
+      // Map every symbol pin to its package pad by pinNumber
+      xml += `<devices>\n<device name="" package="${packageNames[comp.id]}">\n<connects>\n`;
+      (comp.pins || []).forEach(pin => {
+          xml += `<connect gate="G$1" pin="${escapeXml(pinNames.get(pin)!)}" pad="${padNames.get(pin)}"/>\n`;
+      });
+      xml += `</connects>\n<technologies>\n<technology name="">\n`;
+      if (comp.manufacturer) xml += `<attribute name="MANUFACTURER" value="${escapeXml(comp.manufacturer)}" constant="no"/>\n`;
+      xml += `</technology>\n</technologies>\n</device>\n</devices>\n`;
       xml += `</deviceset>\n`;
   });
   xml += `</devicesets>\n`;
@@ -148,11 +300,28 @@ export const generateEagleSchematic = (
   xml += `</library>\n`;
   xml += `</libraries>\n`;
 
+  // --- NET CLASSES ---
+  // Class numbers follow NET_CLASSES so "default" is class 0. Clearance between two
+  // classes is the larger of their own, which carries creepage rules to the board.
+  const netClasses = assignNetClasses(data);
+  const clearances = getClassClearances(data);
+  const usedClasses = NET_CLASSES
+    .map((cls, number) => ({ ...cls, number }))
+    .filter(cls => cls.number === 0 || Object.values(netClasses).includes(cls.name));
+  xml += `<classes>\n`;
+  usedClasses.forEach(cls => {
+      xml += `<class number="${cls.number}" name="${cls.name}" width="${cls.widthMm}" drill="0">\n`;
+      usedClasses.filter(other => other.number <= cls.number).forEach(other => {
+          xml += `<clearance class="${other.number}" value="${Math.max(clearances[cls.name], clearances[other.name])}"/>\n`;
+      });
+      xml += `</class>\n`;
+  });
+  xml += `</classes>\n`;
+
   // --- PARTS & INSTANCES ---
   xml += `<parts>\n`;
-  data.components.forEach((comp, i) => {
-     const symName = cleanName(comp.name);
-     xml += `<part name="U${i+1}" library="AutoSchematicLib" deviceset="${symName}" device=""/>\n`;
+  data.components.forEach(comp => {
+     xml += `<part name="${refs[comp.id]}" library="AutoSchematicLib" deviceset="${symbolNames[comp.id]}" device="" value="${escapeXml(comp.name)}"/>\n`;
   });
   xml += `</parts>\n`;
 
@@ -161,7 +330,7 @@ export const generateEagleSchematic = (
   xml += `<plain>\n</plain>\n`;
   
   xml += `<instances>\n`;
-  data.components.forEach((comp, i) => {
+  data.components.forEach(comp => {
      const pos = layoutPositions[comp.id];
      if(!pos) return;
      
@@ -172,7 +341,7 @@ export const generateEagleSchematic = (
      const eagleX = webCenterX * SCALE;
      const eagleY = -(webCenterY * SCALE); // Invert Y
 
-     xml += `<instance part="U${i+1}" gate="G$1" x="${eagleX.toFixed(2)}" y="${eagleY.toFixed(2)}"/>\n`;
+     xml += `<instance part="${refs[comp.id]}" gate="G$1" x="${eagleX.toFixed(2)}" y="${eagleY.toFixed(2)}"/>\n`;
   });
   xml += `</instances>\n`;
 
@@ -181,19 +350,36 @@ export const generateEagleSchematic = (
   // --- NETS (WIRES) ---
   xml += `<nets>\n`;
   
-  // Group routes by net
-  const netGroups: Record<string, Route[]> = {};
-  routes.forEach(r => {
-      if(!netGroups[r.netName]) netGroups[r.netName] = [];
-      netGroups[r.netName].push(r);
+  // Nets come from Net.connections: every connection becomes a pinref so Eagle knows
+  // which pins are attached. Routed wires are added to the same segment as drawing geometry.
+  const netGroups: Record<string, { pinrefs: string[], routes: Route[], classNumber: number }> = {};
+  data.nets.forEach(net => {
+      // Pair halves get _P/_N names, which is how Eagle's router recognises a differential pair
+      const safeNetName = cleanName(exportNetName(net));
+      if (!netGroups[safeNetName]) {
+          netGroups[safeNetName] = { pinrefs: [], routes: [], classNumber: NET_CLASSES.findIndex(c => c.name === netClasses[net.id]) };
+      }
+
+      net.connections.forEach(conn => {
+          const comp = data.components.find(c => c.id === conn.componentId);
+          const pin = comp && findPin(comp, conn.pin);
+          if (!comp || !pin || !layoutPositions[comp.id]) return;
+
+          const pinref = `<pinref part="${refs[comp.id]}" gate="G$1" pin="${escapeXml(getEaglePinNames(comp).get(pin)!)}"/>`;
+          if (!netGroups[safeNetName].pinrefs.includes(pinref)) netGroups[safeNetName].pinrefs.push(pinref);
+      });
+
+      netGroups[safeNetName].routes.push(...routes.filter(r => r.netName === net.name));
   });
 
-  Object.entries(netGroups).forEach(([netName, netRoutes]) => {
-      const safeNetName = cleanName(netName);
-      xml += `<net name="${safeNetName}" class="0">\n`;
-      
-      netRoutes.forEach(route => {
-          xml += `<segment>\n`;
+  Object.entries(netGroups).forEach(([safeNetName, group]) => {
+      if (group.pinrefs.length === 0) return;
+
+      xml += `<net name="${safeNetName}" class="${group.classNumber}">\n`;
+      xml += `<segment>\n`;
+      group.pinrefs.forEach(pinref => { xml += `${pinref}\n`; });
+
+      group.routes.forEach(route => {
           for(let i=0; i<route.path.length-1; i++) {
               const p1 = route.path[i];
               const p2 = route.path[i+1];
@@ -205,8 +391,8 @@ export const generateEagleSchematic = (
               
               xml += `<wire x1="${x1.toFixed(2)}" y1="${y1.toFixed(2)}" x2="${x2.toFixed(2)}" y2="${y2.toFixed(2)}" width="0.1524" layer="91"/>\n`;
           }
-          xml += `</segment>\n`;
       });
+      xml += `</segment>\n`;
       xml += `</net>\n`;
   });
 
@@ -221,5 +407,481 @@ export const generateEagleSchematic = (
   return xml;
 };
 
-// Deprecated KiCad export kept for reference but unused
-export const generateKiCadSchematic = () => "";
\ No newline at end of file
+// --- KiCad 7/8 (.kicad_sch) ---
+
+const KICAD_PIN_LENGTH = 2.54;
+
+const KICAD_PIN_TYPES: Record<PinDefinition['type'], string> = {
+  Power: 'power_in',
+  Input: 'input',
+  Output: 'output',
+  IO: 'bidirectional',
+  Clock: 'input',
+  Passive: 'passive'
+};
+
+const kicadString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const kicadNum = (n: number) => n.toFixed(2);
+
+/**
+ * Resolves a pin's connection point relative to the top-left corner of its component box,
+ * in web pixels. Mirrors the placement rules of SchematicView and snaps to the same 20px
+ * grid the router uses, so exported wires land exactly on the pin ends.
+ */
+export const getPinAnchor = (comp: ComponentItem, pin: PinDefinition, pos: { w: number, h: number }) => {
+  const leftPins = comp.pins?.filter(p => p.side === 'left' || !p.side) || [];
+  const rightPins = comp.pins?.filter(p => p.side === 'right') || [];
+  const topPins = comp.pins?.filter(p => p.side === 'top') || [];
+  const bottomPins = comp.pins?.filter(p => p.side === 'bottom') || [];
+  const snap = (v: number) => Math.round(v / 20) * 20;
+
+  if (rightPins.includes(pin)) {
+    return { x: pos.w, y: 60 + (rightPins.indexOf(pin) * 40), side: 'right' as const };
+  }
+  if (topPins.includes(pin)) {
+    const step = pos.w / (topPins.length + 1);
+    return { x: snap(step * (topPins.indexOf(pin) + 1)), y: 0, side: 'top' as const };
+  }
+  if (bottomPins.includes(pin)) {
+    const step = pos.w / (bottomPins.length + 1);
+    return { x: snap(step * (bottomPins.indexOf(pin) + 1)), y: pos.h, side: 'bottom' as const };
+  }
+  return { x: 0, y: 60 + (leftPins.indexOf(pin) * 40), side: 'left' as const };
+};
+
+/**
+ * Generates a native KiCad 7/8 S-Expression Schematic File (.kicad_sch)
+ * Symbols are placed at the SchematicView positions, wires follow the computed routes
+ * and every net is named with a local label.
+ */
+export const generateKiCadSchematic = (
+    data: SchematicData,
+    layoutPositions: Record<string, {x: number, y: number, w: number, h: number}>,
+    routes: Route[] = [],
+    projectName: string = 'AutoSchematic'
+): string => {
+
+  // Deterministic UUIDs keep repeated exports of the same layout diff-friendly.
+  let uuidCounter = 0;
+  const nextUuid = () => `00000000-0000-4000-8000-${(++uuidCounter).toString(16).padStart(12, '0')}`;
+  const rootUuid = nextUuid();
+  const font = `(effects (font (size 1.27 1.27)))`;
+  const hiddenFont = `(effects (font (size 1.27 1.27)) hide)`;
+
+  let sch = `(kicad_sch (version 20230121) (generator eeschema)\n`;
+  sch += `  (uuid ${rootUuid})\n`;
+  sch += `  (paper "A3")\n`;
+  sch += `  (title_block (title ${kicadString(projectName)}))\n`;
+
+  // --- LIB SYMBOLS ---
+  // One library symbol per component, sized from its layout box so pins match the sheet.
+  const symbolNames = getSymbolNames(data.components);
+  const libIds: Record<string, string> = {};
+
+  sch += `  (lib_symbols\n`;
+  data.components.forEach(comp => {
+      const symName = symbolNames[comp.id];
+      libIds[comp.id] = `AutoSchematic:${symName}`;
+
+      const pos = layoutPositions[comp.id] || { x: 0, y: 0, w: 100, h: 100 };
+      const w = pos.w * SCALE;
+      const h = pos.h * SCALE;
+
+      sch += `    (symbol ${kicadString(libIds[comp.id])} (in_bom yes) (on_board yes)\n`;
+      sch += `      (property "Reference" "U" (at 0 1.27 0) ${font})\n`;
+      sch += `      (property "Value" ${kicadString(comp.name)} (at 0 ${kicadNum(-h - 1.27)} 0) ${font})\n`;
+      sch += `      (property "Footprint" ${kicadString(comp.footprintType || '')} (at 0 0 0) ${hiddenFont})\n`;
+      sch += `      (property "Datasheet" "" (at 0 0 0) ${hiddenFont})\n`;
+
+      // Body: library coordinates are Y-up, so the web box (0..w, 0..h) maps to (0..w, 0..-h).
+      // The body is inset by the pin length so pin ends sit on the web box outline.
+      sch += `      (symbol ${kicadString(`${symName}_0_1`)}\n`;
+      sch += `        (rectangle (start ${kicadNum(KICAD_PIN_LENGTH)} ${kicadNum(-KICAD_PIN_LENGTH)}) (end ${kicadNum(w - KICAD_PIN_LENGTH)} ${kicadNum(-h + KICAD_PIN_LENGTH)})\n`;
+      sch += `          (stroke (width 0.254) (type default)) (fill (type background)))\n`;
+      sch += `      )\n`;
+
+      sch += `      (symbol ${kicadString(`${symName}_1_1`)}\n`;
+      (comp.pins || []).forEach(pin => {
+          const anchor = getPinAnchor(comp, pin, pos);
+          // Pin angle points from the connection end towards the body.
+          const angle = { left: 0, right: 180, top: 270, bottom: 90 }[anchor.side];
+          const electricalType = pin.electrical?.signalType?.toLowerCase().includes('open-drain')
+            ? 'open_collector'
+            : KICAD_PIN_TYPES[pin.type] || 'unspecified';
+          const shape = pin.type === 'Clock' ? 'clock' : 'line';
+
+          sch += `        (pin ${electricalType} ${shape} (at ${kicadNum(anchor.x * SCALE)} ${kicadNum(-anchor.y * SCALE)} ${angle}) (length ${kicadNum(KICAD_PIN_LENGTH)})\n`;
+          sch += `          (name ${kicadString(pin.name)} ${font})\n`;
+          sch += `          (number ${kicadString(String(pin.pinNumber))} ${font}))\n`;
+      });
+      sch += `      )\n`;
+      sch += `    )\n`;
+  });
+  sch += `  )\n`;
+
+  // --- WIRES ---
+  routes.forEach(route => {
+      for (let i = 0; i < route.path.length - 1; i++) {
+          const p1 = route.path[i];
+          const p2 = route.path[i + 1];
+          if (p1.x === p2.x && p1.y === p2.y) continue;
+
+          sch += `  (wire (pts (xy ${kicadNum(p1.x * SCALE)} ${kicadNum(p1.y * SCALE)}) (xy ${kicadNum(p2.x * SCALE)} ${kicadNum(p2.y * SCALE)}))\n`;
+          sch += `    (stroke (width 0) (type default)) (uuid ${nextUuid()}))\n`;
+      }
+  });
+
+  // --- NET LABELS ---
+  // Routed nets get one label on their first wire; unrouted nets are labelled at every pin
+  // so KiCad still joins them by name.
+  data.nets.forEach(net => {
+      const label = kicadString(cleanName(exportNetName(net)));
+      const firstRoute = routes.find(r => r.netName === net.name && r.path.length > 0);
+      const points: { x: number, y: number }[] = [];
+
+      if (firstRoute) {
+          points.push(firstRoute.path[0]);
+      } else {
+          net.connections.forEach(conn => {
+              const comp = data.components.find(c => c.id === conn.componentId);
+              const pos = layoutPositions[conn.componentId];
+              const pin = comp && findPin(comp, conn.pin);
+              if (!comp || !pos || !pin) return;
+              const anchor = getPinAnchor(comp, pin, pos);
+              points.push({ x: pos.x + anchor.x, y: pos.y + anchor.y });
+          });
+      }
+
+      points.forEach(p => {
+          sch += `  (label ${label} (at ${kicadNum(p.x * SCALE)} ${kicadNum(p.y * SCALE)} 0)\n`;
+          sch += `    (effects (font (size 1.27 1.27)) (justify left bottom)) (uuid ${nextUuid()}))\n`;
+      });
+  });
+
+  // --- SYMBOL INSTANCES ---
+  const refs = getDesignators(data.components);
+  data.components.forEach(comp => {
+      const pos = layoutPositions[comp.id];
+      if (!pos) return;
+
+      // Symbol origin is the top-left corner of the web box; sheet coordinates are Y-down like the web.
+      const x = pos.x * SCALE;
+      const y = pos.y * SCALE;
+      const ref = refs[comp.id];
+
+      sch += `  (symbol (lib_id ${kicadString(libIds[comp.id])}) (at ${kicadNum(x)} ${kicadNum(y)} 0) (unit 1)\n`;
+      sch += `    (in_bom yes) (on_board yes) (dnp no)\n`;
+      sch += `    (uuid ${nextUuid()})\n`;
+      sch += `    (property "Reference" ${kicadString(ref)} (at ${kicadNum(x)} ${kicadNum(y - 1.27)} 0) (effects (font (size 1.27 1.27)) (justify left)))\n`;
+      sch += `    (property "Value" ${kicadString(comp.name)} (at ${kicadNum(x)} ${kicadNum(y + pos.h * SCALE + 1.27)} 0) (effects (font (size 1.27 1.27)) (justify left)))\n`;
+      sch += `    (property "Footprint" ${kicadString(comp.footprintType || '')} (at ${kicadNum(x)} ${kicadNum(y)} 0) ${hiddenFont})\n`;
+      const datasheet = comp.datasheetUrl?.startsWith('data:') ? '' : (comp.datasheetUrl || '');
+      sch += `    (property "Datasheet" ${kicadString(datasheet)} (at ${kicadNum(x)} ${kicadNum(y)} 0) ${hiddenFont})\n`;
+      (comp.pins || []).forEach(pin => {
+          sch += `    (pin ${kicadString(String(pin.pinNumber))} (uuid ${nextUuid()}))\n`;
+      });
+      sch += `    (instances (project ${kicadString(projectName)} (path "/${rootUuid}" (reference ${kicadString(ref)}) (unit 1))))\n`;
+      sch += `  )\n`;
+  });
+
+  sch += `  (sheet_instances (path "/" (page "1")))\n`;
+  sch += `)\n`;
+
+  return sch;
+};
+
+// --- SPICE (.cir) ---
+
+export interface SpiceExport {
+  netlist: string;
+  unmodelled: string[]; // Component names exported as placeholder subcircuits
+}
+
+type SpicePrimitive = 'R' | 'C' | 'L';
+
+const SPICE_UNITS: Record<SpicePrimitive, QuantityUnit> = { R: 'Ω', C: 'F', L: 'H' };
+
+// Role words that name a passive without saying "resistor" or "capacitor"
+const PASSIVE_ROLES: [SpicePrimitive, RegExp][] = [['C', /decoupling|bypass/i], ['R', /pull-?up|pull-?down/i]];
+
+// SPICE suffixes are case-insensitive: "M" is milli, mega must be written "meg".
+const SPICE_SUFFIX: Record<string, string> = { '': '', p: 'p', n: 'n', 'µ': 'u', m: 'm', k: 'k', M: 'meg', G: 'g' };
+
+/**
+ * Detects simple passives from their class and their value in name/description
+ * ("100nF", "10k", "4k7", "2.2uH"; bare numbers such as "0603" are package sizes) and
+ * returns the SPICE element letter and value. Returns null for anything else.
+ */
+const parsePassiveValue = (comp: ComponentItem): { kind: SpicePrimitive, value: string } | null => {
+  if ((comp.pins || []).length !== 2) return null;
+  const prefix = classifyComponent(comp);
+  const kind = prefix === 'R' || prefix === 'C' || prefix === 'L' ? prefix
+    : PASSIVE_ROLES.find(([, pattern]) => pattern.test(`${comp.name} ${comp.description}`))?.[0];
+  if (!kind) return null;
+
+  const [value] = passiveValues(comp, SPICE_UNITS[kind]);
+  const quantity = parseQuantity(value, SPICE_UNITS[kind]);
+  if (!quantity) return null;
+
+  const [number, unit] = formatQuantity({ value: quantity.value, unit: quantity.unit }, 6).split(' ');
+  return { kind, value: `${number}${SPICE_SUFFIX[unit.slice(0, -quantity.unit.length)]}` };
+};
+
+/**
+ * Generates a SPICE netlist (.cir) for ngspice / LTspice.
+ * Passives with a recognisable value become R/C/L primitives; every other component
+ * becomes a subcircuit instance whose nodes follow its `pins` order, backed by a
+ * placeholder .subckt that should be replaced with the vendor model.
+ */
+export const generateSpiceNetlist = (data: SchematicData, projectName: string = 'AutoSchematic'): SpiceExport => {
+  const unmodelled: string[] = [];
+
+  // Node for every connected pin; ground nets collapse to node 0
+  const nodeOf = new Map<string, string>();
+  data.nets.forEach(net => {
+      const node = net.type === 'ground' ? '0' : cleanName(net.name);
+      net.connections.forEach(conn => {
+          const comp = data.components.find(c => c.id === conn.componentId);
+          const pin = comp && findPin(comp, conn.pin);
+          if (pin) nodeOf.set(`${comp!.id}:${String(pin.pinNumber)}`, node);
+      });
+  });
+
+  let cir = `* ${projectName}\n`;
+  cir += `* SPICE netlist generated by AutoSchematic AI\n\n`;
+
+  const subckts: Record<string, string> = {};
+  // Identical parts (same name, manufacturer and pin list) share one stub
+  const subcktNames = new Map<string, string>();
+  const symbolNames = getSymbolNames(data.components);
+
+  const refs = getDesignators(data.components);
+  data.components.forEach(comp => {
+      const ref = refs[comp.id];
+      const nodes = (comp.pins || []).map(pin =>
+        nodeOf.get(`${comp.id}:${String(pin.pinNumber)}`) || `NC_${ref}_${cleanName(String(pin.pinNumber))}`);
+
+      const passive = parsePassiveValue(comp);
+      if (passive) {
+          // "R1" is already a valid resistor element; other designators get the letter in front
+          const element = designatorPrefix(ref) === passive.kind ? ref : `${passive.kind}_${ref}`;
+          cir += `${element} ${nodes.join(' ')} ${passive.value}\n`;
+          return;
+      }
+
+      const identity = JSON.stringify([comp.name, comp.manufacturer || '', (comp.pins || []).map(pin => [pin.pinNumber, pin.name])]);
+      const subcktName = subcktNames.get(identity) || symbolNames[comp.id].toUpperCase();
+      if (!subcktNames.has(identity)) {
+          subcktNames.set(identity, subcktName);
+          // Port names follow pin order; repeated names are made unique with the pin number
+          const ports = (comp.pins || []).map(pin => cleanName(`${pin.name}_${pin.pinNumber}`));
+          let body = `.subckt ${subcktName} ${ports.join(' ')}\n`;
+          body += `* Placeholder for ${comp.name}${comp.manufacturer ? ` (${comp.manufacturer})` : ''}: no vendor model available.\n`;
+          body += `* Each port is tied to ground through 1G so the netlist stays solvable.\n`;
+          ports.forEach((port, n) => { body += `Rleak${n+1} ${port} 0 1g\n`; });
+          body += `.ends ${subcktName}\n\n`;
+          subckts[subcktName] = body;
+          if (!unmodelled.includes(comp.name)) unmodelled.push(comp.name);
+      }
+      cir += `X${ref} ${nodes.join(' ')} ${subcktName}\n`;
+  });
+
+  const subcktDefs = Object.values(subckts);
+  if (subcktDefs.length > 0) {
+      cir += `\n* --- Subcircuit stubs ---\n`;
+      cir += subcktDefs.join('');
+  }
+
+  cir += `\n.op\n.end\n`;
+
+  return { netlist: cir, unmodelled };
+};
+
+// --- Netlists (connectivity only) ---
+
+interface ResolvedNet {
+  name: string;
+  nodes: { comp: ComponentItem, pin: PinDefinition, ref: string }[];
+}
+
+/**
+ * Resolves every NetConnection to a component pin, merging nets whose sanitised names
+ * collide and dropping connections that point at unknown components or pins.
+ * Differential pair halves are named <pair>_P / <pair>_N for the layout tool.
+ */
+const resolveNets = (data: SchematicData): ResolvedNet[] => {
+  const refs = getDesignators(data.components);
+  const byName: Record<string, ResolvedNet> = {};
+
+  data.nets.forEach(net => {
+      const name = cleanName(exportNetName(net));
+      if (!byName[name]) byName[name] = { name, nodes: [] };
+
+      net.connections.forEach(conn => {
+          const comp = data.components.find(c => c.id === conn.componentId);
+          const pin = comp && findPin(comp, conn.pin);
+          if (!comp || !pin) return;
+          if (byName[name].nodes.some(n => n.comp === comp && n.pin === pin)) return;
+          byName[name].nodes.push({ comp, pin, ref: refs[comp.id] });
+      });
+  });
+
+  return Object.values(byName).filter(n => n.nodes.length > 0);
+};
+
+/**
+ * Generates a KiCad netlist (.net, S-Expression format "E") for Pcbnew / "Import Netlist".
+ * Output contains no timestamps so the same project always yields identical files.
+ */
+export const generateKiCadNetlist = (data: SchematicData, projectName: string = 'AutoSchematic'): string => {
+  const refs = getDesignators(data.components);
+  const symbolNames = getSymbolNames(data.components);
+
+  let net = `(export (version "E")\n`;
+  net += `  (design\n`;
+  net += `    (source ${kicadString(`${cleanName(projectName)}.kicad_sch`)})\n`;
+  net += `    (tool "AutoSchematic AI"))\n`;
+
+  net += `  (components\n`;
+  data.components.forEach(comp => {
+      const datasheet = comp.datasheetUrl?.startsWith('data:') ? '' : (comp.datasheetUrl || '');
+      net += `    (comp (ref ${kicadString(refs[comp.id])})\n`;
+      net += `      (value ${kicadString(comp.name)})\n`;
+      net += `      (footprint ${kicadString(cleanName(comp.footprintType || ''))})\n`;
+      net += `      (datasheet ${kicadString(datasheet)})\n`;
+      net += `      (libsource (lib "AutoSchematic") (part ${kicadString(symbolNames[comp.id])}) (description ${kicadString(comp.description || '')})))\n`;
+  });
+  net += `  )\n`;
+
+  net += `  (libparts\n`;
+  data.components.forEach(comp => {
+      net += `    (libpart (lib "AutoSchematic") (part ${kicadString(symbolNames[comp.id])})\n`;
+      net += `      (footprints (fp ${kicadString(cleanName(comp.footprintType || ''))}))\n`;
+      net += `      (pins\n`;
+      (comp.pins || []).forEach(pin => {
+          net += `        (pin (num ${kicadString(String(pin.pinNumber))}) (name ${kicadString(pin.name)}) (type ${kicadString(KICAD_PIN_TYPES[pin.type] || 'unspecified')}))\n`;
+      });
+      net += `      ))\n`;
+  });
+  net += `  )\n`;
+
+  net += `  (nets\n`;
+  resolveNets(data).forEach((n, i) => {
+      net += `    (net (code ${kicadString(String(i + 1))}) (name ${kicadString(`/${n.name}`)})\n`;
+      n.nodes.forEach(node => {
+          net += `      (node (ref ${kicadString(node.ref)}) (pin ${kicadString(String(node.pin.pinNumber))}) (pinfunction ${kicadString(node.pin.name)}) (pintype ${kicadString(KICAD_PIN_TYPES[node.pin.type] || 'unspecified')}))\n`;
+      });
+      net += `    )\n`;
+  });
+  net += `  )\n`;
+  net += `)\n`;
+
+  return net;
+};
+
+/**
+ * Generates a Cadence Telesis netlist ($PACKAGES / $NETS) for Allegro and other
+ * Telesis-compatible layout tools. Long net lines are wrapped with the "," continuation.
+ */
+export const generateTelesisNetlist = (data: SchematicData): string => {
+  const refs = getDesignators(data.components);
+
+  let tel = `$PACKAGES\n`;
+  const packages: Record<string, string[]> = {};
+  data.components.forEach(comp => {
+      const key = `${cleanName(comp.footprintType || 'UNKNOWN')} ! ${cleanName(comp.name)}`;
+      if (!packages[key]) packages[key] = [];
+      packages[key].push(refs[comp.id]);
+  });
+  Object.entries(packages).forEach(([key, partRefs]) => {
+      tel += `${key} ; ${partRefs.join(' ')}\n`;
+  });
+
+  tel += `$NETS\n`;
+  resolveNets(data).forEach(n => {
+      const pins = n.nodes.map(node => `${node.ref}.${cleanName(String(node.pin.pinNumber))}`);
+      let line = `${n.name} ;`;
+      pins.forEach(pin => {
+          if (line.length + pin.length + 1 > 80) {
+              tel += `${line} ,\n`;
+              line = ` `;
+          }
+          line += ` ${pin}`;
+      });
+      tel += `${line}\n`;
+  });
+  tel += `$END\n`;
+
+  return tel;
+};
+
+// EDIF identifiers are [A-Za-z0-9_] and may not start with a digit ('&' escapes that).
+const edifId = (name: string) => {
+  const id = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[a-zA-Z]/.test(id) ? id : `&${id}`;
+};
+
+// Uses (rename id "original") whenever sanitising changed the name.
+const edifName = (name: string) => {
+  const id = edifId(name);
+  return id === name ? id : `(rename ${id} ${kicadString(name)})`;
+};
+
+/**
+ * Generates an EDIF 2.0.0 netlist: one library cell per component (parts sharing a name
+ * may differ in pinout, so they get suffixed cells) with its pins as ports, and a
+ * top-level design cell holding the instances and nets.
+ */
+export const generateEdifNetlist = (data: SchematicData, projectName: string = 'AutoSchematic'): string => {
+  const refs = getDesignators(data.components);
+  const symbolNames = getSymbolNames(data.components);
+  const design = edifId(cleanName(projectName));
+  const portId = (pin: PinDefinition) => edifId(`P${cleanName(String(pin.pinNumber))}`);
+
+  let edif = `(edif ${design}\n`;
+  edif += `  (edifVersion 2 0 0)\n`;
+  edif += `  (edifLevel 0)\n`;
+  edif += `  (keywordMap (keywordLevel 0))\n`;
+
+  edif += `  (library AutoSchematic\n`;
+  edif += `    (edifLevel 0)\n`;
+  edif += `    (technology (numberDefinition))\n`;
+  data.components.forEach(comp => {
+      edif += `    (cell ${edifName(symbolNames[comp.id])} (cellType GENERIC)\n`;
+      edif += `      (view netlistView (viewType NETLIST)\n`;
+      edif += `        (interface\n`;
+      (comp.pins || []).forEach(pin => {
+          edif += `          (port (rename ${portId(pin)} ${kicadString(pin.name)}) (designator ${kicadString(String(pin.pinNumber))}))\n`;
+      });
+      edif += `        )))\n`;
+  });
+  edif += `  )\n`;
+
+  edif += `  (library DESIGNS\n`;
+  edif += `    (edifLevel 0)\n`;
+  edif += `    (technology (numberDefinition))\n`;
+  edif += `    (cell ${design} (cellType GENERIC)\n`;
+  edif += `      (view netlistView (viewType NETLIST)\n`;
+  edif += `        (interface)\n`;
+  edif += `        (contents\n`;
+  data.components.forEach(comp => {
+      edif += `          (instance ${edifId(refs[comp.id])}\n`;
+      edif += `            (viewRef netlistView (cellRef ${edifId(symbolNames[comp.id])} (libraryRef AutoSchematic)))\n`;
+      edif += `            (property VALUE (string ${kicadString(comp.name)}))\n`;
+      edif += `            (property PACKAGE (string ${kicadString(cleanName(comp.footprintType || ''))})))\n`;
+  });
+  resolveNets(data).forEach(n => {
+      edif += `          (net ${edifName(n.name)}\n`;
+      edif += `            (joined\n`;
+      n.nodes.forEach(node => {
+          edif += `              (portRef ${portId(node.pin)} (instanceRef ${edifId(node.ref)}))\n`;
+      });
+      edif += `            ))\n`;
+  });
+  edif += `        ))))\n`;
+  edif += `  (design ${design} (cellRef ${design} (libraryRef DESIGNS)))\n`;
+  edif += `)\n`;
+
+  return edif;
+};
@@ -0,0 +1,433 @@
+import { ComponentItem } from '../types';
+
+/**
+ * IPC-7351B land pattern generator (nominal density level "N").
+ *
+ * Patterns are built in millimetres with Y pointing down (KiCad footprint convention),
+ * centred on the body, pin 1 at the top-left. The Eagle writer flips Y on output.
+ */
+
+export type PackageFamily = 'SOIC' | 'QFN' | 'DFN' | 'DIP' | 'SOT23' | 'CHIP';
+
+export interface LandPad {
+  name: string;
+  x: number;
+  y: number;
+  w: number; // Size along X
+  h: number; // Size along Y
+  shape: 'rect' | 'roundrect' | 'circle' | 'oval';
+  drill?: number; // Through-hole only
+}
+
+export interface Segment {
+  x1: number; y1: number; x2: number; y2: number;
+}
+
+export interface LandPattern {
+  name: string;         // e.g. "SOIC-8_3.9x4.9mm_P1.27mm"
+  family: PackageFamily;
+  description: string;
+  pads: LandPad[];
+  body: { w: number, h: number };
+  courtyard: { w: number, h: number };
+  silkscreen: Segment[];
+  pin1Marker?: { x: number, y: number };
+  isThroughHole: boolean;
+}
+
+export interface FootprintResult {
+  pattern: LandPattern | null;
+  warnings: string[];
+}
+
+interface PackageInfo {
+  family: PackageFamily;
+  variant: string;       // e.g. "TSSOP", "0603", "VQFN"
+  pinCount: number;
+  explicitSize?: { a: number, b: number }; // "5x5" in the package name
+}
+
+// IPC-7351B solder fillet goals, nominal density (toe, heel, side)
+const GULL_WING = { toe: 0.35, heel: 0.35, side: 0.03 };
+const GULL_WING_FINE = { toe: 0.35, heel: 0.35, side: -0.02 }; // pitch <= 0.625mm
+const NO_LEAD = { toe: 0.3, heel: 0.05, side: 0 };
+const COURTYARD_EXCESS = 0.25;
+const SILK_WIDTH = 0.12;
+const SILK_CLEARANCE = 0.2;
+
+// Standard chip land patterns (pad size and centre offset), matching common IPC-7351 libraries
+const CHIP_PATTERNS: Record<string, { body: { w: number, h: number }, pad: { w: number, h: number }, cx: number, metric: string }> = {
+  '0402': { body: { w: 1.0, h: 0.5 }, pad: { w: 0.59, h: 0.64 }, cx: 0.485, metric: '1005' },
+  '0603': { body: { w: 1.6, h: 0.8 }, pad: { w: 0.8, h: 0.95 }, cx: 0.825, metric: '1608' },
+  '0805': { body: { w: 2.0, h: 1.25 }, pad: { w: 1.025, h: 1.4 }, cx: 0.9125, metric: '2012' }
+};
+
+const round = (n: number, step = 0.01) => Math.round(n / step) * step;
+const roundUp = (n: number, step = 0.05) => Math.ceil(n / step - 1e-9) * step;
+const mm = (n: number) => Number(n.toFixed(3)).toString();
+
+/**
+ * Identifies the package family and pin count from a package name such as
+ * "SOIC-8", "TSSOP20", "QFN-32 5x5", "SOT-23-5", "DIP-14" or "0603".
+ */
+export const parsePackageType = (packageType: string): PackageInfo | null => {
+  const text = packageType.toUpperCase();
+  const size = text.match(/(\d+(?:\.\d+)?)\s*[X×]\s*(\d+(?:\.\d+)?)/);
+  const explicitSize = size ? { a: parseFloat(size[1]), b: parseFloat(size[2]) } : undefined;
+
+  const chip = text.match(/(?:^|[^0-9])(0402|0603|0805)(?![0-9])/);
+  if (chip) return { family: 'CHIP', variant: chip[1], pinCount: 2 };
+
+  const sot = text.match(/SOT-?23(?:-(\d))?/);
+  if (sot) return { family: 'SOT23', variant: 'SOT-23', pinCount: sot[1] ? parseInt(sot[1]) : 3 };
+
+  const qfn = text.match(/([VWUX]?)(QFN|DFN|SON)[-_ ]?(\d+)/);
+  if (qfn) return { family: qfn[2] === 'QFN' ? 'QFN' : 'DFN', variant: `${qfn[1]}${qfn[2]}`, pinCount: parseInt(qfn[3]), explicitSize };
+
+  const dip = text.match(/P?DIP[-_ ]?(\d+)/);
+  if (dip) return { family: 'DIP', variant: 'DIP', pinCount: parseInt(dip[1]), explicitSize };
+
+  const so = text.match(/(TSSOP|SSOP|MSOP|SOIC|SOP|SO)[-_ ]?(\d+)/);
+  if (so) return { family: 'SOIC', variant: so[1], pinCount: parseInt(so[2]), explicitSize };
+
+  return null;
+};
+
+// Pad centre and length from IPC-7351 Z/G: Z = span + 2*toe, G = span - 2*lead - 2*heel
+const gullWingPad = (span: number, leadLength: number, fillet: { toe: number, heel: number }) => {
+  const z = span + 2 * fillet.toe;
+  const g = Math.max(span - 2 * leadLength - 2 * fillet.heel, 0.2);
+  return { length: round((z - g) / 2), centre: round((z + g) / 4) };
+};
+
+const courtyardOf = (pads: LandPad[], body: { w: number, h: number }) => {
+  const maxX = Math.max(body.w / 2, ...pads.map(p => Math.abs(p.x) + p.w / 2));
+  const maxY = Math.max(body.h / 2, ...pads.map(p => Math.abs(p.y) + p.h / 2));
+  return { w: roundUp(2 * (maxX + COURTYARD_EXCESS)), h: roundUp(2 * (maxY + COURTYARD_EXCESS)) };
+};
+
+/**
+ * Dual-row families (SOIC/SOP, SOT-23, DIP): silkscreen along the body ends, kept clear
+ * of the pads, plus a pin-1 line extending to the outer edge of pad 1.
+ */
+const dualRowSilk = (pads: LandPad[], body: { w: number, h: number }): Segment[] => {
+  const padExtentY = Math.max(...pads.map(p => Math.abs(p.y) + p.h / 2));
+  const y = Math.max(body.h / 2, padExtentY + SILK_CLEARANCE) + SILK_WIDTH / 2;
+  const x = body.w / 2;
+  const pin1 = pads[0];
+  return [
+    { x1: -x, y1: -y, x2: x, y2: -y },
+    { x1: -x, y1: y, x2: x, y2: y },
+    { x1: -x, y1: -y, x2: round(pin1.x - pin1.w / 2), y2: -y }
+  ];
+};
+
+const buildDualRow = (info: PackageInfo, comp: ComponentItem, warnings: string[]): LandPattern => {
+  const specs = comp.physicalSpecs;
+  const isSot = info.family === 'SOT23';
+  const isDip = info.family === 'DIP';
+  const fine = ['TSSOP', 'SSOP', 'MSOP'].includes(info.variant);
+
+  const pitch = isSot ? 0.95 : isDip ? 2.54 : (specs?.pinPitchMm && specs.pinPitchMm > 0 ? specs.pinPitchMm : (fine ? 0.65 : 1.27));
+  const perSide = isSot ? 3 : Math.ceil(info.pinCount / 2);
+  const need = perSide * pitch;
+
+  // Pick the body dimension closest to the row length as "along"; the other is across the rows
+  let along = need;
+  let across = isSot ? 1.3 : isDip ? 6.35 : (pitch >= 1 ? 3.9 : 4.4);
+  const dims = info.explicitSize ? [info.explicitSize.a, info.explicitSize.b] : [specs?.widthMm || 0, specs?.heightMm || 0];
+  if (!isSot && dims[0] > 0 && dims[1] > 0) {
+    const [a, b] = dims;
+    along = Math.abs(a - need) <= Math.abs(b - need) ? a : b;
+    across = along === a ? b : a;
+  }
+  if (isSot) along = 2.9;
+
+  const pads: LandPad[] = [];
+
+  if (isDip) {
+    const rowSpacing = across > 10 || info.pinCount > 28 ? 15.24 : 7.62;
+    for (let i = 0; i < info.pinCount; i++) {
+      const onLeft = i < perSide;
+      const idx = onLeft ? i : perSide - 1 - (i - perSide);
+      pads.push({
+        name: String(i + 1),
+        x: onLeft ? -rowSpacing / 2 : rowSpacing / 2,
+        y: round((idx - (perSide - 1) / 2) * pitch, 0.001),
+        w: i === 0 ? 1.6 : 2.4,
+        h: 1.6,
+        shape: i === 0 ? 'rect' : 'oval',
+        drill: 0.8
+      });
+    }
+    const body = { w: round(rowSpacing - 1.27), h: round(Math.max(along, need)) };
+    return {
+      name: `DIP-${info.pinCount}_W${rowSpacing.toFixed(2)}mm`,
+      family: 'DIP',
+      description: `${info.pinCount}-lead through-hole DIP, ${rowSpacing}mm row spacing`,
+      pads,
+      body,
+      courtyard: courtyardOf(pads, body),
+      silkscreen: dualRowSilk(pads, body),
+      pin1Marker: { x: pads[0].x - 2, y: pads[0].y },
+      isThroughHole: true
+    };
+  }
+
+  const span = isSot ? 2.4 : across + 2 * (pitch >= 1 ? 1.05 : 1.0);
+  const leadLength = isSot ? 0.45 : pitch >= 1 ? 0.835 : 0.6;
+  const leadWidth = isSot ? 0.4 : pitch >= 1.27 ? 0.41 : pitch >= 0.65 ? 0.245 : round(pitch * 0.45);
+  const fillet = pitch > 0.625 ? GULL_WING : GULL_WING_FINE;
+  const pad = gullWingPad(span, leadLength, fillet);
+  const padW = round(Math.min(leadWidth + 2 * fillet.side, pitch - 0.2));
+
+  const addPad = (name: number, left: boolean, y: number) => pads.push({
+    name: String(name), x: left ? -pad.centre : pad.centre, y: round(y, 0.001), w: pad.length, h: padW, shape: 'roundrect'
+  });
+
+  if (isSot) {
+    // SOT-23-3: 1,2 left / 3 right; SOT-23-5: 1,2,3 left / 4,5 right; SOT-23-6: 1,2,3 left / 4,5,6 right
+    if (info.pinCount === 3) {
+      addPad(1, true, -pitch); addPad(2, true, pitch); addPad(3, false, 0);
+    } else {
+      addPad(1, true, -pitch); addPad(2, true, 0); addPad(3, true, pitch);
+      addPad(4, false, pitch);
+      if (info.pinCount === 6) { addPad(5, false, 0); addPad(6, false, -pitch); } else { addPad(5, false, -pitch); }
+    }
+  } else {
+    for (let i = 0; i < info.pinCount; i++) {
+      const onLeft = i < perSide;
+      const idx = onLeft ? i : perSide - 1 - (i - perSide);
+      addPad(i + 1, onLeft, (idx - (perSide - 1) / 2) * pitch);
+    }
+  }
+
+  const body = { w: round(across), h: round(along) };
+  if (!isSot && along < (perSide - 1) * pitch + padW) {
+    warnings.push(`Body length ${along}mm is shorter than the pad row (${mm((perSide - 1) * pitch + padW)}mm); check physicalSpecs.`);
+  }
+
+  const name = isSot
+    ? `SOT-23${info.pinCount === 3 ? '' : `-${info.pinCount}`}`
+    : `${info.variant}-${info.pinCount}_${mm(across)}x${mm(along)}mm_P${mm(pitch)}mm`;
+
+  return {
+    name,
+    family: info.family,
+    description: `${name}, IPC-7351B nominal (pad ${mm(pad.length)}x${mm(padW)}mm)`,
+    pads,
+    body,
+    courtyard: courtyardOf(pads, body),
+    silkscreen: dualRowSilk(pads, body),
+    pin1Marker: { x: round(pads[0].x - pads[0].w / 2 - 0.3), y: pads[0].y },
+    isThroughHole: false
+  };
+};
+
+const buildNoLead = (info: PackageInfo, comp: ComponentItem): LandPattern => {
+  const specs = comp.physicalSpecs;
+  const isDfn = info.family === 'DFN';
+  const pitch = specs?.pinPitchMm && specs.pinPitchMm > 0 && specs.pinPitchMm < 1.5 ? specs.pinPitchMm : 0.5;
+  const perSide = isDfn ? Math.ceil(info.pinCount / 2) : Math.ceil(info.pinCount / 4);
+
+  const fallback = perSide * pitch + 1.0;
+  const size = info.explicitSize || (specs?.widthMm && specs.heightMm ? { a: specs.widthMm, b: specs.heightMm } : { a: fallback, b: fallback });
+  const body = { w: size.a, h: size.b };
+
+  const leadLength = 0.4;
+  const leadWidth = pitch <= 0.5 ? 0.25 : round(pitch * 0.5);
+  const padW = round(Math.min(leadWidth + 2 * NO_LEAD.side, pitch - 0.2));
+
+  const padsFor = (bodyDim: number) => {
+    const z = bodyDim + 2 * NO_LEAD.toe;
+    const g = bodyDim - 2 * leadLength - 2 * NO_LEAD.heel;
+    return { length: round((z - g) / 2), centre: round((z + g) / 4) };
+  };
+  const xPad = padsFor(body.w);
+  const yPad = padsFor(body.h);
+  const offset = (idx: number) => round((idx - (perSide - 1) / 2) * pitch, 0.001);
+
+  const pads: LandPad[] = [];
+  let n = 1;
+  // Counter-clockwise from pin 1 at the top of the left side
+  for (let i = 0; i < perSide; i++) pads.push({ name: String(n++), x: -xPad.centre, y: offset(i), w: xPad.length, h: padW, shape: 'roundrect' });
+  if (!isDfn) for (let i = 0; i < perSide; i++) pads.push({ name: String(n++), x: offset(i), y: yPad.centre, w: padW, h: yPad.length, shape: 'roundrect' });
+  for (let i = perSide - 1; i >= 0; i--) pads.push({ name: String(n++), x: xPad.centre, y: offset(i), w: xPad.length, h: padW, shape: 'roundrect' });
+  if (!isDfn) for (let i = perSide - 1; i >= 0; i--) pads.push({ name: String(n++), x: offset(i), y: -yPad.centre, w: padW, h: yPad.length, shape: 'roundrect' });
+
+  // Exposed pad: use the component's EP/PAD pin number if it has one
+  const epPin = (comp.pins || []).find(p => /^(EP|PAD|EPAD|THERMAL|PGND_PAD)$/i.test(p.name) || String(p.pinNumber) === String(info.pinCount + 1));
+  const epW = round(body.w - 2 * leadLength - 0.8);
+  const epH = round(body.h - 2 * leadLength - 0.8);
+  if (epW > 0.5 && epH > 0.5) {
+    pads.push({ name: epPin ? String(epPin.pinNumber) : String(info.pinCount + 1), x: 0, y: 0, w: epW, h: epH, shape: 'rect' });
+  }
+
+  // Corner brackets, stopping short of the outermost pads
+  const hx = body.w / 2 + SILK_WIDTH / 2;
+  const hy = body.h / 2 + SILK_WIDTH / 2;
+  const rowEnd = ((perSide - 1) / 2) * pitch + padW / 2 + SILK_CLEARANCE;
+  const bx = Math.max(hx - (isDfn ? 0 : rowEnd), 0);
+  const by = Math.max(hy - rowEnd, 0);
+  const silkscreen: Segment[] = [];
+  [[-1, -1], [1, -1], [1, 1], [-1, 1]].forEach(([sx, sy]) => {
+    if (bx > 0.1) silkscreen.push({ x1: sx * hx, y1: sy * hy, x2: sx * (hx - bx), y2: sy * hy });
+    if (by > 0.1) silkscreen.push({ x1: sx * hx, y1: sy * hy, x2: sx * hx, y2: sy * (hy - by) });
+  });
+
+  const name = `${info.variant}-${info.pinCount}-1EP_${mm(body.w)}x${mm(body.h)}mm_P${mm(pitch)}mm`;
+  return {
+    name,
+    family: info.family,
+    description: `${name}, IPC-7351B nominal, exposed pad ${mm(epW)}x${mm(epH)}mm`,
+    pads,
+    body,
+    courtyard: courtyardOf(pads, body),
+    silkscreen,
+    pin1Marker: { x: round(-xPad.centre - xPad.length / 2 - 0.3), y: pads[0].y },
+    isThroughHole: false
+  };
+};
+
+const buildChip = (info: PackageInfo, comp: ComponentItem): LandPattern => {
+  const chip = CHIP_PATTERNS[info.variant];
+  const pads: LandPad[] = [
+    { name: '1', x: -chip.cx, y: 0, w: chip.pad.w, h: chip.pad.h, shape: 'roundrect' },
+    { name: '2', x: chip.cx, y: 0, w: chip.pad.w, h: chip.pad.h, shape: 'roundrect' }
+  ];
+  // Silkscreen only where it fits between the pads (not on 0402)
+  const gap = chip.cx * 2 - chip.pad.w - 2 * SILK_CLEARANCE;
+  const y = chip.pad.h / 2 + SILK_CLEARANCE;
+  const silkscreen: Segment[] = gap > 0.2
+    ? [{ x1: -gap / 2, y1: -y, x2: gap / 2, y2: -y }, { x1: -gap / 2, y1: y, x2: gap / 2, y2: y }]
+    : [];
+
+  const prefix = /capacitor|\bcap/i.test(comp.name) ? 'C' : /inductor|ferrite/i.test(comp.name) ? 'L' : 'R';
+  const name = `${prefix}_${info.variant}_${chip.metric}Metric`;
+  return {
+    name,
+    family: 'CHIP',
+    description: `${info.variant} (${chip.metric} metric) chip, IPC-7351B nominal`,
+    pads,
+    body: chip.body,
+    courtyard: courtyardOf(pads, chip.body),
+    silkscreen,
+    isThroughHole: false
+  };
+};
+
+/**
+ * Generates an IPC-7351B land pattern from a component's PhysicalSpecs.packageType
+ * (falling back to footprintType). Returns warnings for unsupported packages and for a
+ * pin count implied by the package that disagrees with the component's pins.
+ */
+export const generateLandPattern = (comp: ComponentItem): FootprintResult => {
+  const warnings: string[] = [];
+  const packageType = comp.physicalSpecs?.packageType || comp.footprintType || '';
+  const info = parsePackageType(packageType) || parsePackageType(comp.footprintType || '');
+
+  if (!info) {
+    warnings.push(`Unsupported package "${packageType || 'unknown'}" for ${comp.name}; no land pattern generated.`);
+    return { pattern: null, warnings };
+  }
+
+  const pinCount = (comp.pins || []).length;
+  const hasExposedPad = info.family === 'QFN' || info.family === 'DFN';
+  if (pinCount > 0 && pinCount !== info.pinCount && !(hasExposedPad && pinCount === info.pinCount + 1)) {
+    warnings.push(`${comp.name}: package ${packageType} implies ${info.pinCount} pins but the symbol has ${pinCount}.`);
+  }
+
+  let pattern: LandPattern;
+  switch (info.family) {
+    case 'CHIP': pattern = buildChip(info, comp); break;
+    case 'QFN':
+    case 'DFN': pattern = buildNoLead(info, comp); break;
+    default: pattern = buildDualRow(info, comp, warnings);
+  }
+  return { pattern, warnings };
+};
+
+// --- KiCad (.kicad_mod) ---
+
+const kicadString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Writes a land pattern as a KiCad 7/8 footprint (.kicad_mod).
+ */
+export const generateKiCadFootprint = (pattern: LandPattern, value: string = pattern.name): string => {
+  const cy = pattern.courtyard;
+  const font = `(effects (font (size 1 1) (thickness 0.15)))`;
+
+  let mod = `(footprint ${kicadString(pattern.name)} (version 20221018) (generator pcbnew)\n`;
+  mod += `  (layer "F.Cu")\n`;
+  mod += `  (descr ${kicadString(pattern.description)})\n`;
+  mod += `  (tags ${kicadString(`${pattern.family} IPC-7351`)})\n`;
+  mod += `  (attr ${pattern.isThroughHole ? 'through_hole' : 'smd'})\n`;
+  mod += `  (fp_text reference "REF**" (at 0 ${mm(-cy.h / 2 - 1)}) (layer "F.SilkS") ${font})\n`;
+  mod += `  (fp_text value ${kicadString(value)} (at 0 ${mm(cy.h / 2 + 1)}) (layer "F.Fab") ${font})\n`;
+
+  pattern.silkscreen.forEach(s => {
+    mod += `  (fp_line (start ${mm(s.x1)} ${mm(s.y1)}) (end ${mm(s.x2)} ${mm(s.y2)}) (stroke (width ${SILK_WIDTH}) (type solid)) (layer "F.SilkS"))\n`;
+  });
+  if (pattern.pin1Marker) {
+    const m = pattern.pin1Marker;
+    mod += `  (fp_circle (center ${mm(m.x)} ${mm(m.y)}) (end ${mm(m.x + 0.1)} ${mm(m.y)}) (stroke (width ${SILK_WIDTH}) (type solid)) (fill solid) (layer "F.SilkS"))\n`;
+  }
+  mod += `  (fp_rect (start ${mm(-pattern.body.w / 2)} ${mm(-pattern.body.h / 2)}) (end ${mm(pattern.body.w / 2)} ${mm(pattern.body.h / 2)}) (stroke (width 0.1) (type solid)) (fill none) (layer "F.Fab"))\n`;
+  mod += `  (fp_rect (start ${mm(-cy.w / 2)} ${mm(-cy.h / 2)}) (end ${mm(cy.w / 2)} ${mm(cy.h / 2)}) (stroke (width 0.05) (type solid)) (fill none) (layer "F.CrtYd"))\n`;
+
+  pattern.pads.forEach(p => {
+    if (p.drill) {
+      mod += `  (pad ${kicadString(p.name)} thru_hole ${p.shape} (at ${mm(p.x)} ${mm(p.y)}) (size ${mm(p.w)} ${mm(p.h)}) (drill ${mm(p.drill)}) (layers "*.Cu" "*.Mask"))\n`;
+    } else {
+      const rratio = p.shape === 'roundrect' ? ' (roundrect_rratio 0.25)' : '';
+      mod += `  (pad ${kicadString(p.name)} smd ${p.shape} (at ${mm(p.x)} ${mm(p.y)}) (size ${mm(p.w)} ${mm(p.h)}) (layers "F.Cu" "F.Paste" "F.Mask")${rratio})\n`;
+    }
+  });
+  mod += `)\n`;
+  return mod;
+};
+
+// --- Eagle (<package>) ---
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Writes a land pattern as an Eagle <package> element. Eagle is Y-up, so Y is negated.
+ * Courtyard goes on tKeepout (39) and the body outline on tDocu (51).
+ */
+export const generateEaglePackage = (pattern: LandPattern, packageName: string = pattern.name): string => {
+  const y = (v: number) => mm(v === 0 ? 0 : -v);
+  const cy = pattern.courtyard;
+  const b = pattern.body;
+  const rect = (w: number, h: number, width: number, layer: number) => [
+    [-w / 2, -h / 2, w / 2, -h / 2], [w / 2, -h / 2, w / 2, h / 2], [w / 2, h / 2, -w / 2, h / 2], [-w / 2, h / 2, -w / 2, -h / 2]
+  ].map(([x1, y1, x2, y2]) => `<wire x1="${mm(x1)}" y1="${y(y1)}" x2="${mm(x2)}" y2="${y(y2)}" width="${width}" layer="${layer}"/>\n`).join('');
+
+  let pkg = `<package name="${escapeXml(packageName)}">\n`;
+  pkg += `<description>${escapeXml(pattern.description)}</description>\n`;
+  pattern.pads.forEach(p => {
+    if (p.drill) {
+      const shape = p.shape === 'rect' ? 'square' : p.shape === 'oval' ? 'long' : 'round';
+      pkg += `<pad name="${escapeXml(p.name)}" x="${mm(p.x)}" y="${y(p.y)}" drill="${mm(p.drill)}" diameter="${mm(Math.min(p.w, p.h))}" shape="${shape}"/>\n`;
+    } else {
+      pkg += `<smd name="${escapeXml(p.name)}" x="${mm(p.x)}" y="${y(p.y)}" dx="${mm(p.w)}" dy="${mm(p.h)}" layer="1"${p.shape === 'roundrect' ? ' roundness="25"' : ''}/>\n`;
+    }
+  });
+  pattern.silkscreen.forEach(s => {
+    pkg += `<wire x1="${mm(s.x1)}" y1="${y(s.y1)}" x2="${mm(s.x2)}" y2="${y(s.y2)}" width="${SILK_WIDTH}" layer="21"/>\n`;
+  });
+  if (pattern.pin1Marker) {
+    pkg += `<circle x="${mm(pattern.pin1Marker.x)}" y="${y(pattern.pin1Marker.y)}" radius="0.1" width="0.2" layer="21"/>\n`;
+  }
+  pkg += rect(b.w, b.h, 0.1, 51);
+  pkg += rect(cy.w, cy.h, 0.05, 39);
+  pkg += `<text x="${mm(-cy.w / 2)}" y="${mm(cy.h / 2 + 0.5)}" size="1" layer="25">&gt;NAME</text>\n`;
+  pkg += `<text x="${mm(-cy.w / 2)}" y="${mm(-cy.h / 2 - 1.5)}" size="1" layer="27">&gt;VALUE</text>\n`;
+  pkg += `</package>\n`;
+  return pkg;
+};
@@ -0,0 +1,68 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import type { LlmProvider, LlmSchema } from './llmProvider';
+
+const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const TYPES: Record<LlmSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: LlmSchema): Schema => ({
+  type: TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(
+    Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+  )
+});
+
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModels: {
+    bom: 'gemini-2.5-flash',
+    search: 'gemini-2.5-flash',
+    extraction: 'gemini-2.5-flash',
+    datasheet: 'gemini-3-pro-preview', // Pro for complex reasoning and PDF analysis
+    compatibility: 'gemini-3-pro-preview',
+    netlist: 'gemini-3-pro-preview',
+    pins: 'gemini-3-pro-preview',
+    edit: 'gemini-3-pro-preview'
+  },
+
+  async generate(request) {
+    const ai = getAI();
+    const files = request.files || [];
+
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: files.length > 0
+        ? { parts: [...files.map(inlineData => ({ inlineData })), { text: request.prompt }] }
+        : request.prompt,
+      config: {
+        abortSignal: request.signal,
+        // Gemini does not allow search tools together with a response schema
+        ...(request.searchGrounding ? { tools: [{ googleSearch: {} }] } : {}),
+        ...(request.responseSchema && !request.searchGrounding ? {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.responseSchema)
+        } : {})
+      }
+    });
+
+    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    return {
+      text: response.text || "",
+      sources: chunks
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ uri: chunk.web!.uri!, title: chunk.web!.title }))
+    };
+  }
+};
@@ -1,8 +1,105 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
 import { ComponentItem, Net, PinDefinition, CompatibilityReport, PhysicalSpecs } from "../types";
+import { LLM_STAGES, LlmRequest, LlmSchema, LlmStage, getLlmSettings, resolveStage } from "./llmProvider";
+import { DesignEditPlan, mergeNets } from "./designService";
+import { normalizePins } from "./unitsService";
+import { pairDifferentialNets } from "./diffPairService";
+import { findPin } from "./componentRules";
+import { runSessionRequest } from "./sessionService";
+import { isCancelled, withRetry } from "./schedulerService";
+import {
+  Validated,
+  isObject,
+  validateBomComponents,
+  validateComponentData,
+  validateCompatibilityReport,
+  validateEditPlan,
+  validateNets,
+  validatePins
+} from "./validationService";
+
+export interface PipelineCallOptions {
+  onIssue?: (message: string) => void; // Failed calls and validation errors that survived the repair attempt
+  signal?: AbortSignal;                // Cancels in-flight calls; cancellation always rejects
+}
+
+const stageLabel = (stage: LlmStage) => LLM_STAGES.find(s => s.id === stage)?.label || stage;
+
+// Runs one pipeline stage on the provider and model configured in settings (or from a replayed session),
+// retrying rate limits, server errors and timeouts with backoff
+const generate = (stage: LlmStage, request: Omit<LlmRequest, 'stage' | 'model'>, options: PipelineCallOptions = {}) => {
+  const { provider, model } = resolveStage(stage);
+  const { maxRetries, timeoutMs } = getLlmSettings();
+  return withRetry(signal => runSessionRequest(provider, { ...request, stage, model, signal }), {
+    maxRetries,
+    timeoutMs,
+    signal: options.signal,
+    onRetry: (attempt, delayMs, error) => options.onIssue?.(
+      `${stageLabel(stage)}: ${(error as Error).message}; retry ${attempt}/${maxRetries} in ${(delayMs / 1000).toFixed(1)}s`
+    )
+  });
+};
+
+// Reports a failed call unless the run was cancelled, in which case the cancellation propagates
+const reportFailure = (stage: LlmStage, error: unknown, options: PipelineCallOptions) => {
+  if (isCancelled(error, options.signal)) throw error;
+  options.onIssue?.(`${stageLabel(stage)} failed: ${(error as Error).message}`);
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text || "{}");
+  } catch {
+    return undefined;
+  }
+};
+
+const buildRepairPrompt = (prompt: string, previous: string, errors: string[]) => `
+    Your previous JSON response failed validation. Fix exactly these problems:
+    ${errors.map(e => `- ${e}`).join('\n    ')}
 
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+    Keep every correct part of the response unchanged and return the complete corrected JSON.
+
+    Previous response:
+    ${previous}
+
+    Original request:
+    ${prompt}
+  `;
+
+/**
+ * Runs a structured stage and validates the payload. On errors, one targeted repair
+ * request lists them back to the model; whatever is still wrong afterwards is
+ * sanitized away by the validator and reported through `onIssue`.
+ */
+const generateValidated = async <T>(
+  stage: LlmStage,
+  request: Omit<LlmRequest, 'stage' | 'model'>,
+  validate: (json: unknown) => Validated<T>,
+  options: PipelineCallOptions = {}
+): Promise<T> => {
+  const response = await generate(stage, request, options);
+  const json = parseJson(response.text);
+  let result = json === undefined
+    ? { ...validate(undefined), errors: ['response is not valid JSON'] }
+    : validate(json);
+  if (result.errors.length === 0) return result.value;
+
+  try {
+    const repair = await generate(stage, { ...request, prompt: buildRepairPrompt(request.prompt, response.text, result.errors) }, options);
+    const repairedJson = parseJson(repair.text);
+    if (repairedJson !== undefined) {
+      const repaired = validate(repairedJson);
+      if (repaired.errors.length <= result.errors.length) result = repaired;
+    }
+  } catch (error) {
+    if (isCancelled(error, options.signal)) throw error;
+    console.error(`Repair of ${stage} response failed:`, error);
+  }
+
+  result.errors.forEach(e => options.onIssue?.(`${stageLabel(stage)}: ${e}`));
+  return result.value;
+};
 
 // Helper to convert File to Base64
 export const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string, mimeType: string } }> => {
@@ -17,8 +114,7 @@ export const fileToGenerativePart = async (file: File): Promise<{ inlineData: {
 };
 
 // 1. Generate BOM (Context Aware)
-export const generateBOM = async (mainComponent: string, appDescription: string): Promise<ComponentItem[]> => {
-  const ai = getAI();
+export const generateBOM = async (mainComponent: string, appDescription: string, options: PipelineCallOptions = {}): Promise<ComponentItem[]> => {
   const prompt = `
     You are a Senior PCB Design Engineer. 
     Create a precise Bill of Materials (BOM) for:
@@ -39,52 +135,51 @@ export const generateBOM = async (mainComponent: string, appDescription: string)
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            components: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  footprintType: { type: Type.STRING },
-                  manufacturer: { type: Type.STRING }
-                },
-                required: ["name", "description", "footprintType"]
-              }
+    const components = await generateValidated('bom', {
+      prompt,
+      input: { mainComponent, appDescription },
+      responseSchema: {
+        type: 'object',
+        properties: {
+          components: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                description: { type: 'string' },
+                footprintType: { type: 'string' },
+                manufacturer: { type: 'string' }
+              },
+              required: ["name", "description", "footprintType"]
             }
           }
         }
       }
-    });
+    }, validateBomComponents, options);
 
-    const json = JSON.parse(response.text || "{}");
-    return (json.components || []).map((c: any, idx: number) => ({
+    if (components.length === 0) throw new Error("BOM response contained no components");
+    return components.map((c, idx) => ({
       ...c,
-      id: `comp_${idx}_${Math.random().toString(36).substr(2, 5)}`,
+      // Deterministic so replayed netlists still reference the right components
+      id: `comp_${idx}_${String(c.name).replace(/[^a-zA-Z0-9_-]/g, '_')}`,
       status: 'pending'
     }));
   } catch (error) {
+    if (isCancelled(error, options.signal)) throw error;
     console.error("BOM Generation Error:", error);
     throw new Error("Failed to generate BOM");
   }
 };
 
 // 2. Analyze Uploaded Datasheet PDF (Deep Extraction)
-export const analyzeDatasheetPDF = async (component: ComponentItem, file: File, appContext: string = ""): Promise<{ 
+export const analyzeDatasheetPDF = async (component: ComponentItem, file: File, appContext: string = "", options: PipelineCallOptions = {}): Promise<{ 
     pins: PinDefinition[], 
     report: string, 
     physicalSpecs: PhysicalSpecs, 
-    isolationRules: string[] 
+    isolationRules: string[],
+    fallback?: boolean // Analysis failed and the data is a generic stub
 }> => {
-  const ai = getAI();
   const filePart = await fileToGenerativePart(file);
 
   const prompt = `
@@ -122,90 +217,83 @@ export const analyzeDatasheetPDF = async (component: ComponentItem, file: File,
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview', // Using Pro for complex reasoning and PDF analysis
-      contents: {
-        parts: [
-          filePart,
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            physicalSpecs: {
-              type: Type.OBJECT,
+    const json = await generateValidated('datasheet', {
+      prompt,
+      files: [filePart.inlineData],
+      input: { componentName: component.name, appContext },
+      responseSchema: {
+        type: 'object',
+        properties: {
+          summary: { type: 'string' },
+          physicalSpecs: {
+            type: 'object',
+            properties: {
+              widthMm: { type: 'number' },
+              heightMm: { type: 'number' },
+              pinPitchMm: { type: 'number' },
+              packageType: { type: 'string' }
+            }
+          },
+          isolationRules: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          pins: {
+            type: 'array',
+            items: {
+              type: 'object',
               properties: {
-                widthMm: { type: Type.NUMBER },
-                heightMm: { type: Type.NUMBER },
-                pinPitchMm: { type: Type.NUMBER },
-                packageType: { type: Type.STRING }
-              }
-            },
-            isolationRules: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            },
-            pins: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  pinNumber: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: ['Power', 'Input', 'Output', 'IO', 'Clock', 'Passive'] },
-                  side: { type: Type.STRING, enum: ['left', 'right', 'top', 'bottom'] },
-                  description: { type: Type.STRING },
-                  electrical: {
-                    type: Type.OBJECT,
-                    properties: {
-                       minVoltage: { type: Type.STRING },
-                       maxVoltage: { type: Type.STRING },
-                       maxCurrent: { type: Type.STRING },
-                       signalType: { type: Type.STRING },
-                       behavior: { type: Type.STRING }
-                    }
+                pinNumber: { type: 'string' },
+                name: { type: 'string' },
+                type: { type: 'string', enum: ['Power', 'Input', 'Output', 'IO', 'Clock', 'Passive'] },
+                side: { type: 'string', enum: ['left', 'right', 'top', 'bottom'] },
+                description: { type: 'string' },
+                electrical: {
+                  type: 'object',
+                  properties: {
+                     minVoltage: { type: 'string' },
+                     maxVoltage: { type: 'string' },
+                     maxCurrent: { type: 'string' },
+                     signalType: { type: 'string' },
+                     behavior: { type: 'string' }
                   }
-                },
-                required: ["pinNumber", "name", "type", "side"]
-              }
+                }
+              },
+              required: ["pinNumber", "name", "type", "side"]
             }
           }
         }
       }
-    });
+    }, validateComponentData, options);
 
-    const json = JSON.parse(response.text || "{}");
     return { 
-        pins: json.pins || [], 
+        pins: normalizePins(json.pins), 
         report: json.summary || "Deep analysis complete.",
         physicalSpecs: json.physicalSpecs || { widthMm: 10, heightMm: 10, pinPitchMm: 2.54, packageType: "Unknown" },
-        isolationRules: json.isolationRules || []
+        isolationRules: json.isolationRules
     };
   } catch (error) {
+    reportFailure('datasheet', error, options);
     console.error("PDF Analysis Error:", error);
     // Fallback stub
     return { 
       pins: [{ pinNumber: "1", name: "VCC", type: "Power", side: "top" }, { pinNumber: "2", name: "GND", type: "Power", side: "bottom" }], 
       report: "Failed to parse PDF deeply. Using fallback data.",
       physicalSpecs: { widthMm: 10, heightMm: 10, pinPitchMm: 2.54, packageType: "Generic" },
-      isolationRules: []
+      isolationRules: [],
+      fallback: true
     };
   }
 };
 
 // 2b. Auto-Search Component Data (Web)
-export const searchComponentData = async (componentName: string, appContext: string = ""): Promise<{ 
+export const searchComponentData = async (componentName: string, appContext: string = "", options: PipelineCallOptions = {}): Promise<{ 
     pins: PinDefinition[], 
     datasheetUrl?: string, 
     description?: string,
     physicalSpecs?: PhysicalSpecs,
     isolationRules?: string[]
 }> => {
-  const ai = getAI();
   const prompt = `
     Find technical data for electronic component: "${componentName}".
     Application Context: "${appContext}".
@@ -218,15 +306,13 @@ export const searchComponentData = async (componentName: string, appContext: str
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }]
-      }
-    });
+    const response = await generate('search', {
+      prompt,
+      searchGrounding: true,
+      input: { componentName, appContext }
+    }, options);
 
-    const datasheetUrl = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.[0]?.web?.uri || "";
+    const datasheetUrl = response.sources[0]?.uri || "";
 
     const extractionPrompt = `
       Based on this search result:
@@ -236,42 +322,39 @@ export const searchComponentData = async (componentName: string, appContext: str
       Crucial: Physical Dimensions (mm) and Isolation Rules.
     `;
 
-    const jsonResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: extractionPrompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            description: { type: Type.STRING },
-            isolationRules: { type: Type.ARRAY, items: { type: Type.STRING } },
-            physicalSpecs: {
-                type: Type.OBJECT,
-                properties: {
-                  widthMm: { type: Type.NUMBER },
-                  heightMm: { type: Type.NUMBER },
-                  pinPitchMm: { type: Type.NUMBER },
-                  packageType: { type: Type.STRING }
-                }
-            },
-            pins: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  pinNumber: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: ['Power', 'Input', 'Output', 'IO', 'Clock', 'Passive'] },
-                  side: { type: Type.STRING, enum: ['left', 'right', 'top', 'bottom'] },
-                  electrical: {
-                    type: Type.OBJECT,
-                    properties: {
-                       minVoltage: { type: Type.STRING },
-                       maxVoltage: { type: Type.STRING },
-                       maxCurrent: { type: Type.STRING },
-                       behavior: { type: Type.STRING }
-                    }
+    const data = await generateValidated('extraction', {
+      prompt: extractionPrompt,
+      input: { componentName, appContext },
+      responseSchema: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          isolationRules: { type: 'array', items: { type: 'string' } },
+          physicalSpecs: {
+              type: 'object',
+              properties: {
+                widthMm: { type: 'number' },
+                heightMm: { type: 'number' },
+                pinPitchMm: { type: 'number' },
+                packageType: { type: 'string' }
+              }
+          },
+          pins: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                pinNumber: { type: 'string' },
+                name: { type: 'string' },
+                type: { type: 'string', enum: ['Power', 'Input', 'Output', 'IO', 'Clock', 'Passive'] },
+                side: { type: 'string', enum: ['left', 'right', 'top', 'bottom'] },
+                electrical: {
+                  type: 'object',
+                  properties: {
+                     minVoltage: { type: 'string' },
+                     maxVoltage: { type: 'string' },
+                     maxCurrent: { type: 'string' },
+                     behavior: { type: 'string' }
                   }
                 }
               }
@@ -279,11 +362,10 @@ export const searchComponentData = async (componentName: string, appContext: str
           }
         }
       }
-    });
+    }, validateComponentData, options);
 
-    const data = JSON.parse(jsonResponse.text || "{}");
     return {
-      pins: data.pins || [],
+      pins: normalizePins(data.pins),
       description: data.description || "",
       datasheetUrl: datasheetUrl,
       physicalSpecs: data.physicalSpecs,
@@ -291,14 +373,14 @@ export const searchComponentData = async (componentName: string, appContext: str
     };
 
   } catch (error) {
+    reportFailure('search', error, options);
     console.error("Search Error:", error);
     return { pins: [], datasheetUrl: "" };
   }
 };
 
 // 3. Compatibility Check (Context Aware)
-export const checkSystemCompatibility = async (components: ComponentItem[], appDescription: string): Promise<CompatibilityReport> => {
-  const ai = getAI();
+export const checkSystemCompatibility = async (components: ComponentItem[], appDescription: string, options: PipelineCallOptions = {}): Promise<CompatibilityReport> => {
   
   const systemContext = components.map(c => 
     `Component: ${c.name} (${c.physicalSpecs?.packageType})
@@ -329,55 +411,82 @@ export const checkSystemCompatibility = async (components: ComponentItem[], appD
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            isCompatible: { type: Type.BOOLEAN },
-            issues: { type: Type.ARRAY, items: { type: Type.STRING } },
-            recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
-            actions: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  type: { type: Type.STRING, enum: ['ADD', 'REMOVE'] },
-                  componentName: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  reason: { type: Type.STRING }
-                },
-                required: ["type", "componentName", "reason"]
-              }
+    return await generateValidated('compatibility', {
+      prompt,
+      input: { componentNames: components.map(c => c.name), appDescription },
+      responseSchema: {
+        type: 'object',
+        properties: {
+          isCompatible: { type: 'boolean' },
+          issues: { type: 'array', items: { type: 'string' } },
+          recommendations: { type: 'array', items: { type: 'string' } },
+          actions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['ADD', 'REMOVE'] },
+                componentName: { type: 'string' },
+                description: { type: 'string' },
+                footprintType: { type: 'string' },
+                reason: { type: 'string' }
+              },
+              required: ["type", "componentName", "reason"]
             }
-          },
-          required: ["isCompatible", "issues", "recommendations", "actions"]
-        }
+          }
+        },
+        required: ["isCompatible", "issues", "recommendations", "actions"]
       }
-    });
-
-    return JSON.parse(response.text || "{}");
+    }, validateCompatibilityReport, options);
   } catch (error) {
+    reportFailure('compatibility', error, options);
     return { isCompatible: false, issues: ["AI Check Failed"], recommendations: [], actions: [] };
   }
 };
 
+const NETS_SCHEMA: LlmSchema = {
+  type: 'object',
+  properties: {
+    nets: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['signal', 'power', 'ground'] },
+          connections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                componentId: { type: 'string' },
+                pin: { type: 'string' }
+              },
+              required: ["componentId", "pin"]
+            }
+          }
+        },
+        required: ["name", "connections"]
+      }
+    }
+  }
+};
+
+const describeComponentsForNetlist = (components: ComponentItem[]) => components.map(c => ({
+  id: c.id,
+  name: c.name,
+  pins: c.pins?.map(p => ({ 
+      number: p.pinNumber, 
+      name: p.name,
+      // Raw datasheet text only; the parsed values add nothing for the model
+      specs: p.electrical && { ...p.electrical, parsed: undefined }
+  }))
+}));
+
 // 4. Generate Netlist
-export const generateNetlist = async (components: ComponentItem[], mainComponentId: string): Promise<Net[]> => {
-  const ai = getAI();
+export const generateNetlist = async (components: ComponentItem[], mainComponentId: string, options: PipelineCallOptions = {}): Promise<Net[]> => {
   
-  const compData = components.map(c => ({
-    id: c.id,
-    name: c.name,
-    pins: c.pins?.map(p => ({ 
-        number: p.pinNumber, 
-        name: p.name,
-        specs: p.electrical 
-    }))
-  }));
+  const compData = describeComponentsForNetlist(components);
 
   const prompt = `
     Create a professional schematic netlist.
@@ -394,52 +503,134 @@ export const generateNetlist = async (components: ComponentItem[], mainComponent
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            nets: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: ['signal', 'power', 'ground'] },
-                  connections: {
-                    type: Type.ARRAY,
-                    items: {
-                      type: Type.OBJECT,
-                      properties: {
-                        componentId: { type: Type.STRING },
-                        pin: { type: Type.STRING }
-                      },
-                      required: ["componentId", "pin"]
-                    }
-                  }
-                },
-                required: ["name", "connections"]
-              }
-            }
-          }
-        }
-      }
-    });
-
-    const json = JSON.parse(response.text || "{}");
-    return json.nets || [];
+    const nets = await generateValidated('netlist', {
+      prompt,
+      input: { components: compData, mainComponentId },
+      responseSchema: NETS_SCHEMA
+    }, json => validateNets(json, components), options);
+    return pairDifferentialNets(nets, components);
   } catch (error) {
+    reportFailure('netlist', error, options);
     console.error("Netlist Generation Error:", error);
     return [];
   }
 };
 
+// 4b. Extend Netlist (Incremental) - connects newly added parts without touching existing nets
+export const extendNetlist = async (components: ComponentItem[], nets: Net[], newComponentIds: string[], instructions: string = "", options: PipelineCallOptions = {}): Promise<Net[]> => {
+  const byId = new Map(components.map(c => [c.id, c]));
+  const compData = describeComponentsForNetlist(components);
+  const existing = nets.map(n => ({
+    name: n.name,
+    type: n.type,
+    pins: n.connections.map(c => `${byId.get(c.componentId)?.name ?? c.componentId}.${c.pin}`)
+  }));
+
+  const prompt = `
+    Extend an existing schematic netlist with newly added components.
+    New Component IDs: ${newComponentIds.join(', ')}
+    ${instructions ? `Wiring Instructions: ${instructions}\n` : ''}
+    Existing Nets (do not change them):
+    ${JSON.stringify(existing, null, 2)}
+
+    Components & Detailed Pin Specs:
+    ${JSON.stringify(compData, null, 2)}
+
+    Rules:
+    - Only return nets that contain pins of the new components.
+    - To join an existing net, reuse its exact name; otherwise create a new net name.
+    - Do not connect a pin that is already on an existing net to a different net.
+    - Return JSON nets.
+  `;
+
+  try {
+    const extended = await generateValidated('netlist', {
+      prompt,
+      input: { components: compData, existingNets: existing, newComponentIds, instructions },
+      responseSchema: NETS_SCHEMA
+    }, json => {
+      const added = validateNets(json, components);
+      const merged = validateNets({ nets: mergeNets(nets, added.value) }, components);
+      return { value: merged.value, errors: [...added.errors, ...merged.errors] };
+    }, options);
+    return pairDifferentialNets(extended, components);
+  } catch (error) {
+    reportFailure('netlist', error, options);
+    console.error("Netlist Extension Error:", error);
+    return nets;
+  }
+};
+
+// 5. Design Edit (Conversational) - turns a change request into an edit plan
+export const proposeDesignEdit = async (request: string, components: ComponentItem[], nets: Net[], appDescription: string, options: PipelineCallOptions = {}): Promise<DesignEditPlan> => {
+  const byId = new Map(components.map(c => [c.id, c]));
+  const design = {
+    components: describeComponentsForNetlist(components),
+    nets: nets.map(n => ({
+      name: n.name,
+      type: n.type,
+      connections: n.connections.map(c => ({ componentId: c.componentId, pin: c.pin, pinName: findPin(byId.get(c.componentId), c.pin)?.name }))
+    }))
+  };
+
+  const prompt = `
+    You are a Senior PCB Design Engineer editing an existing schematic.
+    Application Context: "${appDescription}"
+    Change Request: "${request}"
+
+    Current Design:
+    ${JSON.stringify(design, null, 2)}
+
+    Produce the smallest edit that fulfils the request:
+    - removeComponentIds: ids of parts to delete (their connections go with them).
+    - addComponents: new parts (exact part numbers). Do not wire them here.
+    - wiringInstructions: how the new parts must be connected, naming existing nets and pins (e.g. "CAN TXD to ESP32 GPIO4").
+    - disconnect: existing pins to detach from their current net. A pin that moves to another net must be listed here.
+    - connect: nets to create or extend between EXISTING parts only; reuse exact net names to extend.
+    - summary: one sentence describing the change.
+  `;
+
+  return generateValidated('edit', {
+    prompt,
+    input: { request, components: components.map(c => ({ id: c.id, name: c.name })), appDescription },
+    responseSchema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        removeComponentIds: { type: 'array', items: { type: 'string' } },
+        addComponents: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              description: { type: 'string' },
+              footprintType: { type: 'string' }
+            },
+            required: ["name"]
+          }
+        },
+        wiringInstructions: { type: 'string' },
+        disconnect: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              componentId: { type: 'string' },
+              pin: { type: 'string' }
+            },
+            required: ["componentId", "pin"]
+          }
+        },
+        connect: NETS_SCHEMA.properties!.nets
+      },
+      required: ["summary", "removeComponentIds", "addComponents", "disconnect", "connect"]
+    }
+  }, json => validateEditPlan(json, components, nets), options);
+};
+
 // Fallback Pin Analysis (for components without PDF)
-export const analyzePins = async (componentName: string, appContext: string = ""): Promise<PinDefinition[]> => {
-  const ai = getAI();
+export const analyzePins = async (componentName: string, appContext: string = "", options: PipelineCallOptions = {}): Promise<PinDefinition[]> => {
   const prompt = `
     Generate a schematic symbol pinout for: "${componentName}".
     Context: ${appContext}
@@ -452,41 +643,40 @@ export const analyzePins = async (componentName: string, appContext: string = ""
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            pins: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  pinNumber: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  type: { type: Type.STRING },
-                  side: { type: Type.STRING, enum: ['left', 'right', 'top', 'bottom'] },
-                  electrical: {
-                    type: Type.OBJECT,
-                    properties: {
-                       maxVoltage: { type: Type.STRING },
-                       behavior: { type: Type.STRING }
-                    }
+    const pins = await generateValidated('pins', {
+      prompt,
+      input: { componentName, appContext },
+      responseSchema: {
+        type: 'object',
+        properties: {
+          pins: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                pinNumber: { type: 'string' },
+                name: { type: 'string' },
+                type: { type: 'string', enum: ['Power', 'Input', 'Output', 'IO', 'Clock', 'Passive'] },
+                side: { type: 'string', enum: ['left', 'right', 'top', 'bottom'] },
+                electrical: {
+                  type: 'object',
+                  properties: {
+                     maxVoltage: { type: 'string' },
+                     behavior: { type: 'string' }
                   }
                 }
-              }
+              },
+              required: ["pinNumber", "name", "type"]
             }
           }
         }
       }
-    });
+    }, json => validatePins(isObject(json) ? json.pins : undefined), options);
 
-    const json = JSON.parse(response.text || "{}");
-    return json.pins || [];
+    if (pins.length === 0) throw new Error(`No pins returned for ${componentName}`);
+    return normalizePins(pins);
   } catch (error) {
+     reportFailure('pins', error, options);
      return [
       { pinNumber: "1", name: "VCC", type: "Power", side: "top" },
       { pinNumber: "2", name: "GND", type: "Power", side: "bottom" },
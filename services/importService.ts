@@ -0,0 +1,335 @@
+import { SchematicData, ComponentItem, PinDefinition, Net, PhysicalSpecs } from '../types';
+import { pairDifferentialNets } from './diffPairService';
+import { annotateComponents } from './annotationService';
+
+// Inverse of the exportService mapping: 20px web grid -> 2.54mm Eagle grid.
+const SCALE = 2.54 / 20;
+const GRID_SIZE = 20;
+
+export interface EagleImportResult {
+  data: SchematicData;
+  positions: Record<string, {x: number, y: number, w: number, h: number}>;
+  warnings: string[];
+}
+
+interface EagleSymbolPin {
+  name: string;
+  x: number;
+  y: number;
+  direction: string;
+  isClock: boolean;
+}
+
+interface EagleDeviceset {
+  description: string;
+  gates: { name: string, symbol: string }[];
+  devices: Record<string, { packageName?: string, connects: { gate: string, pin: string, pad: string }[], attributes: Record<string, string> }>;
+}
+
+interface EagleLibrary {
+  symbols: Record<string, EagleSymbolPin[]>;
+  devicesets: Record<string, EagleDeviceset>;
+  packages: Record<string, PhysicalSpecs>;
+}
+
+const childElements = (parent: Element | null | undefined, tagName: string): Element[] =>
+  parent ? Array.from(parent.children).filter(el => el.tagName === tagName) : [];
+
+const firstChild = (parent: Element | null | undefined, tagName: string): Element | null =>
+  childElements(parent, tagName)[0] || null;
+
+const num = (el: Element, attr: string) => parseFloat(el.getAttribute(attr) || '0') || 0;
+
+// Eagle hides everything after '@' in pin names (GND@1, GND@2 -> GND)
+const displayPinName = (name: string) => name.split('@')[0];
+
+const PIN_TYPES: Record<string, PinDefinition['type']> = {
+  pwr: 'Power',
+  sup: 'Power',
+  in: 'Input',
+  out: 'Output',
+  oc: 'Output',
+  hiz: 'Output',
+  io: 'IO',
+  pas: 'Passive',
+  nc: 'Passive'
+};
+
+const classifyNet = (name: string): Net['type'] => {
+  const upper = name.toUpperCase();
+  if (/GND|VSS|AGND|DGND|PGND/.test(upper)) return 'ground';
+  if (/VCC|VDD|VBUS|VIN|VBAT|3V3|5V|12V|^\+|^V\d/.test(upper)) return 'power';
+  return 'signal';
+};
+
+/**
+ * Derives physical specs from a package: body size from the tDocu/tPlace outline
+ * (falling back to the pad extents) and pin pitch from the smallest pad spacing.
+ */
+const parsePackage = (pkg: Element): PhysicalSpecs => {
+  const pads = [...childElements(pkg, 'smd'), ...childElements(pkg, 'pad')].map(p => ({ x: num(p, 'x'), y: num(p, 'y') }));
+  const name = pkg.getAttribute('name') || 'Unknown';
+  if (pads.length === 0) return { widthMm: 0, heightMm: 0, pinPitchMm: 0, packageType: name };
+
+  const outline = childElements(pkg, 'wire')
+    .filter(w => w.getAttribute('layer') === '51' || w.getAttribute('layer') === '21')
+    .flatMap(w => [{ x: num(w, 'x1'), y: num(w, 'y1') }, { x: num(w, 'x2'), y: num(w, 'y2') }]);
+  const body = outline.length > 0 ? outline : pads;
+  const xs = body.map(p => p.x);
+  const ys = body.map(p => p.y);
+  let pitch = Infinity;
+  pads.forEach((a, i) => pads.slice(i + 1).forEach(b => {
+    const d = Math.hypot(a.x - b.x, a.y - b.y);
+    if (d > 0.01 && d < pitch) pitch = d;
+  }));
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    widthMm: round(Math.max(...xs) - Math.min(...xs)),
+    heightMm: round(Math.max(...ys) - Math.min(...ys)),
+    pinPitchMm: pitch === Infinity ? 0 : round(pitch),
+    packageType: name
+  };
+};
+
+const parseLibrary = (lib: Element): EagleLibrary => {
+  const symbols: EagleLibrary['symbols'] = {};
+  childElements(firstChild(lib, 'symbols'), 'symbol').forEach(sym => {
+    symbols[sym.getAttribute('name') || ''] = childElements(sym, 'pin').map(pin => ({
+      name: pin.getAttribute('name') || '',
+      x: num(pin, 'x'),
+      y: num(pin, 'y'),
+      direction: pin.getAttribute('direction') || 'io',
+      isClock: (pin.getAttribute('function') || '').includes('clk')
+    }));
+  });
+
+  const packages: EagleLibrary['packages'] = {};
+  childElements(firstChild(lib, 'packages'), 'package').forEach(pkg => {
+    packages[pkg.getAttribute('name') || ''] = parsePackage(pkg);
+  });
+
+  const devicesets: EagleLibrary['devicesets'] = {};
+  childElements(firstChild(lib, 'devicesets'), 'deviceset').forEach(ds => {
+    const devices: EagleDeviceset['devices'] = {};
+    childElements(firstChild(ds, 'devices'), 'device').forEach(dev => {
+      const attributes: Record<string, string> = {};
+      childElements(firstChild(dev, 'technologies'), 'technology').forEach(tech => {
+        childElements(tech, 'attribute').forEach(attr => {
+          attributes[attr.getAttribute('name') || ''] = attr.getAttribute('value') || '';
+        });
+      });
+      devices[dev.getAttribute('name') || ''] = {
+        packageName: dev.getAttribute('package') || undefined,
+        connects: childElements(firstChild(dev, 'connects'), 'connect').map(c => ({
+          gate: c.getAttribute('gate') || '',
+          pin: c.getAttribute('pin') || '',
+          pad: c.getAttribute('pad') || ''
+        })),
+        attributes
+      };
+    });
+
+    devicesets[ds.getAttribute('name') || ''] = {
+      description: (firstChild(ds, 'description')?.textContent || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim(),
+      gates: childElements(firstChild(ds, 'gates'), 'gate').map(g => ({
+        name: g.getAttribute('name') || '',
+        symbol: g.getAttribute('symbol') || ''
+      })),
+      devices
+    };
+  });
+
+  return { symbols, devicesets, packages };
+};
+
+/**
+ * Assigns a symbol side from the pin's position relative to the symbol centre,
+ * so both Eagle pin-rotation conventions end up on the correct edge.
+ */
+const assignSides = (pins: EagleSymbolPin[]): PinDefinition['side'][] => {
+  if (pins.length === 0) return [];
+  const xs = pins.map(p => p.x);
+  const ys = pins.map(p => p.y);
+  const cx = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const cy = (Math.max(...ys) + Math.min(...ys)) / 2;
+  const halfW = Math.max((Math.max(...xs) - Math.min(...xs)) / 2, 0.01);
+  const halfH = Math.max((Math.max(...ys) - Math.min(...ys)) / 2, 0.01);
+
+  return pins.map(p => {
+    const dx = (p.x - cx) / halfW;
+    const dy = (p.y - cy) / halfH;
+    if (Math.abs(dx) >= Math.abs(dy)) return dx < 0 ? 'left' : 'right';
+    return dy > 0 ? 'top' : 'bottom';
+  });
+};
+
+/**
+ * Orders pins the way the symbol draws them. Each side is laid out from index 0, so left
+ * and right pins run top to bottom (Eagle y points up) and top and bottom pins left to
+ * right. Pins are only reordered within the slots their side already holds.
+ */
+const orderBySymbolPosition = (pins: EagleSymbolPin[], sides: PinDefinition['side'][]) => {
+  const ordered = pins.map((sp, i) => ({ sp, side: sides[i] }));
+  new Set(sides).forEach(side => {
+    const slots = ordered.map((p, i) => p.side === side ? i : -1).filter(i => i >= 0);
+    const sorted = slots.map(i => ordered[i]).sort((a, b) =>
+      side === 'top' || side === 'bottom' ? a.sp.x - b.sp.x : b.sp.y - a.sp.y);
+    slots.forEach((slot, k) => { ordered[slot] = sorted[k]; });
+  });
+  return ordered;
+};
+
+/**
+ * Parses an Eagle XML Schematic File (.sch) into SchematicData.
+ * Supply symbols and frames (devices without a package) are dropped; their nets are
+ * still joined by name. Instance coordinates are converted back to SchematicView pixels.
+ */
+export const parseEagleSchematic = (xmlText: string): EagleImportResult => {
+  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("Invalid Eagle schematic: file is not well-formed XML");
+  }
+  const schematic = doc.getElementsByTagName('schematic')[0];
+  if (!schematic) {
+    throw new Error("Invalid Eagle schematic: missing <schematic> element");
+  }
+
+  const warnings: string[] = [];
+
+  // --- LIBRARIES ---
+  const libraries: Record<string, EagleLibrary> = {};
+  childElements(firstChild(schematic, 'libraries'), 'library').forEach(lib => {
+    libraries[lib.getAttribute('name') || ''] = parseLibrary(lib);
+  });
+
+  // --- PARTS ---
+  const components: ComponentItem[] = [];
+  // partName -> { componentId, gate -> symbol pin name -> pinNumber }
+  const partMap: Record<string, { componentId: string, pinNumbers: Record<string, Record<string, string>> }> = {};
+
+  childElements(firstChild(schematic, 'parts'), 'part').forEach(part => {
+    const partName = part.getAttribute('name') || '';
+    const libName = part.getAttribute('library') || '';
+    const dsName = part.getAttribute('deviceset') || '';
+    const deviceset = libraries[libName]?.devicesets[dsName];
+    const device = deviceset?.devices[part.getAttribute('device') || ''];
+
+    if (!deviceset || !device) {
+      warnings.push(`Part ${partName}: deviceset ${libName}/${dsName} not found in embedded libraries.`);
+      return;
+    }
+    // Supply symbols, frames and other non-physical parts
+    if (!device.packageName) return;
+
+    const pins: PinDefinition[] = [];
+    const pinNumbers: Record<string, Record<string, string>> = {};
+
+    deviceset.gates.forEach(gate => {
+      const symbolPins = libraries[libName].symbols[gate.symbol] || [];
+      const sides = assignSides(symbolPins);
+      pinNumbers[gate.name] = {};
+
+      orderBySymbolPosition(symbolPins, sides).forEach(({ sp, side }) => {
+        const connect = device.connects.find(c => c.gate === gate.name && c.pin === sp.name);
+        // A pin bound to several pads ("1 2 3") is addressed by its first pad
+        const pinNumber = connect?.pad.split(/\s+/)[0] || sp.name;
+        pinNumbers[gate.name][sp.name] = pinNumber;
+
+        const pin: PinDefinition = {
+          pinNumber,
+          name: displayPinName(sp.name),
+          type: sp.isClock ? 'Clock' : (PIN_TYPES[sp.direction] || 'IO'),
+          side
+        };
+        if (sp.direction === 'oc') pin.electrical = { signalType: 'Open-Drain' };
+        if (sp.direction === 'hiz') pin.electrical = { behavior: 'High-Z capable' };
+        pins.push(pin);
+      });
+    });
+
+    const componentId = `comp_${components.length}_${partName.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+    partMap[partName] = { componentId, pinNumbers };
+
+    components.push({
+      id: componentId,
+      name: part.getAttribute('value') || dsName,
+      description: deviceset.description || `${libName}/${dsName}`,
+      footprintType: device.packageName,
+      pins,
+      physicalSpecs: libraries[libName].packages[device.packageName],
+      manufacturer: device.attributes['MANUFACTURER'] || device.attributes['MF'] || undefined,
+      designator: partName || undefined,
+      status: 'ready'
+    });
+  });
+
+  const sheets = childElements(firstChild(schematic, 'sheets'), 'sheet');
+  if (sheets.length > 1) {
+    warnings.push(`Schematic has ${sheets.length} sheets; instances from all sheets are placed on one canvas.`);
+  }
+
+  // --- INSTANCES -> LAYOUT ---
+  const positions: EagleImportResult['positions'] = {};
+  const snap = (v: number) => Math.round(v / GRID_SIZE) * GRID_SIZE;
+
+  sheets.forEach(sheet => {
+    childElements(firstChild(sheet, 'instances'), 'instance').forEach(inst => {
+      const mapped = partMap[inst.getAttribute('part') || ''];
+      if (!mapped || positions[mapped.componentId]) return;
+      const comp = components.find(c => c.id === mapped.componentId)!;
+
+      // Same box sizing as SchematicView's initial layout
+      const leftPins = comp.pins?.filter(p => p.side === 'left' || !p.side) || [];
+      const rightPins = comp.pins?.filter(p => p.side === 'right') || [];
+      const contentHeight = 40 + (Math.max(leftPins.length, rightPins.length) * 40);
+      const h = Math.ceil((Math.max(contentHeight, 100) + 40) / GRID_SIZE) * GRID_SIZE;
+      const w = Math.ceil(220 / GRID_SIZE) * GRID_SIZE;
+
+      // Eagle instance = box centre with Y up; web position = top-left corner with Y down
+      const webCenterX = num(inst, 'x') / SCALE;
+      const webCenterY = -num(inst, 'y') / SCALE;
+      positions[mapped.componentId] = { x: snap(webCenterX - w / 2), y: snap(webCenterY - h / 2), w, h };
+    });
+  });
+
+  // Eagle coordinates can be negative; shift everything into the visible canvas.
+  const placed = Object.values(positions);
+  if (placed.length > 0) {
+    const offsetX = 60 - Math.min(...placed.map(p => p.x));
+    const offsetY = 60 - Math.min(...placed.map(p => p.y));
+    placed.forEach(p => { p.x += offsetX; p.y += offsetY; });
+  }
+
+  // --- NETS ---
+  const netsByName: Record<string, Net> = {};
+  sheets.forEach(sheet => {
+    childElements(firstChild(sheet, 'nets'), 'net').forEach(netEl => {
+      const name = netEl.getAttribute('name') || `N$${Object.keys(netsByName).length + 1}`;
+      if (!netsByName[name]) {
+        netsByName[name] = { id: `net_${Object.keys(netsByName).length}`, name, connections: [], type: classifyNet(name) };
+      }
+      const net = netsByName[name];
+
+      childElements(netEl, 'segment').forEach(segment => {
+        childElements(segment, 'pinref').forEach(ref => {
+          const mapped = partMap[ref.getAttribute('part') || ''];
+          if (!mapped) return;
+          const pinNumber = mapped.pinNumbers[ref.getAttribute('gate') || '']?.[ref.getAttribute('pin') || ''];
+          if (!pinNumber) {
+            warnings.push(`Net ${name}: pin ${ref.getAttribute('pin')} not found on ${ref.getAttribute('part')}.`);
+            return;
+          }
+          if (!net.connections.some(c => c.componentId === mapped.componentId && String(c.pin) === pinNumber)) {
+            net.connections.push({ componentId: mapped.componentId, pin: pinNumber });
+          }
+        });
+      });
+    });
+  });
+
+  const nets = Object.values(netsByName).filter(n => n.connections.length > 0);
+
+  // Part names become designators; Eagle's "U$1" style names are renumbered
+  return { data: { components: annotateComponents(components), nets: pairDifferentialNets(nets, components) }, positions, warnings };
+};
@@ -0,0 +1,108 @@
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+/**
+ * Backend-neutral LLM interface used by the design pipeline.
+ *
+ * Every call names the pipeline stage it belongs to, so the model can be chosen
+ * per stage in settings and offline providers can answer from structured input
+ * instead of parsing prompts.
+ */
+
+export type LlmStage = 'bom' | 'search' | 'extraction' | 'datasheet' | 'compatibility' | 'netlist' | 'pins' | 'edit';
+
+export const LLM_STAGES: { id: LlmStage; label: string }[] = [
+  { id: 'bom', label: 'BOM generation' },
+  { id: 'search', label: 'Datasheet search' },
+  { id: 'extraction', label: 'Search extraction' },
+  { id: 'datasheet', label: 'PDF analysis' },
+  { id: 'compatibility', label: 'Compatibility check' },
+  { id: 'netlist', label: 'Netlist synthesis' },
+  { id: 'pins', label: 'Fallback pinout' },
+  { id: 'edit', label: 'Design assistant' }
+];
+
+/**
+ * Provider-neutral subset of JSON Schema for structured output.
+ * Providers translate it to their own schema dialect.
+ */
+export interface LlmSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, LlmSchema>;
+  items?: LlmSchema;
+  required?: string[];
+}
+
+export interface LlmRequest {
+  stage: LlmStage;
+  model: string;
+  prompt: string;
+  files?: { data: string; mimeType: string }[]; // Base64 inline files, e.g. datasheet PDFs
+  responseSchema?: LlmSchema;                    // When set, the response text is JSON matching the schema
+  searchGrounding?: boolean;                     // Ground the answer with a web search
+  input?: Record<string, unknown>;               // Structured data the prompt was built from
+  signal?: AbortSignal;                          // Aborted on timeout or when the run is cancelled
+}
+
+export interface LlmResponse {
+  text: string;
+  sources: { uri: string; title?: string }[];    // Grounding sources, most relevant first
+}
+
+export interface LlmProvider {
+  id: string;
+  label: string;
+  defaultModels: Record<LlmStage, string>;
+  /** Rejects when the backend fails or does not support a requested capability. */
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export interface LlmSettings {
+  provider: string;
+  models: Partial<Record<LlmStage, string>>; // Per-stage overrides; empty uses the provider default
+  concurrency: number;                       // Components processed in parallel
+  maxRetries: number;                        // Retries per call on rate limits, 5xx and timeouts
+  timeoutMs: number;                         // Per attempt
+}
+
+export const LLM_PROVIDERS: LlmProvider[] = [geminiProvider, mockProvider];
+
+const SETTINGS_KEY = 'eda_llm_settings';
+
+// LLM_PROVIDER lets CI and air-gapped builds default to the mock without touching settings
+const DEFAULT_SETTINGS: LlmSettings = {
+  provider: process.env.LLM_PROVIDER || geminiProvider.id,
+  models: {},
+  concurrency: 3,
+  maxRetries: 3,
+  timeoutMs: 90000
+};
+
+export const getLlmSettings = (): LlmSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to load LLM settings", e);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getProvider = (id: string): LlmProvider =>
+  LLM_PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+/**
+ * Resolves the provider and model configured for a pipeline stage.
+ */
+export const resolveStage = (stage: LlmStage): { provider: LlmProvider; model: string } => {
+  const settings = getLlmSettings();
+  const provider = getProvider(settings.provider);
+  const override = settings.provider === provider.id ? settings.models[stage]?.trim() : '';
+  return { provider, model: override || provider.defaultModels[stage] };
+};
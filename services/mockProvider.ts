@@ -0,0 +1,191 @@
+import type { LlmProvider, LlmRequest } from './llmProvider';
+import { PinDefinition, PhysicalSpecs } from '../types';
+import { isObject } from './validationService';
+
+/**
+ * Deterministic offline provider for CI and air-gapped labs.
+ * Answers every stage from a small canned parts library, using the structured
+ * `input` of the request rather than the prompt text.
+ */
+
+interface MockPart {
+  name: string;
+  description: string;
+  footprintType: string;
+  manufacturer: string;
+  physicalSpecs: PhysicalSpecs;
+  pins: PinDefinition[];
+}
+
+const pin = (pinNumber: string, name: string, type: PinDefinition['type'], side: PinDefinition['side'], maxVoltage?: string): PinDefinition => ({
+  pinNumber, name, type, side,
+  ...(maxVoltage ? { electrical: { maxVoltage } } : {})
+});
+
+const MOCK_PARTS: MockPart[] = [
+  {
+    name: 'ESP32-WROOM-32',
+    description: 'Wi-Fi + Bluetooth MCU module',
+    footprintType: 'SMD Module',
+    manufacturer: 'Espressif',
+    physicalSpecs: { widthMm: 18, heightMm: 25.5, pinPitchMm: 1.27, packageType: 'Module-38' },
+    pins: [
+      pin('2', '3V3', 'Power', 'top', '3.6V'),
+      pin('1', 'GND', 'Power', 'bottom'),
+      pin('3', 'EN', 'Input', 'left', '3.6V'),
+      pin('35', 'TXD0', 'Output', 'right', '3.6V'),
+      pin('34', 'RXD0', 'Input', 'left', '3.6V'),
+      pin('33', 'SDA', 'IO', 'right', '3.6V'),
+      pin('36', 'SCL', 'IO', 'right', '3.6V'),
+      pin('26', 'DATA', 'IO', 'right', '3.6V')
+    ]
+  },
+  {
+    name: 'AMS1117-3.3',
+    description: '3.3V 1A low-dropout regulator',
+    footprintType: 'SOT-223',
+    manufacturer: 'Advanced Monolithic Systems',
+    physicalSpecs: { widthMm: 6.5, heightMm: 7, pinPitchMm: 2.3, packageType: 'SOT-223' },
+    pins: [
+      pin('3', 'VIN', 'Power', 'left', '15V'),
+      pin('2', '3V3', 'Power', 'right', '3.3V'),
+      pin('1', 'GND', 'Power', 'bottom')
+    ]
+  },
+  {
+    name: 'DHT22',
+    description: 'Digital temperature and humidity sensor',
+    footprintType: 'THT 4-pin',
+    manufacturer: 'Aosong',
+    physicalSpecs: { widthMm: 15.1, heightMm: 25, pinPitchMm: 2.54, packageType: 'SIP-4' },
+    pins: [
+      pin('1', '3V3', 'Power', 'top', '6V'),
+      pin('2', 'DATA', 'IO', 'left', '6V'),
+      pin('3', 'NC', 'Passive', 'right'),
+      pin('4', 'GND', 'Power', 'bottom')
+    ]
+  },
+  {
+    name: 'Capacitor 100nF 0603',
+    description: 'Decoupling capacitor',
+    footprintType: '0603',
+    manufacturer: 'Generic',
+    physicalSpecs: { widthMm: 1.6, heightMm: 0.8, pinPitchMm: 1.6, packageType: '0603' },
+    pins: [pin('1', '3V3', 'Passive', 'top'), pin('2', 'GND', 'Passive', 'bottom')]
+  }
+];
+
+const GENERIC_PINS: PinDefinition[] = [
+  pin('1', 'VCC', 'Power', 'top'),
+  pin('2', 'GND', 'Power', 'bottom'),
+  pin('3', 'SIG', 'IO', 'right')
+];
+
+const findPart = (name: unknown): MockPart | undefined => {
+  const key = String(name || '').toLowerCase();
+  return MOCK_PARTS.find(p => key.includes(p.name.toLowerCase()) || p.name.toLowerCase().includes(key));
+};
+
+const partData = (name: unknown) => {
+  const part = findPart(name);
+  return {
+    description: part?.description || `Mock data for ${name}`,
+    physicalSpecs: part?.physicalSpecs || { widthMm: 10, heightMm: 10, pinPitchMm: 2.54, packageType: 'Generic' },
+    isolationRules: [],
+    pins: part?.pins || GENERIC_PINS
+  };
+};
+
+// A part as the netlist stage sends it (see generateNetlist)
+interface NetlistPart {
+  id: string;
+  pins?: { number: string; name: string }[];
+}
+
+const isNetlistPart = (value: unknown): value is NetlistPart =>
+  isObject(value) && typeof value.id === 'string' && (value.pins === undefined || Array.isArray(value.pins));
+
+// A part as the edit stage sends it (see proposeDesignEdit)
+interface EditPart {
+  id: string;
+  name: string;
+}
+
+const isEditPart = (value: unknown): value is EditPart =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+/**
+ * Connects pins that share a name across components, which is enough to give
+ * the canned parts a plausible power, ground and data netlist.
+ */
+const mockNetlist = (components: NetlistPart[]) => {
+  const byName = new Map<string, { componentId: string; pin: string }[]>();
+  components.forEach(c => (c.pins || []).forEach(p => {
+    const name = p.name.toUpperCase();
+    if (name === 'NC') return;
+    byName.set(name, [...(byName.get(name) || []), { componentId: c.id, pin: p.number }]);
+  }));
+
+  return Array.from(byName.entries())
+    .filter(([, connections]) => connections.length > 1)
+    .map(([name, connections]) => ({
+      name,
+      type: /GND|VSS/.test(name) ? 'ground' : /VCC|VDD|VIN|\dV\d/.test(name) ? 'power' : 'signal',
+      connections
+    }));
+};
+
+const respond = (request: LlmRequest): unknown => {
+  const input = request.input || {};
+  switch (request.stage) {
+    case 'bom': {
+      const main = findPart(input.mainComponent);
+      const parts = [main || { ...MOCK_PARTS[0], name: String(input.mainComponent) }, ...MOCK_PARTS.filter(p => p !== main && p !== MOCK_PARTS[0])];
+      return { components: parts.map(({ name, description, footprintType, manufacturer }) => ({ name, description, footprintType, manufacturer })) };
+    }
+    case 'search':
+      return `Offline mock search result for ${input.componentName}.`;
+    case 'extraction':
+    case 'pins':
+      return partData(input.componentName);
+    case 'datasheet':
+      return { ...partData(input.componentName), summary: 'Offline mock analysis.' };
+    case 'compatibility':
+      return { isCompatible: true, issues: [], recommendations: ['Offline mock provider: no electrical review performed.'], actions: [] };
+    case 'netlist':
+      return { nets: mockNetlist(Array.isArray(input.components) ? input.components.filter(isNetlistPart) : []) };
+    case 'edit': {
+      // Understands "remove <part>" and "add <part>", which is enough to exercise the diff flow
+      const text = String(input.request || '');
+      const components = Array.isArray(input.components) ? input.components.filter(isEditPart) : [];
+      const target = components.find(c => text.toLowerCase().includes(c.name.toLowerCase()));
+      const removing = /\b(remove|delete|drop)\b/i.test(text) && target;
+      const added = /\badd\s+(?:an?\s+)?(.+?)(?:\s+(?:on|to|for)\s+.*)?$/i.exec(text);
+      return {
+        summary: removing ? `Remove ${target!.name}` : added ? `Add ${added[1]}` : 'No change',
+        removeComponentIds: removing ? [target!.id] : [],
+        addComponents: added ? [{ name: added[1], description: 'Added by design assistant', footprintType: '' }] : [],
+        disconnect: [],
+        connect: [],
+        wiringInstructions: text
+      };
+    }
+  }
+};
+
+export const mockProvider: LlmProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  defaultModels: {
+    bom: 'mock', search: 'mock', extraction: 'mock', datasheet: 'mock',
+    compatibility: 'mock', netlist: 'mock', pins: 'mock', edit: 'mock'
+  },
+
+  async generate(request) {
+    const result = respond(request);
+    return {
+      text: typeof result === 'string' ? result : JSON.stringify(result),
+      sources: []
+    };
+  }
+};
@@ -0,0 +1,179 @@
+import { ComponentItem, Net, PinDefinition, QuantityUnit, SchematicData } from '../types';
+import { classifyComponent, DesignatorPrefix } from './annotationService';
+import { findPin } from './componentRules';
+import { createComponentId } from './designService';
+import { formatQuantity, parseQuantity } from './unitsService';
+import { isGroundNet, isPowerNet } from './voltageDomainService';
+
+/**
+ * Passive expansion.
+ *
+ * The BOM model lists passives as aggregates ("Decoupling Capacitors 100nF/10uF",
+ * "Pull-up Resistors 4.7kΩ x2"), which would become one symbol that cannot sit on
+ * several nets. Aggregates are split into one part per value and instance. Decoupling
+ * entries are dropped from the BOM and rebuilt from the pinouts once the netlist
+ * exists: one capacitor per IC power pin, between that pin's net and ground.
+ */
+
+export interface DecouplingSpec {
+  perPin: string;   // Value placed at every IC power pin, e.g. "100nF"
+  bulk: string[];   // Larger values placed once per decoupled rail, e.g. ["10µF"]
+  footprintType: string;
+}
+
+export const DEFAULT_DECOUPLING: DecouplingSpec = { perPin: '100nF', bulk: [], footprintType: '0603' };
+
+const PASSIVE_UNITS: Partial<Record<DesignatorPrefix, QuantityUnit>> = { R: 'Ω', C: 'F', L: 'H' };
+
+// Candidate values: a number with an SI prefix, RKM marker or unit ("4.7k", "4k7", "100nF", "10 uF")
+const VALUE_TOKEN = /(?:^|[\s/,(;:+])(\d+(?:[.,]\d+)?\s*(?:meg|[pnuµμmkKMG]|R(?=\d))?\d*\s*(?:Ω|ohms?|[FHR])?)(?=$|[\s/,);:+])/g;
+const COUNT_PATTERN = /(?:\bx\s*(\d+)\b|\b(\d+)\s*x\b|\bqty:?\s*(\d+)\b|\((\d+)\s*(?:pcs)?\))/i;
+
+const isDecoupling = (comp: ComponentItem) => /decoupl|bypass/i.test(`${comp.name} ${comp.description}`);
+
+/**
+ * Values of a part in `unit`, formatted ("4.7kΩ"), in the order its text lists them.
+ */
+export const passiveValues = (comp: ComponentItem, unit: QuantityUnit): string[] => {
+  const text = `${comp.name} ${comp.description || ''}`;
+  const values: string[] = [];
+  for (const match of text.matchAll(VALUE_TOKEN)) {
+    // Bare numbers are package sizes or counts ("0603", "2"), not values
+    if (!/[a-zA-ZΩµμ]/.test(match[1])) continue;
+    const quantity = parseQuantity(match[1], unit);
+    if (!quantity) continue;
+    const value = formatQuantity(quantity).replace(' ', '');
+    if (!values.includes(value)) values.push(value);
+  }
+  return values;
+};
+
+const passivePins = (): PinDefinition[] => [
+  { pinNumber: '1', name: '1', type: 'Passive', side: 'left' },
+  { pinNumber: '2', name: '2', type: 'Passive', side: 'right' }
+];
+
+export const passivePart = (id: string, value: string, description: string, footprintType: string, manufacturer?: string): ComponentItem => ({
+  id,
+  name: value,
+  description,
+  footprintType,
+  manufacturer,
+  pins: passivePins(),
+  status: 'ready'
+});
+
+/**
+ * Splits every R/C/L entry of a BOM into single parts named by value (status 'ready',
+ * two passive pins, so no datasheet search is needed). Decoupling entries are removed
+ * and returned as the spec for `addDecoupling`; the smallest value goes on every power
+ * pin and larger ones become bulk capacitors.
+ */
+export const expandPassives = (components: ComponentItem[]): { components: ComponentItem[]; decoupling: DecouplingSpec; expanded: number } => {
+  const result: ComponentItem[] = [];
+  let decoupling = DEFAULT_DECOUPLING;
+  let expanded = 0;
+
+  components.forEach(comp => {
+    // "Decoupling 100nF/10uF" names no part type; its capacitance says what it is
+    const prefix = isDecoupling(comp) && passiveValues(comp, 'F').length > 0 ? 'C' : classifyComponent(comp);
+    const unit = PASSIVE_UNITS[prefix];
+    const values = unit ? passiveValues(comp, unit) : [];
+    if (!unit || values.length === 0) {
+      result.push(comp);
+      return;
+    }
+    expanded++;
+
+    if (prefix === 'C' && isDecoupling(comp)) {
+      const sorted = [...values].sort((a, b) => parseQuantity(a, 'F')!.value - parseQuantity(b, 'F')!.value);
+      decoupling = { perPin: sorted[0], bulk: sorted.slice(1), footprintType: comp.footprintType || DEFAULT_DECOUPLING.footprintType };
+      return;
+    }
+
+    // A count only applies to a single value ("4.7kΩ x2"); listed values are one part each
+    const count = values.length === 1 ? parseInt(COUNT_PATTERN.exec(`${comp.name} ${comp.description || ''}`)?.slice(1).find(Boolean) || '1', 10) : 1;
+    const role = comp.description ? `${comp.name}: ${comp.description}` : comp.name;
+    values.forEach(value => {
+      for (let k = 0; k < count; k++) {
+        const id = createComponentId([...components, ...result], value);
+        result.push(passivePart(id, value, role, comp.footprintType, comp.manufacturer));
+      }
+    });
+  });
+
+  return { components: result, decoupling, expanded };
+};
+
+
+/**
+ * Adds the decoupling capacitors the IC power pins are missing and wires each between
+ * the pin's net and the IC's ground. Capacitors of the per-pin value already between a
+ * rail and ground count towards it, so running this again adds nothing.
+ */
+export const addDecoupling = (data: SchematicData, spec: DecouplingSpec = DEFAULT_DECOUPLING): { data: SchematicData; added: ComponentItem[] } => {
+  const byId = new Map(data.components.map(c => [c.id, c]));
+  const nets: Net[] = data.nets.map(net => ({ ...net, connections: [...net.connections] }));
+  const components = [...data.components];
+  const added: ComponentItem[] = [];
+
+  const netOf = (componentId: string, pin: PinDefinition) => nets.find(net => net.connections.some(c =>
+    c.componentId === componentId && findPin(byId.get(componentId), c.pin) === pin));
+
+  // Ground of an IC: its own ground net, else the design's first, else a new GND net
+  const groundFor = (comp: ComponentItem): Net => {
+    const own = (comp.pins || []).map(p => netOf(comp.id, p)).find(net => net && isGroundNet(net));
+    const ground = own || nets.find(isGroundNet);
+    if (ground) return ground;
+    let k = nets.length;
+    while (nets.some(n => n.id === `net_${k}`)) k++;
+    const created: Net = { id: `net_${k}`, name: 'GND', type: 'ground', connections: [] };
+    nets.push(created);
+    return created;
+  };
+
+  // Capacitors of a value already between a rail and ground
+  const existing = (rail: Net, value: number) => data.components.filter(c => {
+    if (classifyComponent(c) !== 'C' || (c.pins || []).length !== 2) return false;
+    const q = parseQuantity(c.name, 'F') || parseQuantity(c.description, 'F');
+    if (!q || Math.abs(q.value - value) > value * 1e-6) return false;
+    const sides = c.pins!.map(p => netOf(c.id, p));
+    return sides.some(n => n === rail) && sides.some(n => !!n && isGroundNet(n));
+  }).length;
+
+  const place = (value: string, rail: Net, ground: Net, description: string) => {
+    const id = createComponentId([...components], value);
+    const cap = passivePart(id, value, description, spec.footprintType);
+    components.push(cap);
+    added.push(cap);
+    rail.connections.push({ componentId: id, pin: '1' });
+    ground.connections.push({ componentId: id, pin: '2' });
+  };
+
+  const perPin = parseQuantity(spec.perPin, 'F');
+  if (!perPin) throw new Error(`Invalid decoupling value: ${spec.perPin}`);
+
+  const placedOn = new Map<Net, number>();
+  const rails = new Map<Net, Net>(); // Rail -> ground used for its bulk capacitors
+  data.components.filter(c => classifyComponent(c) === 'U').forEach(ic => {
+    (ic.pins || []).filter(p => p.type === 'Power').forEach(pin => {
+      const rail = netOf(ic.id, pin);
+      if (!rail || isGroundNet(rail) || !isPowerNet(rail)) return;
+      const ground = groundFor(ic);
+      if (!rails.has(rail)) rails.set(rail, ground);
+
+      // One capacitor per power pin; those already on the rail cover pins in order
+      const needed = (placedOn.get(rail) || 0) + 1;
+      placedOn.set(rail, needed);
+      if (needed <= existing(rail, perPin.value)) return;
+      place(spec.perPin, rail, ground, `Decoupling for ${ic.name} ${pin.name}`);
+    });
+  });
+
+  rails.forEach((ground, rail) => spec.bulk.forEach(value => {
+    const bulk = parseQuantity(value, 'F');
+    if (bulk && existing(rail, bulk.value) === 0) place(value, rail, ground, `Bulk decoupling for ${rail.name}`);
+  }));
+
+  return { data: { components, nets }, added };
+};
@@ -0,0 +1,186 @@
+import { ComponentItem, PinDefinition, SchematicData } from '../types';
+import { formatQuantity, getPinQuantity, parseQuantity } from './unitsService';
+import { findPin, isConnector, isRegulator, isRegulatorInput, isRegulatorOutput } from './componentRules';
+import { analyzeVoltageDomains, isGroundNet, isPowerNet } from './voltageDomainService';
+
+/**
+ * Per-rail power budget: the current drawn from every power net, checked against
+ * the rating of the regulator feeding it, plus linear-regulator dissipation
+ * (Vin − Vout) × I against the thermal limit of its package.
+ *
+ * Load currents are the user-entered typical value (`ComponentItem.supplyCurrent`)
+ * or else the `maxCurrent` of the part's supply pins, so totals err on the high side.
+ */
+
+// Junction-to-ambient resistance (°C/W) on a typical 2-layer board without extra copper
+const PACKAGE_THETA_JA: [RegExp, number][] = [
+  [/SC-?70|SOT-?323|SOT-?353/i, 300],
+  [/SOT-?23/i, 230],
+  [/SOT-?89/i, 110],
+  [/SOT-?223/i, 90],
+  [/TO-?252|DPAK/i, 50],
+  [/TO-?263|D2PAK/i, 40],
+  [/TO-?220/i, 50],
+  [/TO-?92/i, 160],
+  [/MSOP|TSSOP/i, 150], // before SOIC: "SOP" also matches these
+  [/SOIC|SOP|SO-?8/i, 120],
+  [/DFN|QFN|SON/i, 60]
+];
+
+export const AMBIENT_TEMP_C = 40;
+export const MAX_JUNCTION_TEMP_C = 125;
+
+export interface RailLoad {
+  componentId: string;
+  name: string;
+  current?: number; // A; undefined when nothing is known about the part
+  source: 'user' | 'maxCurrent' | 'regulator';
+}
+
+export interface RegulatorBudget {
+  componentId: string;
+  name: string;
+  rating?: number;         // A
+  inputVoltage?: number;
+  linear: boolean;
+  dissipation?: number;    // W, linear regulators only
+  maxDissipation?: number; // W, from the package θJA
+  packageType?: string;
+}
+
+export interface RailBudget {
+  netId: string;
+  netName: string;
+  voltage?: number;
+  loads: RailLoad[];
+  total: number;           // A, known loads only; loads with unknown current are listed without one
+  regulator?: RegulatorBudget;
+}
+
+export interface PowerBudgetReport {
+  rails: RailBudget[];
+  warnings: string[];
+}
+
+const amps = (value: number) => formatQuantity({ value, unit: 'A' });
+const watts = (value: number) => formatQuantity({ value, unit: 'W' });
+
+const isSwitching = (comp: ComponentItem) => /buck|boost|switch|dc-?dc|converter|SMPS/i.test(`${comp.name} ${comp.description}`);
+
+// Output pin rating, else "1A" / "800 mA" in the description
+const regulatorRating = (comp: ComponentItem): number | undefined => {
+  const pinRating = (comp.pins || []).filter(isRegulatorOutput).map(p => getPinQuantity(p, 'maxCurrent')).find(Boolean);
+  if (pinRating) return pinRating.value;
+  const described = /(\d+(?:\.\d+)?\s*m?A)\b/.exec(comp.description || '');
+  return described ? parseQuantity(described[1], 'A')?.value : undefined;
+};
+
+export const getThetaJA = (packageType: string | undefined): number | undefined =>
+  packageType ? PACKAGE_THETA_JA.find(([pattern]) => pattern.test(packageType))?.[1] : undefined;
+
+
+export const analyzePowerBudget = (data: SchematicData): PowerBudgetReport => {
+  const byId = new Map(data.components.map(c => [c.id, c]));
+  const railVoltages = new Map(analyzeVoltageDomains(data).rails.map(r => [r.netId, r.voltage]));
+  const powerNets = data.nets.filter(net => isPowerNet(net) && !isGroundNet(net));
+
+  const pinsOn = (netId: string) => data.nets.find(n => n.id === netId)!.connections
+    .map(c => ({ comp: byId.get(c.componentId), pin: findPin(byId.get(c.componentId), c.pin) }))
+    .filter((p): p is { comp: ComponentItem; pin: PinDefinition } => !!p.comp && !!p.pin);
+
+  const netsOf = (comp: ComponentItem, matches: (pin: PinDefinition) => boolean) => data.nets.filter(n => n.connections.some(c => {
+    const pin = findPin(comp, c.pin);
+    return c.componentId === comp.id && !!pin && matches(pin);
+  }));
+
+  // A regulator's input draws what its output delivers, so rails are resolved recursively
+  const budgets = new Map<string, RailBudget>();
+  const resolving = new Set<string>();
+
+  const budgetOf = (netId: string): RailBudget => {
+    const cached = budgets.get(netId);
+    if (cached) return cached;
+    const net = data.nets.find(n => n.id === netId)!;
+    const budget: RailBudget = { netId, netName: net.name, voltage: railVoltages.get(netId), loads: [], total: 0 };
+    if (resolving.has(netId)) return budget; // Feedback loop through regulators; stop here
+    resolving.add(netId);
+
+    const pins = pinsOn(netId);
+    const source = pins.find(({ comp, pin }) => isRegulator(comp) && isRegulatorOutput(pin));
+    const counted = new Set<string>();
+
+    pins.forEach(({ comp, pin }) => {
+      // Connectors feed the rail rather than load it
+      if (pin.type !== 'Power' || counted.has(comp.id) || comp.id === source?.comp.id || isConnector(comp)) return;
+      counted.add(comp.id);
+
+      if (isRegulator(comp) && isRegulatorInput(pin)) {
+        const outputs = netsOf(comp, isRegulatorOutput);
+        const delivered = outputs.reduce((sum, n) => sum + budgetOf(n.id).total, 0);
+        const outputVoltage = outputs.map(n => railVoltages.get(n.id)).find(v => v !== undefined);
+        // A switcher draws its output power from the input at ~85% efficiency
+        const current = isSwitching(comp) && outputVoltage && budget.voltage
+          ? delivered * outputVoltage / (budget.voltage * 0.85)
+          : delivered;
+        budget.loads.push({ componentId: comp.id, name: comp.name, current, source: 'regulator' });
+        return;
+      }
+
+      // A user-entered current is the part's total draw, booked on its first supply rail
+      const user = parseQuantity(comp.supplyCurrent, 'A');
+      if (user) {
+        if (netsOf(comp, p => p.type === 'Power').find(n => isPowerNet(n) && !isGroundNet(n))?.id !== netId) return;
+        budget.loads.push({ componentId: comp.id, name: comp.name, current: user.value, source: 'user' });
+        return;
+      }
+      const rated = pins.filter(p => p.comp === comp && p.pin.type === 'Power')
+        .map(p => getPinQuantity(p.pin, 'maxCurrent')?.value)
+        .filter((v): v is number => v !== undefined);
+      budget.loads.push({ componentId: comp.id, name: comp.name, current: rated.length ? rated.reduce((a, b) => a + b, 0) : undefined, source: 'maxCurrent' });
+    });
+    budget.total = budget.loads.reduce((sum, load) => sum + (load.current || 0), 0);
+
+    if (source) {
+      const comp = source.comp;
+      const inputNet = netsOf(comp, isRegulatorInput)[0];
+      const inputVoltage = inputNet ? railVoltages.get(inputNet.id) : undefined;
+      const packageType = comp.physicalSpecs?.packageType || comp.footprintType;
+      const linear = !isSwitching(comp);
+      const theta = getThetaJA(packageType);
+      budget.regulator = {
+        componentId: comp.id,
+        name: comp.name,
+        rating: regulatorRating(comp),
+        inputVoltage,
+        linear,
+        dissipation: linear && inputVoltage !== undefined && budget.voltage !== undefined ? Math.max(0, inputVoltage - budget.voltage) * budget.total : undefined,
+        maxDissipation: theta ? (MAX_JUNCTION_TEMP_C - AMBIENT_TEMP_C) / theta : undefined,
+        packageType
+      };
+    }
+
+    resolving.delete(netId);
+    budgets.set(netId, budget);
+    return budget;
+  };
+
+  const rails = powerNets.map(net => budgetOf(net.id));
+
+  const warnings: string[] = [];
+  rails.forEach(rail => {
+    const reg = rail.regulator;
+    if (!reg) return;
+    if (reg.rating !== undefined && rail.total > reg.rating) {
+      warnings.push(`${rail.netName}: load ${amps(rail.total)} exceeds ${reg.name} rating of ${amps(reg.rating)}`);
+    }
+    if (reg.linear && reg.inputVoltage !== undefined && rail.voltage !== undefined && reg.inputVoltage <= rail.voltage) {
+      warnings.push(`${rail.netName}: ${reg.name} input (${reg.inputVoltage}V) is not above its output (${rail.voltage}V)`);
+    }
+    if (reg.dissipation !== undefined && reg.maxDissipation !== undefined && reg.dissipation > reg.maxDissipation) {
+      const rise = reg.dissipation * getThetaJA(reg.packageType)!;
+      warnings.push(`${reg.name} dissipates ${watts(reg.dissipation)} in ${reg.packageType} (limit ${watts(reg.maxDissipation)} at ${AMBIENT_TEMP_C}°C ambient, junction ≈ ${Math.round(AMBIENT_TEMP_C + rise)}°C); use a larger package, more copper or a switching regulator`);
+    }
+  });
+
+  return { rails, warnings };
+};
@@ -0,0 +1,424 @@
+import { SchematicData } from '../types';
+import { getPinAnchor } from './exportService';
+import { getDesignators } from './annotationService';
+
+interface Route {
+  path: {x: number, y: number}[];
+  color: string;
+  id: string;
+  netName: string;
+}
+
+export type PaperSize = 'A4' | 'A3' | 'Letter';
+
+export interface PrintOptions {
+  paper: PaperSize;
+  projectName: string;
+  revision?: string;
+  author?: string;
+  date?: string; // Defaults to today (YYYY-MM-DD)
+}
+
+// Landscape sheet sizes in mm
+const PAPER_SIZES: Record<PaperSize, { w: number, h: number }> = {
+  A4: { w: 297, h: 210 },
+  A3: { w: 420, h: 297 },
+  Letter: { w: 279.4, h: 215.9 }
+};
+
+// Nominal drawing scale matches the CAD exports (20px grid -> 2.54mm)
+const SCALE = 2.54 / 20;
+// Designs that only fit below this fraction of nominal scale are split across sheets
+const MIN_FIT_RATIO = 0.6;
+
+// ISO 5457 style frame: 20mm filing margin on the left, 10mm elsewhere, 5mm zone strip
+const MARGIN = { left: 20, top: 10, right: 10, bottom: 10 };
+const ZONE_STRIP = 5;
+const ZONE_SIZE = 50;
+const TITLE_BLOCK = { w: 180, h: 32 };
+
+// --- Drawing primitives (mm, Y down) shared by the SVG and PDF renderers ---
+
+type Primitive =
+  | { kind: 'polyline', points: {x: number, y: number}[], stroke: string, width: number }
+  | { kind: 'rect', x: number, y: number, w: number, h: number, stroke: string, width: number, fill?: string }
+  | { kind: 'circle', x: number, y: number, r: number, fill: string }
+  | { kind: 'text', x: number, y: number, text: string, size: number, anchor: 'start' | 'middle' | 'end', color: string, bold?: boolean };
+
+interface Sheet {
+  clip: { x: number, y: number, w: number, h: number };
+  content: Primitive[]; // Clipped to the drawing area
+  frame: Primitive[];
+}
+
+/**
+ * Draws the schematic (components, pins, wires, net names) in web pixel space.
+ * Mirrors SchematicView so the printout looks like the editor.
+ */
+const drawSchematic = (
+  data: SchematicData,
+  positions: Record<string, {x: number, y: number, w: number, h: number}>,
+  routes: Route[]
+): Primitive[] => {
+  const items: Primitive[] = [];
+
+  routes.forEach(r => {
+    items.push({ kind: 'polyline', points: r.path, stroke: r.color, width: 1.5 });
+    items.push({ kind: 'circle', x: r.path[0].x, y: r.path[0].y, r: 2.5, fill: r.color });
+    items.push({ kind: 'circle', x: r.path[r.path.length - 1].x, y: r.path[r.path.length - 1].y, r: 2.5, fill: r.color });
+  });
+
+  // One net name per net, next to the start of its first route
+  const labelled = new Set<string>();
+  routes.forEach(r => {
+    if (labelled.has(r.netName) || r.path.length < 2) return;
+    labelled.add(r.netName);
+    items.push({ kind: 'text', x: r.path[1].x + 3, y: r.path[1].y - 3, text: r.netName, size: 8, anchor: 'start', color: '#475569' });
+  });
+
+  const refs = getDesignators(data.components);
+  data.components.forEach(comp => {
+    const pos = positions[comp.id];
+    if (!pos) return;
+
+    items.push({ kind: 'rect', x: pos.x, y: pos.y, w: pos.w, h: pos.h, stroke: '#7f1d1d', width: 2, fill: '#FEFCE8' });
+    items.push({ kind: 'polyline', points: [{ x: pos.x, y: pos.y + 40 }, { x: pos.x + pos.w, y: pos.y + 40 }], stroke: '#7f1d1d', width: 1 });
+    items.push({ kind: 'text', x: pos.x + 10, y: pos.y + 26, text: comp.name, size: 14, anchor: 'start', color: '#451a03', bold: true });
+    items.push({ kind: 'text', x: pos.x, y: pos.y - 14, text: refs[comp.id], size: 10, anchor: 'start', color: '#7f1d1d', bold: true });
+
+    (comp.pins || []).forEach(pin => {
+      const a = getPinAnchor(comp, pin, pos);
+      const x = pos.x + a.x;
+      const y = pos.y + a.y;
+      const leg = { left: { x: -10, y: 0 }, right: { x: 10, y: 0 }, top: { x: 0, y: -10 }, bottom: { x: 0, y: 10 } }[a.side];
+
+      items.push({ kind: 'polyline', points: [{ x, y }, { x: x + leg.x, y: y + leg.y }], stroke: '#dc2626', width: 1.5 });
+
+      if (a.side === 'left') {
+        items.push({ kind: 'text', x: x + 6, y: y + 4, text: pin.name, size: 10, anchor: 'start', color: '#0f172a', bold: true });
+        items.push({ kind: 'text', x: x - 15, y: y - 3, text: String(pin.pinNumber), size: 9, anchor: 'end', color: '#b91c1c' });
+      } else if (a.side === 'right') {
+        items.push({ kind: 'text', x: x - 6, y: y + 4, text: pin.name, size: 10, anchor: 'end', color: '#0f172a', bold: true });
+        items.push({ kind: 'text', x: x + 15, y: y - 3, text: String(pin.pinNumber), size: 9, anchor: 'start', color: '#b91c1c' });
+      } else if (a.side === 'top') {
+        items.push({ kind: 'text', x, y: y + 16, text: pin.name, size: 10, anchor: 'middle', color: '#0f172a', bold: true });
+        items.push({ kind: 'text', x, y: y - 18, text: String(pin.pinNumber), size: 9, anchor: 'middle', color: '#b91c1c' });
+      } else {
+        items.push({ kind: 'text', x, y: y - 5, text: pin.name, size: 10, anchor: 'middle', color: '#0f172a', bold: true });
+        items.push({ kind: 'text', x, y: y + 20, text: String(pin.pinNumber), size: 9, anchor: 'middle', color: '#b91c1c' });
+      }
+    });
+  });
+
+  return items;
+};
+
+const getBounds = (
+  positions: Record<string, {x: number, y: number, w: number, h: number}>,
+  routes: Route[]
+) => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  Object.values(positions).forEach(p => {
+    xs.push(p.x, p.x + p.w);
+    ys.push(p.y, p.y + p.h);
+  });
+  routes.forEach(r => r.path.forEach(pt => { xs.push(pt.x); ys.push(pt.y); }));
+  if (xs.length === 0) return { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+
+  // Room for pin legs, pin numbers and designators
+  const pad = 40;
+  return { minX: Math.min(...xs) - pad, minY: Math.min(...ys) - pad, maxX: Math.max(...xs) + pad, maxY: Math.max(...ys) + pad };
+};
+
+const transform = (p: Primitive, scale: number, ox: number, oy: number, dx: number, dy: number): Primitive => {
+  const tx = (x: number) => dx + (x - ox) * scale;
+  const ty = (y: number) => dy + (y - oy) * scale;
+  switch (p.kind) {
+    case 'polyline': return { ...p, points: p.points.map(pt => ({ x: tx(pt.x), y: ty(pt.y) })), width: p.width * scale };
+    case 'rect': return { ...p, x: tx(p.x), y: ty(p.y), w: p.w * scale, h: p.h * scale, width: p.width * scale };
+    case 'circle': return { ...p, x: tx(p.x), y: ty(p.y), r: p.r * scale };
+    case 'text': return { ...p, x: tx(p.x), y: ty(p.y), size: p.size * scale };
+  }
+};
+
+/**
+ * ISO-style sheet frame with zone references and a title block in the bottom-right corner.
+ */
+const drawFrame = (paper: { w: number, h: number }, options: PrintOptions, sheetNo: number, sheetCount: number, tile: string): Primitive[] => {
+  const items: Primitive[] = [];
+  const border = { x: MARGIN.left, y: MARGIN.top, w: paper.w - MARGIN.left - MARGIN.right, h: paper.h - MARGIN.top - MARGIN.bottom };
+  const inner = { x: border.x + ZONE_STRIP, y: border.y + ZONE_STRIP, w: border.w - 2 * ZONE_STRIP, h: border.h - 2 * ZONE_STRIP };
+  const black = '#000000';
+
+  items.push({ kind: 'rect', ...border, stroke: black, width: 0.7 });
+  items.push({ kind: 'rect', ...inner, stroke: black, width: 0.35 });
+
+  // Zones: numbers along top/bottom, letters along the sides
+  const cols = Math.max(1, Math.round(inner.w / ZONE_SIZE));
+  const rows = Math.max(1, Math.round(inner.h / ZONE_SIZE));
+  for (let c = 0; c < cols; c++) {
+    const x0 = inner.x + (inner.w / cols) * c;
+    const xm = x0 + inner.w / cols / 2;
+    if (c > 0) {
+      items.push({ kind: 'polyline', points: [{ x: x0, y: border.y }, { x: x0, y: inner.y }], stroke: black, width: 0.25 });
+      items.push({ kind: 'polyline', points: [{ x: x0, y: inner.y + inner.h }, { x: x0, y: border.y + border.h }], stroke: black, width: 0.25 });
+    }
+    items.push({ kind: 'text', x: xm, y: border.y + 3.8, text: String(c + 1), size: 3, anchor: 'middle', color: black });
+    items.push({ kind: 'text', x: xm, y: inner.y + inner.h + 3.8, text: String(c + 1), size: 3, anchor: 'middle', color: black });
+  }
+  for (let r = 0; r < rows; r++) {
+    const y0 = inner.y + (inner.h / rows) * r;
+    const ym = y0 + inner.h / rows / 2 + 1;
+    const letter = String.fromCharCode(65 + r);
+    if (r > 0) {
+      items.push({ kind: 'polyline', points: [{ x: border.x, y: y0 }, { x: inner.x, y: y0 }], stroke: black, width: 0.25 });
+      items.push({ kind: 'polyline', points: [{ x: inner.x + inner.w, y: y0 }, { x: border.x + border.w, y: y0 }], stroke: black, width: 0.25 });
+    }
+    items.push({ kind: 'text', x: border.x + ZONE_STRIP / 2, y: ym, text: letter, size: 3, anchor: 'middle', color: black });
+    items.push({ kind: 'text', x: inner.x + inner.w + ZONE_STRIP / 2, y: ym, text: letter, size: 3, anchor: 'middle', color: black });
+  }
+
+  // Title block
+  const tb = { x: inner.x + inner.w - TITLE_BLOCK.w, y: inner.y + inner.h - TITLE_BLOCK.h, w: TITLE_BLOCK.w, h: TITLE_BLOCK.h };
+  const rowH = TITLE_BLOCK.h / 4;
+  const colW = TITLE_BLOCK.w / 3;
+  items.push({ kind: 'rect', ...tb, stroke: black, width: 0.5, fill: '#ffffff' });
+  for (let r = 2; r < 4; r++) {
+    items.push({ kind: 'polyline', points: [{ x: tb.x, y: tb.y + rowH * r }, { x: tb.x + tb.w, y: tb.y + rowH * r }], stroke: black, width: 0.25 });
+  }
+  items.push({ kind: 'polyline', points: [{ x: tb.x + colW, y: tb.y + rowH * 2 }, { x: tb.x + colW, y: tb.y + tb.h }], stroke: black, width: 0.25 });
+  items.push({ kind: 'polyline', points: [{ x: tb.x + colW * 2, y: tb.y + rowH * 2 }, { x: tb.x + colW * 2, y: tb.y + tb.h }], stroke: black, width: 0.25 });
+
+  const field = (col: number, row: number, label: string, value: string) => {
+    items.push({ kind: 'text', x: tb.x + colW * col + 1.5, y: tb.y + rowH * row + 2.8, text: label, size: 2, anchor: 'start', color: '#475569' });
+    items.push({ kind: 'text', x: tb.x + colW * col + 1.5, y: tb.y + rowH * row + 6.8, text: value, size: 3, anchor: 'start', color: black });
+  };
+
+  items.push({ kind: 'text', x: tb.x + 1.5, y: tb.y + 2.8, text: 'TITLE', size: 2, anchor: 'start', color: '#475569' });
+  items.push({ kind: 'text', x: tb.x + 1.5, y: tb.y + 12, text: options.projectName, size: 6, anchor: 'start', color: black, bold: true });
+  field(0, 2, 'REVISION', options.revision || '-');
+  field(1, 2, 'DATE', options.date || new Date().toISOString().slice(0, 10));
+  field(2, 2, 'SHEET', `${sheetNo} / ${sheetCount}${sheetCount > 1 ? `  (${tile})` : ''}`);
+  field(0, 3, 'AUTHOR', options.author || '-');
+  field(1, 3, 'PAPER', `${options.paper} landscape`);
+  field(2, 3, 'GENERATED BY', 'AutoSchematic AI');
+
+  return items;
+};
+
+/**
+ * Lays the schematic out on one or more sheets. A design that cannot be fitted at a
+ * readable scale is tiled at nominal scale; each tile becomes its own numbered sheet.
+ */
+const paginate = (
+  data: SchematicData,
+  positions: Record<string, {x: number, y: number, w: number, h: number}>,
+  routes: Route[],
+  options: PrintOptions
+): { paper: { w: number, h: number }, sheets: Sheet[] } => {
+  const paper = PAPER_SIZES[options.paper];
+  const inner = {
+    x: MARGIN.left + ZONE_STRIP,
+    y: MARGIN.top + ZONE_STRIP,
+    w: paper.w - MARGIN.left - MARGIN.right - 2 * ZONE_STRIP,
+    h: paper.h - MARGIN.top - MARGIN.bottom - 2 * ZONE_STRIP
+  };
+  // Drawing area keeps clear of the title block
+  const area = { x: inner.x + 2, y: inner.y + 2, w: inner.w - 4, h: inner.h - TITLE_BLOCK.h - 4 };
+
+  const bounds = getBounds(positions, routes);
+  const bw = bounds.maxX - bounds.minX;
+  const bh = bounds.maxY - bounds.minY;
+  const fit = Math.min(area.w / bw, area.h / bh);
+
+  const drawing = drawSchematic(data, positions, routes);
+  const single = fit >= SCALE * MIN_FIT_RATIO;
+  const scale = single ? Math.min(fit, SCALE) : SCALE;
+  const cols = single ? 1 : Math.ceil((bw * scale) / area.w);
+  const rows = single ? 1 : Math.ceil((bh * scale) / area.h);
+
+  const sheets: Sheet[] = [];
+  const tiles: string[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const ox = bounds.minX + (c * area.w) / scale;
+      const oy = bounds.minY + (r * area.h) / scale;
+      const ex = ox + area.w / scale;
+      const ey = oy + area.h / scale;
+
+      // Tiles with nothing on them are not printed
+      const hasComponent = Object.values(positions).some(p => p.x < ex && p.x + p.w > ox && p.y < ey && p.y + p.h > oy);
+      const hasWire = routes.some(rt => rt.path.some(pt => pt.x >= ox && pt.x <= ex && pt.y >= oy && pt.y <= ey));
+      if (!single && !hasComponent && !hasWire) continue;
+
+      // Centre a single-sheet drawing in the available area
+      const dx = single ? area.x + (area.w - bw * scale) / 2 : area.x;
+      const dy = single ? area.y + (area.h - bh * scale) / 2 : area.y;
+      sheets.push({
+        clip: area,
+        content: drawing.map(p => transform(p, scale, ox, oy, dx, dy)),
+        frame: []
+      });
+      tiles.push(`${String.fromCharCode(65 + r)}${c + 1}`);
+    }
+  }
+  sheets.forEach((sheet, i) => {
+    sheet.frame = drawFrame(paper, options, i + 1, sheets.length, tiles[i]);
+  });
+
+  return { paper, sheets };
+};
+
+// --- SVG ---
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const f = (n: number) => Number(n.toFixed(3));
+
+const primitiveToSvg = (p: Primitive): string => {
+  switch (p.kind) {
+    case 'polyline':
+      return `<polyline points="${p.points.map(pt => `${f(pt.x)},${f(pt.y)}`).join(' ')}" fill="none" stroke="${p.stroke}" stroke-width="${f(p.width)}" stroke-linejoin="round" stroke-linecap="round"/>`;
+    case 'rect':
+      return `<rect x="${f(p.x)}" y="${f(p.y)}" width="${f(p.w)}" height="${f(p.h)}" fill="${p.fill || 'none'}" stroke="${p.stroke}" stroke-width="${f(p.width)}"/>`;
+    case 'circle':
+      return `<circle cx="${f(p.x)}" cy="${f(p.y)}" r="${f(p.r)}" fill="${p.fill}"/>`;
+    case 'text':
+      return `<text x="${f(p.x)}" y="${f(p.y)}" font-size="${f(p.size)}" text-anchor="${p.anchor}" fill="${p.color}"${p.bold ? ' font-weight="bold"' : ''}>${escapeXml(p.text)}</text>`;
+  }
+};
+
+/**
+ * Generates a standalone, print-scaled SVG of the schematic inside a sheet frame.
+ * Multi-sheet designs are stacked vertically in one document.
+ */
+export const generateSchematicSvg = (
+  data: SchematicData,
+  positions: Record<string, {x: number, y: number, w: number, h: number}>,
+  routes: Route[],
+  options: PrintOptions
+): string => {
+  const { paper, sheets } = paginate(data, positions, routes, options);
+  const gap = 10;
+  const totalH = sheets.length * paper.h + (sheets.length - 1) * gap;
+
+  let svg = `<?xml version="1.0" encoding="utf-8"?>\n`;
+  svg += `<svg xmlns="http://www.w3.org/2000/svg" width="${paper.w}mm" height="${f(totalH)}mm" viewBox="0 0 ${paper.w} ${f(totalH)}" font-family="'JetBrains Mono', 'Courier New', monospace">\n`;
+  svg += `<title>${escapeXml(options.projectName)}</title>\n`;
+
+  sheets.forEach((sheet, i) => {
+    const offsetY = i * (paper.h + gap);
+    svg += `<g id="sheet-${i + 1}" transform="translate(0,${f(offsetY)})">\n`;
+    svg += `<clipPath id="clip-${i + 1}"><rect x="${f(sheet.clip.x)}" y="${f(sheet.clip.y)}" width="${f(sheet.clip.w)}" height="${f(sheet.clip.h)}"/></clipPath>\n`;
+    svg += `<rect x="0" y="0" width="${paper.w}" height="${paper.h}" fill="#ffffff"/>\n`;
+    svg += `<g clip-path="url(#clip-${i + 1})">\n${sheet.content.map(primitiveToSvg).join('\n')}\n</g>\n`;
+    svg += `${sheet.frame.map(primitiveToSvg).join('\n')}\n`;
+    svg += `</g>\n`;
+  });
+
+  svg += `</svg>\n`;
+  return svg;
+};
+
+// --- PDF ---
+
+const PT_PER_MM = 72 / 25.4;
+
+const pdfColor = (hex: string) => {
+  const v = parseInt(hex.replace('#', ''), 16);
+  return [(v >> 16) & 255, (v >> 8) & 255, v & 255].map(c => f(c / 255)).join(' ');
+};
+
+// Base-14 fonts only cover WinAnsi; keep to printable ASCII so no font embedding is needed.
+const pdfText = (value: string) => value
+  .replace(/[µμ]/g, 'u')
+  .replace(/[ΩΩ]/g, 'Ohm')
+  .replace(/[−–—]/g, '-')
+  .replace(/[^\x20-\x7e]/g, '?')
+  .replace(/([\\()])/g, '\\$1');
+
+const primitiveToPdf = (p: Primitive, pageH: number): string => {
+  const X = (x: number) => f(x * PT_PER_MM);
+  const Y = (y: number) => f((pageH - y) * PT_PER_MM);
+  switch (p.kind) {
+    case 'polyline': {
+      const [first, ...rest] = p.points;
+      return `${pdfColor(p.stroke)} RG ${f(p.width * PT_PER_MM)} w 1 J 1 j ${X(first.x)} ${Y(first.y)} m ${rest.map(pt => `${X(pt.x)} ${Y(pt.y)} l`).join(' ')} S`;
+    }
+    case 'rect': {
+      const path = `${X(p.x)} ${Y(p.y + p.h)} ${f(p.w * PT_PER_MM)} ${f(p.h * PT_PER_MM)} re`;
+      return p.fill
+        ? `${pdfColor(p.fill)} rg ${pdfColor(p.stroke)} RG ${f(p.width * PT_PER_MM)} w ${path} B`
+        : `${pdfColor(p.stroke)} RG ${f(p.width * PT_PER_MM)} w ${path} S`;
+    }
+    case 'circle': {
+      // Four Bezier arcs approximate the circle
+      const k = 0.5523 * p.r;
+      const cx = p.x, cy = p.y, r = p.r;
+      return `${pdfColor(p.fill)} rg ${X(cx + r)} ${Y(cy)} m `
+        + `${X(cx + r)} ${Y(cy + k)} ${X(cx + k)} ${Y(cy + r)} ${X(cx)} ${Y(cy + r)} c `
+        + `${X(cx - k)} ${Y(cy + r)} ${X(cx - r)} ${Y(cy + k)} ${X(cx - r)} ${Y(cy)} c `
+        + `${X(cx - r)} ${Y(cy - k)} ${X(cx - k)} ${Y(cy - r)} ${X(cx)} ${Y(cy - r)} c `
+        + `${X(cx + k)} ${Y(cy - r)} ${X(cx + r)} ${Y(cy - k)} ${X(cx + r)} ${Y(cy)} c f`;
+    }
+    case 'text': {
+      const text = pdfText(p.text);
+      // Courier advance width is exactly 0.6em, so anchoring can be computed
+      const width = text.replace(/\\(.)/g, '$1').length * p.size * 0.6;
+      const x = p.anchor === 'middle' ? p.x - width / 2 : p.anchor === 'end' ? p.x - width : p.x;
+      return `BT /${p.bold ? 'F2' : 'F1'} ${f(p.size * PT_PER_MM)} Tf ${pdfColor(p.color)} rg ${X(x)} ${Y(p.y)} Td (${text}) Tj ET`;
+    }
+  }
+};
+
+/**
+ * Generates a vector PDF (one page per sheet) using the built-in Courier fonts.
+ */
+export const generateSchematicPdf = (
+  data: SchematicData,
+  positions: Record<string, {x: number, y: number, w: number, h: number}>,
+  routes: Route[],
+  options: PrintOptions
+): string => {
+  const { paper, sheets } = paginate(data, positions, routes, options);
+  const objects: string[] = [];
+  const add = (body: string) => { objects.push(body); return objects.length; };
+
+  const catalogId = add('');
+  const pagesId = add('');
+  const fontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+  const boldFontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds = sheets.map(sheet => {
+    const clip = `${f(sheet.clip.x * PT_PER_MM)} ${f((paper.h - sheet.clip.y - sheet.clip.h) * PT_PER_MM)} ${f(sheet.clip.w * PT_PER_MM)} ${f(sheet.clip.h * PT_PER_MM)} re W n`;
+    const stream = [
+      'q', clip, ...sheet.content.map(p => primitiveToPdf(p, paper.h)), 'Q',
+      ...sheet.frame.map(p => primitiveToPdf(p, paper.h))
+    ].join('\n');
+    const contentId = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${f(paper.w * PT_PER_MM)} ${f(paper.h * PT_PER_MM)}] /Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  const infoId = add(`<< /Title (${pdfText(options.projectName)}) /Author (${pdfText(options.author || '')}) /Producer (AutoSchematic AI) >>`);
+
+  // Everything is ASCII, so string length equals byte offset
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(o => { pdf += `${String(o).padStart(10, '0')} 00000 n \n`; });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return pdf;
+};
@@ -0,0 +1,171 @@
+import { Project, AppStage, ComponentItem } from '../types';
+import { isObject, validateNets, validatePins } from './validationService';
+
+/**
+ * Portable project file (.asproj) and the localStorage project store.
+ *
+ * Both are wrapped in a versioned envelope. Anything read back is passed through
+ * the migration pipeline, so files written by older builds keep loading after the
+ * shape of `Project` changes. Bump PROJECT_FORMAT_VERSION and add a migration
+ * whenever a stored field is renamed, removed or changes meaning.
+ */
+
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.asproj';
+
+export interface ProjectFile {
+  format: 'autoschematic-project';
+  version: number;
+  savedAt: string;
+  project: Project;
+}
+
+interface ProjectStore {
+  format: 'autoschematic-projects';
+  version: number;
+  projects: Project[];
+}
+
+/**
+ * Upgrades a raw project object from `version` to `version + 1`.
+ * Version 0 is the unversioned `Project` dump written to localStorage by early builds.
+ */
+const MIGRATIONS: Record<number, (project: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (project) => ({
+    ...project,
+    components: (Array.isArray(project.components) ? project.components : []).map(c => isObject(c) ? { ...c, pins: c.pins || [] } : c),
+    nets: project.nets || [],
+    compatibilityReport: project.compatibilityReport ?? null,
+    revision: project.revision || 'A',
+    author: project.author || '',
+    positions: project.positions || {},
+    logs: project.logs || []
+  })
+};
+
+// Stages a loaded project can resume in
+const RESUMABLE_STAGES: unknown[] = [AppStage.INPUT, AppStage.ARCH_DIAGRAM, AppStage.SCHEMATIC];
+
+const migrateProject = (raw: unknown, fromVersion: number): Project => {
+  if (!isObject(raw)) {
+    throw new Error("Invalid project file: project is not an object");
+  }
+  if (fromVersion > PROJECT_FORMAT_VERSION) {
+    throw new Error(`Invalid project file: version ${fromVersion} is newer than this build supports (${PROJECT_FORMAT_VERSION})`);
+  }
+
+  let project: Record<string, unknown> = raw;
+  for (let v = fromVersion; v < PROJECT_FORMAT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`Invalid project file: no migration from version ${v}`);
+    project = migrate(project);
+  }
+
+  if (typeof project.id !== 'string' || typeof project.name !== 'string') {
+    throw new Error("Invalid project file: missing project id or name");
+  }
+  if (!Array.isArray(project.components) || !Array.isArray(project.nets)) {
+    throw new Error("Invalid project file: components and nets must be arrays");
+  }
+  // Pins and nets go through the same validators as AI payloads; anything they would
+  // have to drop or coerce rejects the file rather than silently changing the design
+  const components = project.components.map((c, i): ComponentItem => {
+    if (!isObject(c) || typeof c.id !== 'string' || typeof c.name !== 'string') {
+      throw new Error(`Invalid project file: components[${i}]: missing component id or name`);
+    }
+    const pins = validatePins(c.pins, `components[${i}] (${c.name}).pins`);
+    if (pins.errors.length > 0) throw new Error(`Invalid project file: ${pins.errors[0]}`);
+    return { ...c, pins: pins.value } as unknown as ComponentItem;
+  });
+  const nets = validateNets({ nets: project.nets }, components);
+  if (nets.errors.length > 0) throw new Error(`Invalid project file: ${nets.errors[0]}`);
+  project = { ...project, components, nets: nets.value };
+
+  // Unknown stages and PROCESSING (which cannot be resumed from a file) fall back to the inputs
+  if (!RESUMABLE_STAGES.includes(project.stage)) {
+    project = { ...project, stage: AppStage.INPUT };
+  }
+
+  return project as unknown as Project;
+};
+
+const readVersion = (doc: Record<string, unknown>): number => {
+  const version = doc.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error("Invalid project file: version must be a non-negative integer");
+  }
+  return version;
+};
+
+/**
+ * Serializes one project as a pretty-printed .asproj document.
+ * Pretty-printing keeps diffs readable when projects are archived in git.
+ */
+export const serializeProjectFile = (project: Project): string => {
+  const file: ProjectFile = {
+    format: 'autoschematic-project',
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    project
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses an .asproj document and migrates it to the current version.
+ * A bare unversioned `Project` object is accepted as version 0.
+ */
+export const parseProjectFile = (text: string): Project => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid project file: not valid JSON");
+  }
+  if (!isObject(doc)) {
+    throw new Error("Invalid project file: expected a JSON object");
+  }
+
+  if (doc.format === undefined) return migrateProject(doc, 0);
+  if (doc.format !== 'autoschematic-project') {
+    throw new Error(`Invalid project file: unknown format "${doc.format}"`);
+  }
+  return migrateProject(doc.project, readVersion(doc));
+};
+
+/**
+ * Serializes the project list for localStorage.
+ */
+export const serializeProjectStore = (projects: Project[]): string => {
+  const store: ProjectStore = {
+    format: 'autoschematic-projects',
+    version: PROJECT_FORMAT_VERSION,
+    projects
+  };
+  return JSON.stringify(store);
+};
+
+/**
+ * Parses the localStorage project list, migrating every entry.
+ * Entries that fail to migrate are reported instead of discarding the whole store.
+ */
+export const parseProjectStore = (text: string): { projects: Project[]; errors: string[] } => {
+  const doc: unknown = JSON.parse(text);
+  if (!Array.isArray(doc) && !isObject(doc)) {
+    throw new Error("Invalid project store: expected a JSON object");
+  }
+  const entries: unknown[] = Array.isArray(doc) ? doc : Array.isArray(doc.projects) ? doc.projects : [];
+  const version = Array.isArray(doc) ? 0 : readVersion(doc);
+
+  const projects: Project[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, i) => {
+    try {
+      projects.push(migrateProject(entry, version));
+    } catch (e) {
+      const name = isObject(entry) && typeof entry.name === 'string' ? entry.name : 'unnamed';
+      errors.push(`Stored project #${i + 1} (${name}): ${(e as Error).message}`);
+    }
+  });
+  return { projects, errors };
+};
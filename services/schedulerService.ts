@@ -0,0 +1,116 @@
+/**
+ * Job scheduling for the processing pipeline: a concurrency cap for per-component
+ * jobs, and retries with exponential backoff and per-attempt timeouts for AI calls.
+ * Everything takes an AbortSignal so a cancelled run stops waiting immediately.
+ */
+
+export interface RetryOptions {
+  maxRetries: number;
+  timeoutMs: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export const CANCELLED_MESSAGE = "Pipeline cancelled";
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error(CANCELLED_MESSAGE);
+};
+
+export const isCancelled = (error: unknown, signal?: AbortSignal) =>
+  !!signal?.aborted || (error as Error)?.message === CANCELLED_MESSAGE;
+
+/**
+ * Rate limits, server errors and timeouts are worth retrying; bad requests,
+ * auth failures and replay misses are not.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const fields = typeof error === 'object' && error !== null ? error : {};
+  const status = Number(('status' in fields ? fields.status : undefined) ?? ('code' in fields ? fields.code : undefined));
+  if (status === 429 || (status >= 500 && status < 600)) return true;
+  const message = String((error as Error)?.message || '');
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|timed out|Failed to fetch|network/i.test(message);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error(CANCELLED_MESSAGE));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `task` with a timeout per attempt. Each attempt gets its own signal, aborted
+ * on timeout or when the outer signal is aborted, so the transport can drop the request.
+ */
+export const withRetry = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { maxRetries, timeoutMs, baseDelayMs = 1000, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      return await Promise.race([
+        task(controller.signal),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            controller.abort();
+            reject(new Error(`Request timed out after ${Math.round(timeoutMs / 1000)}s`));
+          }, timeoutMs);
+        }),
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener('abort', () => {
+            if (signal?.aborted) reject(new Error(CANCELLED_MESSAGE));
+          }, { once: true });
+        })
+      ]);
+    } catch (error) {
+      if (isCancelled(error, signal)) throw new Error(CANCELLED_MESSAGE);
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+      // Exponential backoff with jitter so parallel jobs do not retry in lockstep
+      const delayMs = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      options.onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
+
+/**
+ * Maps `items` through `job` with at most `concurrency` jobs in flight.
+ * Results keep the input order. Stops starting new jobs once the signal is aborted.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  job: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      throwIfCancelled(signal);
+      const index = next++;
+      results[index] = await job(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+};
@@ -0,0 +1,140 @@
+import type { LlmProvider, LlmRequest, LlmResponse, LlmStage } from './llmProvider';
+import { isObject } from './validationService';
+
+/**
+ * Record/replay of AI pipeline sessions.
+ *
+ * While recording, every provider call is captured with its response. Replaying a
+ * session answers the same calls from the file without touching any provider, so a
+ * run can be reproduced offline and reused as a fixture for exporter and router work.
+ * Calls are matched by stage and prompt; repeated identical calls are served in the
+ * order they were recorded.
+ */
+
+export const SESSION_FORMAT_VERSION = 1;
+export const SESSION_FILE_EXTENSION = '.session.json';
+
+export interface SessionExchange {
+  stage: LlmStage;
+  key: string;
+  model: string;
+  prompt: string;
+  input?: Record<string, unknown>;
+  response: LlmResponse;
+}
+
+export interface PipelineSession {
+  format: 'autoschematic-session';
+  version: number;
+  recordedAt: string;
+  provider: string;
+  input: { mainComponent: string; appDescription: string };
+  exchanges: SessionExchange[];
+}
+
+type SessionState =
+  | { mode: 'off' }
+  | { mode: 'record'; session: PipelineSession }
+  | { mode: 'replay'; session: PipelineSession; used: Set<number>; misses: string[] };
+
+let state: SessionState = { mode: 'off' };
+
+// FNV-1a, enough to tell prompts apart without storing them twice in the key
+const hashText = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+// Inline files are keyed by type and size only; hashing whole PDFs on every call is not worth it
+const requestKey = (request: LlmRequest) => {
+  const files = (request.files || []).map(f => `${f.mimeType}:${f.data.length}`).join(',');
+  return `${request.stage}:${hashText(request.prompt + '\n' + files)}`;
+};
+
+export const startRecording = (provider: string, input: PipelineSession['input']) => {
+  state = {
+    mode: 'record',
+    session: {
+      format: 'autoschematic-session',
+      version: SESSION_FORMAT_VERSION,
+      recordedAt: new Date().toISOString(),
+      provider,
+      input,
+      exchanges: []
+    }
+  };
+};
+
+export const stopRecording = (): PipelineSession | null => {
+  const session = state.mode === 'record' ? state.session : null;
+  state = { mode: 'off' };
+  return session;
+};
+
+export const startReplay = (session: PipelineSession) => {
+  state = { mode: 'replay', session, used: new Set(), misses: [] };
+};
+
+/**
+ * Ends replay and returns the calls that had no recorded response.
+ */
+export const stopReplay = (): string[] => {
+  const misses = state.mode === 'replay' ? state.misses : [];
+  state = { mode: 'off' };
+  return misses;
+};
+
+export const getSessionMode = () => state.mode;
+
+/**
+ * Sends a request through the provider, or through the session when recording or replaying.
+ */
+export const runSessionRequest = async (provider: LlmProvider, request: LlmRequest): Promise<LlmResponse> => {
+  const key = requestKey(request);
+  const current = state;
+
+  if (current.mode === 'replay') {
+    const index = current.session.exchanges.findIndex((ex, i) => ex.key === key && !current.used.has(i));
+    if (index < 0) {
+      current.misses.push(`${request.stage}${request.input?.componentName ? ` (${request.input.componentName})` : ''}`);
+      throw new Error(`Replay miss: no recorded ${request.stage} response for this request`);
+    }
+    current.used.add(index);
+    return current.session.exchanges[index].response;
+  }
+
+  const response = await provider.generate(request);
+  if (current.mode === 'record' && state === current) {
+    current.session.exchanges.push({
+      stage: request.stage,
+      key,
+      model: request.model,
+      prompt: request.prompt,
+      input: request.input,
+      response
+    });
+  }
+  return response;
+};
+
+export const serializeSession = (session: PipelineSession): string => JSON.stringify(session, null, 2);
+
+export const parseSession = (text: string): PipelineSession => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid session file: not valid JSON");
+  }
+  if (!isObject(doc) || doc.format !== 'autoschematic-session' || typeof doc.version !== 'number' || !Array.isArray(doc.exchanges)) {
+    throw new Error("Invalid session file: not an AutoSchematic pipeline session");
+  }
+  if (doc.version > SESSION_FORMAT_VERSION) {
+    throw new Error(`Invalid session file: version ${doc.version} is newer than this build supports (${SESSION_FORMAT_VERSION})`);
+  }
+  return doc as unknown as PipelineSession;
+};
@@ -0,0 +1,134 @@
+import { ElectricalQuantityField, PinDefinition, PinElectricalSpecs, Quantity, QuantityUnit } from '../types';
+
+/**
+ * Parsing and comparison of electrical quantities.
+ *
+ * Datasheet values arrive as free text ("-0.3V", "3.6 V", "40mA", "4k7", "100nF ±10%").
+ * They are parsed once at ingestion into `PinElectricalSpecs.parsed`, next to the raw
+ * text, and every check compares them through the helpers below.
+ */
+
+export const ELECTRICAL_FIELD_UNITS: Record<ElectricalQuantityField, QuantityUnit> = {
+  minVoltage: 'V',
+  maxVoltage: 'V',
+  maxCurrent: 'A',
+  impedance: 'Ω'
+};
+
+const PREFIXES: Record<string, number> = {
+  p: 1e-12, n: 1e-9, u: 1e-6, 'µ': 1e-6, 'μ': 1e-6, m: 1e-3,
+  k: 1e3, K: 1e3, M: 1e6, meg: 1e6, G: 1e9
+};
+
+const UNIT_ALIASES: [RegExp, QuantityUnit][] = [
+  [/^(Ω|ohms?|R)$/i, 'Ω'],
+  [/^Hz$/i, 'Hz'],
+  [/^V$/i, 'V'],
+  [/^A$/i, 'A'],
+  [/^W$/i, 'W'],
+  [/^F$/i, 'F'],
+  [/^H$/i, 'H']
+];
+
+// number (never cut short: "12v" must not match as "1"), SI prefix (or RKM "4k7"/"1R5"/
+// "3V3" decimal marker), digits after an RKM marker, unit. V, A and W are also lowercase
+// in datasheet text ("3.3v", "20ma"); other lowercase units collide with prefixes ("mhz").
+const QUANTITY_PATTERN = /^([+\-−±]?\d+(?:[.,]\d+)?)(?![.,]?\d)\s*(meg|[pnuµμmkKMG]|[RVAWvaw](?=\d))?(\d+)?\s*(Ω|ohms?|Hz|[VAWFHRvaw])?(?![a-zA-Z])/;
+const TOLERANCE_PATTERN = /(?:±|\+\/-)\s*(\d+(?:\.\d+)?)\s*(%|(?:meg|[pnuµμmkKMG])?(?:Ω|ohms?|Hz|[VAWFH]))/i;
+
+const toUnit = (token: string | undefined): QuantityUnit | undefined =>
+  token ? UNIT_ALIASES.find(([pattern]) => pattern.test(token))?.[1] : undefined;
+
+/**
+ * Parses the first quantity in `text`. Returns undefined for non-numeric values
+ * ("High-Z", "VDD+0.3V") and for a unit other than `expected`; a bare number or RKM
+ * value ("4k7") takes the expected unit.
+ */
+export const parseQuantity = (text: string | undefined, expected?: QuantityUnit): Quantity | undefined => {
+  if (!text) return undefined;
+  const trimmed = text.trim().replace(/^(?:abs\.?\s*)?(?:max(?:imum)?|min(?:imum)?|typ(?:ical)?)\.?\s*:?\s*|^[~≈<>≤≥=]+\s*/i, '');
+  const match = QUANTITY_PATTERN.exec(trimmed);
+  if (!match) return undefined;
+
+  const [, number, prefix, rkmDigits, unitToken] = match;
+  // A unit marker is a decimal point in its own unit ("1R5", "3V3"); a prefix followed by
+  // digits is one too ("4k7")
+  const marker = prefix && !(prefix in PREFIXES) ? toUnit(prefix) : undefined;
+  const unit = toUnit(unitToken) || marker || expected;
+  if (!unit || (expected && unit !== expected) || (marker && unit !== marker)) return undefined;
+
+  const mantissa = parseFloat(`${number.replace('±', '').replace('−', '-').replace(',', '.')}${rkmDigits ? `.${rkmDigits}` : ''}`);
+  const multiplier = prefix && !marker ? PREFIXES[prefix] : 1;
+  const value = mantissa * multiplier;
+  if (!Number.isFinite(value)) return undefined;
+
+  const quantity: Quantity = { value, unit };
+  const tolerance = TOLERANCE_PATTERN.exec(trimmed.slice(match[0].length));
+  if (tolerance) {
+    if (tolerance[2] === '%') {
+      quantity.tolerance = parseFloat(tolerance[1]) / 100;
+    } else {
+      const absolute = parseQuantity(`${tolerance[1]}${tolerance[2]}`, unit);
+      if (absolute && value !== 0) quantity.tolerance = Math.abs(absolute.value / value);
+    }
+  }
+  return quantity;
+};
+
+/**
+ * Adds `parsed` values for every numeric text field. Raw text is kept unchanged.
+ */
+export const normalizeElectrical = (specs: PinElectricalSpecs): PinElectricalSpecs => {
+  const parsed: PinElectricalSpecs['parsed'] = {};
+  (Object.keys(ELECTRICAL_FIELD_UNITS) as ElectricalQuantityField[]).forEach(field => {
+    const quantity = parseQuantity(specs[field], ELECTRICAL_FIELD_UNITS[field]);
+    if (quantity) parsed[field] = quantity;
+  });
+  const { parsed: _previous, ...raw } = specs;
+  return Object.keys(parsed).length > 0 ? { ...raw, parsed } : raw;
+};
+
+export const normalizePins = (pins: PinDefinition[]): PinDefinition[] =>
+  pins.map(pin => pin.electrical ? { ...pin, electrical: normalizeElectrical(pin.electrical) } : pin);
+
+/**
+ * Numeric value of a pin spec. Falls back to parsing the text for pins stored
+ * before ingestion normalised them.
+ */
+export const getPinQuantity = (pin: PinDefinition, field: ElectricalQuantityField): Quantity | undefined =>
+  pin.electrical?.parsed?.[field] ?? parseQuantity(pin.electrical?.[field], ELECTRICAL_FIELD_UNITS[field]);
+
+/**
+ * Extreme value within the tolerance band: 'high' for the largest, 'low' for the smallest.
+ */
+export const worstCase = (quantity: Quantity, bound: 'high' | 'low'): number => {
+  const spread = Math.abs(quantity.value) * (quantity.tolerance || 0);
+  return bound === 'high' ? quantity.value + spread : quantity.value - spread;
+};
+
+/**
+ * Sign of a - b, or undefined when the units differ.
+ */
+export const compareQuantities = (a: Quantity, b: Quantity): number | undefined =>
+  a.unit !== b.unit ? undefined : Math.sign(a.value - b.value);
+
+/** True when any value in the tolerance band of `value` is above `limit`. */
+export const exceedsMax = (value: Quantity, limit: Quantity): boolean =>
+  value.unit === limit.unit && worstCase(value, 'high') > limit.value;
+
+/** True when any value in the tolerance band of `value` is below `limit`. */
+export const belowMin = (value: Quantity, limit: Quantity): boolean =>
+  value.unit === limit.unit && worstCase(value, 'low') < limit.value;
+
+const DISPLAY_PREFIXES: [number, string][] = [[1e9, 'G'], [1e6, 'M'], [1e3, 'k'], [1, ''], [1e-3, 'm'], [1e-6, 'µ'], [1e-9, 'n'], [1e-12, 'p']];
+
+/**
+ * Formats with an engineering prefix, e.g. "4.7 kΩ", "40 mA", "100 nF ±10%".
+ */
+export const formatQuantity = (quantity: Quantity, digits = 3): string => {
+  const magnitude = Math.abs(quantity.value);
+  const [scale, prefix] = DISPLAY_PREFIXES.find(([s]) => magnitude >= s) || (magnitude === 0 ? [1, ''] : DISPLAY_PREFIXES[DISPLAY_PREFIXES.length - 1]);
+  const scaled = Number((quantity.value / scale).toPrecision(digits));
+  const tolerance = quantity.tolerance ? ` ±${Number((quantity.tolerance * 100).toPrecision(2))}%` : '';
+  return `${scaled} ${prefix}${quantity.unit}${tolerance}`;
+};
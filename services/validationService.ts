@@ -0,0 +1,441 @@
+import { ComponentItem, PinDefinition, PinElectricalSpecs, ElectricalQuantityField, Quantity, Net, NetConnection, CompatibilityReport, ComponentAction, PhysicalSpecs } from '../types';
+import type { DesignEditPlan } from './designService';
+import { findPin } from './componentRules';
+import { ELECTRICAL_FIELD_UNITS } from './unitsService';
+
+/**
+ * Validation of AI payloads against types.ts.
+ *
+ * Each validator returns a sanitized value that is always safe to put into app
+ * state, plus human-readable errors describing what had to be dropped or coerced.
+ * The errors double as the body of the repair prompt, so they name the exact path
+ * and the offending value.
+ */
+
+export interface Validated<T> {
+  value: T;
+  errors: string[];
+}
+
+const PIN_TYPES: PinDefinition['type'][] = ['Power', 'Input', 'Output', 'IO', 'Clock', 'Passive'];
+const PIN_SIDES: NonNullable<PinDefinition['side']>[] = ['left', 'right', 'top', 'bottom'];
+const NET_TYPES: NonNullable<Net['type']>[] = ['signal', 'power', 'ground'];
+
+// Common spellings the models use for the canonical pin types
+const PIN_TYPE_ALIASES: Record<string, PinDefinition['type']> = {
+  'i/o': 'IO', 'inout': 'IO', 'bidirectional': 'IO', 'bidir': 'IO',
+  'pwr': 'Power', 'supply': 'Power', 'ground': 'Power', 'gnd': 'Power',
+  'in': 'Input', 'out': 'Output', 'clk': 'Clock', 'pas': 'Passive', 'passive': 'Passive'
+};
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asString = (value: unknown) =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const asStringArray = (value: unknown, path: string, errors: string[]): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of strings`);
+    return [];
+  }
+  return value.map(asString).filter(Boolean);
+};
+
+const ELECTRICAL_TEXT_FIELDS: (keyof Omit<PinElectricalSpecs, 'parsed'>)[] =
+  ['minVoltage', 'maxVoltage', 'maxCurrent', 'signalType', 'impedance', 'behavior'];
+
+/**
+ * Datasheet text fields must be strings; parsed quantities must be finite numbers in
+ * the unit of their field. Anything else is dropped, so the rule engines never compare
+ * a value they cannot trust.
+ */
+const validateElectrical = (raw: unknown, path: string, errors: string[]): PinElectricalSpecs | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return undefined;
+  }
+
+  const specs: PinElectricalSpecs = {};
+  ELECTRICAL_TEXT_FIELDS.forEach(field => {
+    if (raw[field] === undefined) return;
+    const text = asString(raw[field]);
+    if (text) specs[field] = text;
+    else errors.push(`${path}.${field}: expected a string, got ${JSON.stringify(raw[field])}`);
+  });
+
+  if (raw.parsed !== undefined) {
+    const parsed: NonNullable<PinElectricalSpecs['parsed']> = {};
+    const entries = isObject(raw.parsed) ? Object.entries(raw.parsed) : [];
+    if (!isObject(raw.parsed)) errors.push(`${path}.parsed: expected an object`);
+    entries.forEach(([field, q]) => {
+      const unit = ELECTRICAL_FIELD_UNITS[field as ElectricalQuantityField];
+      const valid = unit && isObject(q) && typeof q.value === 'number' && Number.isFinite(q.value) && q.unit === unit &&
+        (q.tolerance === undefined || (typeof q.tolerance === 'number' && Number.isFinite(q.tolerance)));
+      if (!valid) {
+        errors.push(`${path}.parsed.${field}: expected a quantity in ${unit || 'a known field'}, got ${JSON.stringify(q)}`);
+        return;
+      }
+      parsed[field as ElectricalQuantityField] = q as unknown as Quantity;
+    });
+    if (Object.keys(parsed).length > 0) specs.parsed = parsed;
+  }
+
+  return Object.keys(specs).length > 0 ? specs : undefined;
+};
+
+const normalizePinType = (value: unknown): PinDefinition['type'] | undefined => {
+  const text = asString(value);
+  const exact = PIN_TYPES.find(t => t.toLowerCase() === text.toLowerCase());
+  return exact || PIN_TYPE_ALIASES[text.toLowerCase()];
+};
+
+/**
+ * Pins must have a number, a name and a known type; pin numbers must be unique.
+ * Unknown types fall back to Passive and unknown sides are dropped, so the symbol
+ * generator places the pin by type.
+ */
+export const validatePins = (raw: unknown, path = 'pins'): Validated<PinDefinition[]> => {
+  const errors: string[] = [];
+  if (!Array.isArray(raw)) {
+    return { value: [], errors: [`${path}: expected an array of pins`] };
+  }
+
+  const seen = new Set<string>();
+  const pins: PinDefinition[] = [];
+  raw.forEach((p, i) => {
+    const at = `${path}[${i}]`;
+    if (!isObject(p)) {
+      errors.push(`${at}: expected a pin object`);
+      return;
+    }
+    const pinNumber = asString(p.pinNumber);
+    const name = asString(p.name);
+    if (!pinNumber || !name) {
+      errors.push(`${at}: pinNumber and name are required`);
+      return;
+    }
+    if (seen.has(pinNumber)) {
+      errors.push(`${at}: duplicate pin number "${pinNumber}" (${name})`);
+      return;
+    }
+    seen.add(pinNumber);
+
+    let type = normalizePinType(p.type);
+    if (!type) {
+      errors.push(`${at}: unknown pin type "${asString(p.type)}" for ${name}; expected one of ${PIN_TYPES.join(', ')}`);
+      type = 'Passive';
+    }
+    const side = PIN_SIDES.find(s => s === asString(p.side).toLowerCase());
+    if (p.side !== undefined && !side) {
+      errors.push(`${at}: unknown side "${asString(p.side)}" for ${name}`);
+    }
+    const electrical = validateElectrical(p.electrical, `${at}.electrical`, errors);
+
+    pins.push({
+      pinNumber,
+      name,
+      type,
+      ...(side ? { side } : {}),
+      ...(p.description ? { description: asString(p.description) } : {}),
+      ...(electrical ? { electrical } : {})
+    });
+  });
+
+  return { value: pins, errors };
+};
+
+export const validatePhysicalSpecs = (raw: unknown, path = 'physicalSpecs'): Validated<PhysicalSpecs | undefined> => {
+  if (raw === undefined) return { value: undefined, errors: [] };
+  if (!isObject(raw)) return { value: undefined, errors: [`${path}: expected an object`] };
+
+  const errors: string[] = [];
+  const dimension = (key: 'widthMm' | 'heightMm' | 'pinPitchMm') => {
+    const value = Number(raw[key]);
+    if (!Number.isFinite(value) || value <= 0) {
+      errors.push(`${path}.${key}: expected a positive number of millimetres, got ${JSON.stringify(raw[key])}`);
+      // 0 marks an unknown dimension, as for imported packages without pads
+      return 0;
+    }
+    return value;
+  };
+
+  const specs: PhysicalSpecs = {
+    widthMm: dimension('widthMm'),
+    heightMm: dimension('heightMm'),
+    pinPitchMm: dimension('pinPitchMm'),
+    packageType: asString(raw.packageType) || 'Unknown'
+  };
+  // A bad dimension only loses that field; the package type still drives footprints and θJA
+  return { value: specs, errors };
+};
+
+export interface ComponentData {
+  pins: PinDefinition[];
+  physicalSpecs?: PhysicalSpecs;
+  isolationRules: string[];
+  description: string;
+  summary: string;
+}
+
+/**
+ * Pinout, package and layout rules extracted for one component.
+ */
+export const validateComponentData = (raw: unknown): Validated<ComponentData> => {
+  const data = isObject(raw) ? raw : {};
+  const errors: string[] = isObject(raw) ? [] : ['response: expected an object'];
+  const pins = validatePins(data.pins ?? [], 'pins');
+  const specs = validatePhysicalSpecs(data.physicalSpecs);
+  return {
+    value: {
+      pins: pins.value,
+      physicalSpecs: specs.value,
+      isolationRules: asStringArray(data.isolationRules, 'isolationRules', errors),
+      description: asString(data.description),
+      summary: asString(data.summary)
+    },
+    errors: [...errors, ...pins.errors, ...specs.errors]
+  };
+};
+
+/**
+ * BOM entries need a name; duplicate entries are dropped.
+ */
+export const validateBomComponents = (raw: unknown): Validated<Pick<ComponentItem, 'name' | 'description' | 'footprintType' | 'manufacturer'>[]> => {
+  const errors: string[] = [];
+  const list = isObject(raw) ? raw.components : undefined;
+  if (!Array.isArray(list) || list.length === 0) {
+    return { value: [], errors: ['components: expected a non-empty array'] };
+  }
+
+  const seen = new Set<string>();
+  const value = list.flatMap((c, i) => {
+    const name = isObject(c) ? asString(c.name) : '';
+    if (!name) {
+      errors.push(`components[${i}]: name is required`);
+      return [];
+    }
+    if (seen.has(name.toLowerCase())) {
+      errors.push(`components[${i}]: duplicate component "${name}"`);
+      return [];
+    }
+    seen.add(name.toLowerCase());
+    return [{
+      name,
+      description: asString(c.description),
+      footprintType: asString(c.footprintType),
+      manufacturer: asString(c.manufacturer) || undefined
+    }];
+  });
+  return { value, errors };
+};
+
+export const validateCompatibilityReport = (raw: unknown): Validated<CompatibilityReport> => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return {
+      value: { isCompatible: false, issues: [], recommendations: [], actions: [] },
+      errors: ['report: expected an object']
+    };
+  }
+
+  if (typeof raw.isCompatible !== 'boolean') errors.push('isCompatible: expected a boolean');
+  const issues = asStringArray(raw.issues, 'issues', errors);
+
+  const actions: ComponentAction[] = [];
+  (Array.isArray(raw.actions) ? raw.actions : []).forEach((a: unknown, i: number) => {
+    const type = isObject(a) ? asString(a.type).toUpperCase() : '';
+    if (!isObject(a) || (type !== 'ADD' && type !== 'REMOVE') || !asString(a.componentName)) {
+      errors.push(`actions[${i}]: expected { type: "ADD" | "REMOVE", componentName, reason }`);
+      return;
+    }
+    actions.push({
+      type: type as ComponentAction['type'],
+      componentName: asString(a.componentName),
+      description: asString(a.description),
+      ...(asString(a.footprintType) ? { footprintType: asString(a.footprintType) } : {}),
+      reason: asString(a.reason)
+    });
+  });
+
+  return {
+    value: {
+      // A report that lists issues is never "compatible", whatever the flag says
+      isCompatible: raw.isCompatible === true && issues.length === 0,
+      issues,
+      recommendations: asStringArray(raw.recommendations, 'recommendations', errors),
+      actions
+    },
+    errors
+  };
+};
+
+/**
+ * Design assistant edits may only remove, disconnect and connect things that exist;
+ * new parts are described by name and wired up once their pinouts are known. A pin
+ * already on another net of `nets` may only be connected when the plan disconnects it.
+ */
+export const validateEditPlan = (raw: unknown, components: ComponentItem[], nets: Net[] = []): Validated<DesignEditPlan> => {
+  const errors: string[] = [];
+  const data = isObject(raw) ? raw : {};
+  if (!isObject(raw)) errors.push('response: expected an object');
+  const byId = new Map(components.map(c => [c.id, c]));
+
+  const removeComponentIds = asStringArray(data.removeComponentIds, 'removeComponentIds', errors).filter(id => {
+    if (byId.has(id)) return true;
+    errors.push(`removeComponentIds: component "${id}" does not exist`);
+    return false;
+  });
+
+  const addComponents = (Array.isArray(data.addComponents) ? data.addComponents : []).flatMap((c: unknown, i: number) => {
+    if (!isObject(c) || !asString(c.name)) {
+      errors.push(`addComponents[${i}]: name is required`);
+      return [];
+    }
+    return [{ name: asString(c.name), description: asString(c.description), footprintType: asString(c.footprintType) }];
+  });
+
+  const disconnect: NetConnection[] = [];
+  (Array.isArray(data.disconnect) ? data.disconnect : []).forEach((c: unknown, i: number) => {
+    const componentId = isObject(c) ? asString(c.componentId) : '';
+    const pinRef = isObject(c) ? asString(c.pin) : '';
+    const pin = findPin(byId.get(componentId), pinRef);
+    if (!pin) {
+      errors.push(`disconnect[${i}]: no pin "${pinRef}" on component "${componentId}"`);
+      return;
+    }
+    disconnect.push({ componentId, pin: String(pin.pinNumber) });
+  });
+
+  const connect = data.connect === undefined ? { value: [], errors: [] } : validateNets({ nets: data.connect }, components);
+  connect.errors.forEach(e => errors.push(e.replace(/^nets/, 'connect')));
+
+  // Pins keep their current net unless the plan detaches them (or removes their part)
+  const pinKey = (c: NetConnection) => `${c.componentId}:${findPin(byId.get(c.componentId), c.pin)?.pinNumber ?? c.pin}`;
+  const currentNet = new Map(nets.flatMap(net => net.connections.map(c => [pinKey(c), net.name] as const)));
+  const released = new Set(disconnect.map(pinKey));
+  const connectNets = connect.value
+    .map(net => ({
+      ...net,
+      connections: net.connections.filter(c => {
+        const on = currentNet.get(pinKey(c));
+        if (!on || on === net.name || released.has(pinKey(c)) || removeComponentIds.includes(c.componentId)) return true;
+        errors.push(`connect (${net.name}): pin ${c.pin} of ${byId.get(c.componentId)?.name} (${c.componentId}) is already on ${on}; list it in disconnect to move it`);
+        return false;
+      })
+    }))
+    .filter(net => net.connections.length > 0);
+
+  return {
+    value: {
+      summary: asString(data.summary) || 'Design edit',
+      removeComponentIds,
+      addComponents,
+      disconnect,
+      connect: connectNets,
+      wiringInstructions: asString(data.wiringInstructions)
+    },
+    errors
+  };
+};
+
+/**
+ * Checks referential integrity of nets against the components they connect.
+ * Connections are canonicalized to pin numbers (models often answer with pin names),
+ * nets with the same name are merged, a pin listed on two nets stays on the first,
+ * and nets left without connections are dropped.
+ */
+export const validateNets = (raw: unknown, components: ComponentItem[]): Validated<Net[]> => {
+  const errors: string[] = [];
+  const list = isObject(raw) ? raw.nets : undefined;
+  if (!Array.isArray(list)) {
+    return { value: [], errors: ['nets: expected an array'] };
+  }
+
+  const byId = new Map(components.map(c => [c.id, c]));
+  const byName = new Map<string, Net>();
+  const usedIds = new Set<string>();
+  // Keeps existing ids stable and hands out fresh ones to new or clashing nets
+  const uniqueId = (id: string) => {
+    let candidate = id;
+    for (let k = byName.size; !candidate || usedIds.has(candidate); k++) candidate = `net_${k}`;
+    usedIds.add(candidate);
+    return candidate;
+  };
+
+  list.forEach((n, i) => {
+    const at = `nets[${i}]`;
+    const name = isObject(n) ? asString(n.name) : '';
+    if (!name) {
+      errors.push(`${at}: name is required`);
+      return;
+    }
+
+    const connections: NetConnection[] = [];
+    const rawConnections = Array.isArray(n.connections) ? n.connections : [];
+    rawConnections.forEach((c: unknown, j: number) => {
+      const cAt = `${at} (${name}).connections[${j}]`;
+      const componentId = isObject(c) ? asString(c.componentId) : '';
+      const pinRef = isObject(c) ? asString(c.pin) : '';
+      const comp = byId.get(componentId);
+      if (!comp) {
+        errors.push(`${cAt}: component "${componentId}" does not exist`);
+        return;
+      }
+      const pin = findPin(comp, pinRef);
+      if (!pin) {
+        errors.push(`${cAt}: ${comp.name} (${componentId}) has no pin "${pinRef}"`);
+        return;
+      }
+      if (!connections.some(x => x.componentId === componentId && String(x.pin) === String(pin.pinNumber))) {
+        connections.push({ componentId, pin: String(pin.pinNumber) });
+      }
+    });
+
+    if (connections.length === 0) {
+      errors.push(`${at} (${name}): net has no valid connections`);
+      return;
+    }
+
+    const type = NET_TYPES.find(t => t === asString(n.type).toLowerCase());
+    if (n.type !== undefined && !type) {
+      errors.push(`${at} (${name}): unknown net type "${asString(n.type)}"`);
+    }
+
+    const existing = byName.get(name);
+    if (existing) {
+      connections.forEach(c => {
+        if (!existing.connections.some(x => x.componentId === c.componentId && x.pin === c.pin)) existing.connections.push(c);
+      });
+      return;
+    }
+    byName.set(name, {
+      id: uniqueId(asString(n.id)),
+      name,
+      connections,
+      ...(type ? { type } : {})
+    });
+  });
+
+  // A pin can only belong to one net; the first net listing it keeps it
+  const owner = new Map<string, string>();
+  const nets = Array.from(byName.values())
+    .map(net => ({
+      ...net,
+      connections: net.connections.filter(c => {
+        const key = `${c.componentId}:${c.pin}`;
+        const other = owner.get(key);
+        if (!other) {
+          owner.set(key, net.name);
+          return true;
+        }
+        errors.push(`pin ${c.pin} of ${byId.get(c.componentId)?.name} (${c.componentId}) is on both ${other} and ${net.name}; dropped from ${net.name}`);
+        return false;
+      })
+    }))
+    .filter(net => net.connections.length > 0);
+
+  return { value: nets, errors };
+};
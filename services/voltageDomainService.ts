@@ -0,0 +1,216 @@
+import { ComponentItem, Net, PinDefinition, SchematicData } from '../types';
+import { findPin, isConnector, isOpenDrain, isPassive, isRegulator, isRegulatorOutput, isResistor } from './componentRules';
+import { formatQuantity, getPinQuantity, parseQuantity } from './unitsService';
+
+/**
+ * Voltage-domain analysis: which rail each power net carries, which level each
+ * signal net is driven to, and where a driver exceeds what a receiver tolerates.
+ *
+ * Rail voltages come from net names ("3V3", "+5V", "VBUS"), regulator part numbers
+ * ("AMS1117-3.3") and connector pins, and are carried across series parts such as
+ * ferrite beads and fuses. A pin is driven at the voltage of its part's IO supply;
+ * connector and passive pins never drive.
+ */
+
+export const isGroundNet = (net: Net) => net.type === 'ground' || (!net.type && /GND|VSS/i.test(net.name));
+
+export const isPowerNet = (net: Net) =>
+  net.type === 'power' || (!net.type && !isGroundNet(net) && /VCC|VDD|VIN|VBAT|VBUS|\dV\d|\d+V\b/i.test(net.name));
+
+export interface RailVoltage {
+  netId: string;
+  netName: string;
+  voltage: number;
+  source: string; // Why the voltage is believed, e.g. "net name" or "output of AMS1117-3.3"
+}
+
+export interface NetLevel {
+  netId: string;
+  netName: string;
+  level: number;     // Highest voltage any driver puts on the net
+  drivers: string[];
+}
+
+export interface LevelMismatch {
+  netId: string;
+  netName: string;
+  componentId: string; // Receiver
+  pin: string;
+  driver: string;
+  receiver: string;
+  level: number;
+  limit: number;
+  limitSource: 'maxVoltage' | 'supply'; // 'supply' when the pin has no rating and VDD + 0.3V is assumed
+  suggestion: string;
+}
+
+export interface VoltageDomainReport {
+  rails: RailVoltage[];
+  levels: NetLevel[];
+  mismatches: LevelMismatch[];
+}
+
+// "3V3" -> 3.3, "+5V" / "VCC_5V" -> 5, "VBUS" / "VUSB" -> 5
+export const voltageFromName = (name: string): number | undefined => {
+  const token = /\d+(?:\.\d+)?\s*V\d*(?![A-Z])/i.exec(name);
+  const quantity = token ? parseQuantity(token[0], 'V') : undefined;
+  if (quantity) return quantity.value;
+  if (/VBUS|VUSB/i.test(name)) return 5;
+  return undefined;
+};
+
+// "AMS1117-3.3" -> 3.3, "LM7805" -> 5, "MCP1700-3302" -> 3.3, else a "3.3V" in the description
+export const regulatorVoltage = (comp: ComponentItem): number | undefined => {
+  const suffix = /[-_](\d{1,2}\.\d{1,2}|\d{1,2})(?:V)?$/i.exec(comp.name.trim());
+  if (suffix) return parseFloat(suffix[1]);
+  const series78 = /78(?:M|L)?(\d{2})/i.exec(comp.name);
+  if (series78) return parseInt(series78[1], 10);
+  const microchip = /-(\d)(\d)\d{2}/.exec(comp.name);
+  if (microchip) return parseFloat(`${microchip[1]}.${microchip[2]}`);
+  const described = /(\d+(?:\.\d+)?)\s*V\b/i.exec(comp.description || '');
+  return described ? parseFloat(described[1]) : undefined;
+};
+
+// Series parts that pass a rail through unchanged
+const isSeriesElement = (comp: ComponentItem) =>
+  (comp.pins || []).length === 2 && /ferrite|bead|inductor|fuse|jumper|\b0\s*(R|Ω|ohm)\b/i.test(`${comp.name} ${comp.description}`);
+
+
+const describePin = (comp: ComponentItem, pin: PinDefinition) => `${comp.name} ${pin.name}`;
+
+const volts = (value: number) => formatQuantity({ value, unit: 'V' });
+
+// Nearest E12 value, for divider suggestions
+const E12 = [1, 1.2, 1.5, 1.8, 2.2, 2.7, 3.3, 3.9, 4.7, 5.6, 6.8, 8.2];
+const nearestE12 = (ohms: number) => {
+  const decade = 10 ** Math.floor(Math.log10(ohms));
+  const best = [...E12, 10].reduce((a, b) => Math.abs(b * decade - ohms) < Math.abs(a * decade - ohms) ? b : a);
+  return best * decade;
+};
+
+const suggestFix = (level: number, target: number, bidirectional: boolean) => {
+  if (bidirectional) {
+    return `Add a bidirectional level shifter between ${volts(level)} and ${volts(target)} (e.g. TXS0102, or a BSS138 MOSFET shifter for open-drain buses)`;
+  }
+  const bottom = 10000 * target / (level - target);
+  return `Add a level shifter (e.g. 74LVC1T45) or a divider of 10 kΩ (series) / ${formatQuantity({ value: nearestE12(bottom), unit: 'Ω' }, 2)} (to GND)`;
+};
+
+export const analyzeVoltageDomains = (data: SchematicData): VoltageDomainReport => {
+  const byId = new Map(data.components.map(c => [c.id, c]));
+  const netPins = data.nets.map(net => net.connections
+    .map(c => ({ comp: byId.get(c.componentId), pin: findPin(byId.get(c.componentId), c.pin) }))
+    .filter((p): p is { comp: ComponentItem; pin: PinDefinition } => !!p.comp && !!p.pin));
+
+  // 1. Rail sources, strongest evidence first
+  const rails = new Map<string, RailVoltage>();
+  const setRail = (index: number, voltage: number | undefined, source: string) => {
+    const net = data.nets[index];
+    if (voltage === undefined || isGroundNet(net) || rails.has(net.id)) return;
+    rails.set(net.id, { netId: net.id, netName: net.name, voltage, source });
+  };
+
+  data.nets.forEach((net, i) => { if (isPowerNet(net)) setRail(i, voltageFromName(net.name), 'net name'); });
+  data.nets.forEach((net, i) => netPins[i].forEach(({ comp, pin }) => {
+    if (isRegulator(comp) && isRegulatorOutput(pin)) setRail(i, regulatorVoltage(comp), `output of ${comp.name}`);
+  }));
+  data.nets.forEach((net, i) => netPins[i].forEach(({ comp, pin }) => {
+    if (pin.type === 'Power' && (isConnector(comp) || /VBUS/i.test(pin.name))) setRail(i, voltageFromName(pin.name), `${comp.name} ${pin.name}`);
+  }));
+  data.nets.forEach((net, i) => netPins[i].forEach(({ comp, pin }) => {
+    if (pin.type === 'Power' && !isRegulator(comp)) setRail(i, voltageFromName(pin.name), `pin ${describePin(comp, pin)}`);
+  }));
+
+  // 2. Carry rails across series elements until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    data.components.filter(isSeriesElement).forEach(comp => {
+      const sides = comp.pins!.map(p => data.nets.findIndex((_, i) => netPins[i].some(np => np.pin === p)));
+      if (sides.some(i => i === -1)) return;
+      const [a, b] = sides.map(i => data.nets[i]);
+      const known = rails.get(a.id) || rails.get(b.id);
+      const target = rails.has(a.id) ? sides[1] : sides[0];
+      if (known && !rails.has(data.nets[target].id) && isPowerNet(data.nets[target])) {
+        setRail(target, known.voltage, `${known.netName} through ${comp.name}`);
+        changed = true;
+      }
+    });
+  }
+
+  // 3. IO supply per part: a dedicated VDDIO-style pin wins, else the highest supply.
+  // Parts with lettered supplies (VCCA/VCCB on level shifters) drive each side at its own rail.
+  const supplies = new Map<string, { name: string; voltage: number }[]>();
+  data.nets.forEach((net, i) => {
+    const rail = rails.get(net.id);
+    if (!rail) return;
+    netPins[i].filter(({ pin }) => pin.type === 'Power').forEach(({ comp, pin }) => {
+      supplies.set(comp.id, [...(supplies.get(comp.id) || []), { name: pin.name, voltage: rail.voltage }]);
+    });
+  });
+  const ioSupply = (comp: ComponentItem, pin: PinDefinition): number | undefined => {
+    const own = supplies.get(comp.id) || [];
+    if (own.length === 0) return undefined;
+    const lettered = own.find(s => /^V(CC|DD)([A-Z])$/i.test(s.name) && s.name.slice(-1).toUpperCase() === pin.name[0]?.toUpperCase());
+    const io = own.find(s => /VDDIO|VCCIO|IOVDD|^VIO$|^VL$/i.test(s.name));
+    return (lettered || io)?.voltage ?? Math.max(...own.map(s => s.voltage));
+  };
+
+  const isFiveVoltTolerant = (pin: PinDefinition) => /5\s*V[- ]tolerant|\bFT\b/i.test(`${pin.electrical?.behavior || ''} ${pin.description || ''}`);
+
+  // 4. Driving level of every signal net
+  const levels: NetLevel[] = [];
+  const mismatches: LevelMismatch[] = [];
+  data.nets.forEach((net, i) => {
+    if (isPowerNet(net) || isGroundNet(net)) return;
+    const pins = netPins[i];
+
+    // Push-pull drivers go to their IO supply; open-drain nets go to their pull-up rail
+    const drivers: { label: string; level: number; pin?: PinDefinition }[] = [];
+    // Connectors and passives pass a level through from the other side; they do not set it
+    pins.forEach(({ comp, pin }) => {
+      if (pin.type !== 'Output' && pin.type !== 'IO' && pin.type !== 'Clock') return;
+      if (isOpenDrain(pin) || isConnector(comp) || isPassive(comp)) return;
+      const level = ioSupply(comp, pin);
+      if (level !== undefined) drivers.push({ label: describePin(comp, pin), level, pin });
+    });
+    pins.forEach(({ comp, pin }) => {
+      if (pin.type !== 'Passive') return;
+      (comp.pins || []).filter(other => other !== pin).forEach(other => {
+        const j = data.nets.findIndex((_, k) => netPins[k].some(np => np.pin === other));
+        const rail = j >= 0 ? rails.get(data.nets[j].id) : undefined;
+        if (rail && isResistor(comp)) drivers.push({ label: `pull-up ${comp.name} to ${rail.netName}`, level: rail.voltage });
+      });
+    });
+    if (drivers.length === 0) return;
+
+    const top = drivers.reduce((a, b) => b.level > a.level ? b : a);
+    levels.push({ netId: net.id, netName: net.name, level: top.level, drivers: drivers.map(d => d.label) });
+
+    // 5. Receivers that cannot take that level
+    pins.forEach(({ comp, pin }) => {
+      if (pin.type !== 'Input' && pin.type !== 'IO' && pin.type !== 'Clock') return;
+      if (pin === top.pin) return;
+      const rated = getPinQuantity(pin, 'maxVoltage');
+      const supply = ioSupply(comp, pin);
+      const limit = rated?.value ?? (isFiveVoltTolerant(pin) ? 5.5 : supply !== undefined ? Math.round((supply + 0.3) * 100) / 100 : undefined);
+      if (limit === undefined || top.level <= limit) return;
+
+      mismatches.push({
+        netId: net.id,
+        netName: net.name,
+        componentId: comp.id,
+        pin: String(pin.pinNumber),
+        driver: top.label,
+        receiver: describePin(comp, pin),
+        level: top.level,
+        limit,
+        limitSource: rated ? 'maxVoltage' : 'supply',
+        // The supply can be at or above the driver level when the pin's own rating is lower
+        suggestion: suggestFix(top.level, Math.min(limit, supply ?? limit), pin.type === 'IO' || pins.some(p => isOpenDrain(p.pin)))
+      });
+    });
+  });
+
+  return { rails: Array.from(rails.values()), levels, mismatches };
+};
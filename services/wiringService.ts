@@ -0,0 +1,404 @@
+import { ComponentItem, Net, NetConnection, PinDefinition, SchematicData } from '../types';
+import { getDesignators } from './annotationService';
+import { findPin, isConnector, isRegulator, isResistor, isRegulatorInput, isRegulatorOutput } from './componentRules';
+import { createComponentId } from './designService';
+import { pairDifferentialNets } from './diffPairService';
+import { passivePart } from './passiveService';
+import { getPinQuantity } from './unitsService';
+import { regulatorVoltage, voltageFromName } from './voltageDomainService';
+
+/**
+ * Rule-based protocol wiring.
+ *
+ * A deterministic netlist for the connections the netlist model gets wrong most often.
+ * Pins are matched by normalised name and direction: I2C SDA/SCL with their pull-ups,
+ * SPI MOSI/MISO/SCK and one chip select per device, UART TX/RX crossed over, SWD, USB
+ * D+/D- and supply pins by rail voltage. The main component is the bus controller and
+ * every other part a device on its buses. `compareNetlists` lists where the AI netlist
+ * disagrees, and `applyRuleWiring` takes the rule side of the conflicts the user picks.
+ */
+
+type BusRole = 'SDA' | 'SCL' | 'MOSI' | 'MISO' | 'SDO' | 'SDI' | 'SCK' | 'CS' | 'TX' | 'RX' | 'RTS' | 'CTS' | 'SWDIO' | 'SWCLK' | 'SWO' | 'DP' | 'DM';
+
+// Matched against each token of a pin name ("GPIO21/SDA", "U0TXD"); group 1 or 2 is the
+// bus instance ("UART1_TX", "TXD1")
+const ROLE_PATTERNS: [BusRole, RegExp][] = [
+  ['SDA', /^(?:I2C|IIC|TWI)?(\d*)_?SDA(\d*)$/],
+  ['SCL', /^(?:I2C|IIC|TWI)?(\d*)_?SCL(\d*)$/],
+  ['MOSI', /^(?:[HV]?SPI)?(\d*)_?(?:MOSI|COPI|SIMO)(\d*)$/],
+  ['MISO', /^(?:[HV]?SPI)?(\d*)_?(?:MISO|CIPO|SOMI)(\d*)$/],
+  ['SDO', /^(?:[HV]?SPI)?(\d*)_?(?:SDO|DOUT)(\d*)$/],
+  ['SDI', /^(?:[HV]?SPI)?(\d*)_?(?:SDI|DIN)(\d*)$/],
+  ['SCK', /^(?:[HV]?SPI)?(\d*)_?(?:SCK|SCLK)(\d*)$/],
+  ['CS', /^(?:[HV]?SPI)?(\d*)_?N?(?:CS|SS|NSS)(\d*)N?$/],
+  ['TX', /^(?:UART|USART|U)?(\d*)_?TXD?(\d*)$/],
+  ['RX', /^(?:UART|USART|U)?(\d*)_?RXD?(\d*)$/],
+  ['RTS', /^(?:UART|USART|U)?(\d*)_?N?RTS(\d*)$/],
+  ['CTS', /^(?:UART|USART|U)?(\d*)_?N?CTS(\d*)$/],
+  ['SWDIO', /^SWD?IO()()$/],
+  ['SWCLK', /^SWD?CLK()()$/],
+  ['SWO', /^SWO()()$/],
+  ['DP', /^(?:USB(\d*)_?)?D_?[+P]()$/],
+  ['DM', /^(?:USB(\d*)_?)?D_?[-MN]()$/]
+];
+
+// Lines every device on the bus shares, with the net each becomes
+const SHARED_NETS: Partial<Record<BusRole, string>> = {
+  SDA: 'I2C_SDA', SCL: 'I2C_SCL',
+  MOSI: 'SPI_MOSI', MISO: 'SPI_MISO', SCK: 'SPI_SCK',
+  SWDIO: 'SWDIO', SWCLK: 'SWCLK', SWO: 'SWO',
+  DP: 'USB_DP', DM: 'USB_DM'
+};
+
+const UART_CROSSOVER: Partial<Record<BusRole, BusRole>> = { TX: 'RX', RX: 'TX', RTS: 'CTS', CTS: 'RTS' };
+
+const PULL_UP_VALUE = '4.7kΩ';
+
+interface RolePin {
+  pin: PinDefinition;
+  role: BusRole;
+  instance: string;
+}
+
+const tokens = (name: string) => name.toUpperCase().replace(/−/g, '-').split(/[\s/,()|]+/).map(t => t.replace(/^[~!]|#$/g, '')).filter(Boolean);
+
+const pinRole = (pin: PinDefinition): { role: BusRole; instance: string } | undefined => {
+  if (pin.type === 'Power') return undefined;
+  for (const token of tokens(pin.name)) {
+    for (const [role, pattern] of ROLE_PATTERNS) {
+      const match = pattern.exec(token);
+      if (match) return { role, instance: match[1] || match[2] || '' };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Bus pins of a part. SDO/SDI are named from the part's own view, so they become MOSI or
+ * MISO depending on whether the part is the controller; like CS they only count on
+ * parts that also have an SPI clock. A device with SPI/I2C pins ("SDI", "SCK") is wired
+ * as I2C when the controller has an I2C bus but no SPI, or the device has no chip select:
+ * SDI is then its SDA and SCK its SCL.
+ */
+const rolePins = (comp: ComponentItem, isController: boolean, hostBuses?: { spi: boolean; i2c: boolean }): RolePin[] => {
+  const found = (comp.pins || []).flatMap(pin => {
+    const match = pinRole(pin);
+    return match ? [{ pin, ...match }] : [];
+  });
+  const hasSck = found.some(r => r.role === 'SCK');
+  const asI2c = !isController && hasSck && !!hostBuses?.i2c && (!hostBuses.spi || !found.some(r => r.role === 'CS'));
+  if (asI2c) {
+    return found.flatMap(r => r.role === 'SDI' ? [{ ...r, role: 'SDA' as BusRole }]
+      : r.role === 'SCK' ? [{ ...r, role: 'SCL' as BusRole }]
+      : ['SDO', 'MOSI', 'MISO', 'CS'].includes(r.role) ? [] : [r]);
+  }
+  return found.flatMap(r => {
+    if (r.role === 'SDO' || r.role === 'SDI') {
+      return hasSck ? [{ ...r, role: ((r.role === 'SDO') === isController ? 'MOSI' : 'MISO') as BusRole }] : [];
+    }
+    return r.role === 'CS' && !hasSck ? [] : [r];
+  });
+};
+
+// A transceiver's "TXD" input takes the controller's TX: the pin is named from the host's view
+const namedFromHost = (r: RolePin) =>
+  ((r.role === 'TX' || r.role === 'RTS') && r.pin.type === 'Input') || ((r.role === 'RX' || r.role === 'CTS') && r.pin.type === 'Output');
+
+const byInstance = (a: RolePin, b: RolePin) => a.instance.localeCompare(b.instance, undefined, { numeric: true });
+
+const isGroundPin = (pin: PinDefinition) => /GND|VSS/i.test(pin.name);
+
+// 3.3 -> "3V3", 5 -> "5V"
+const railName = (voltage: number) => Number.isInteger(voltage) ? `${voltage}V` : String(voltage).replace('.', 'V');
+
+export interface RuleNetlist {
+  data: SchematicData; // Components include the pull-up resistors the rules added
+  notes: string[];     // Bus and supply pins the rules could not wire
+}
+
+/**
+ * Wires the standard buses and supplies of a design from its pinouts alone. Pins no
+ * rule covers (GPIOs, analog inputs) are left out; nets with a single pin are dropped
+ * and reported in `notes`.
+ */
+export const generateRuleNetlist = (components: ComponentItem[], controllerId?: string): RuleNetlist => {
+  const controller = components.find(c => c.id === controllerId) || components[0];
+  const parts = [...components];
+  const notes: string[] = [];
+  const refs = getDesignators(components);
+  const nets = new Map<string, Net>();
+
+  const connect = (name: string, comp: ComponentItem, pin: PinDefinition, type: Net['type'] = 'signal') => {
+    const net = nets.get(name) || { id: '', name, type, connections: [] };
+    nets.set(name, net);
+    if (!net.connections.some(c => c.componentId === comp.id && c.pin === String(pin.pinNumber))) {
+      net.connections.push({ componentId: comp.id, pin: String(pin.pinNumber) });
+    }
+  };
+
+  // 1. Supplies. Regulator outputs are the regulated rails; connector and VBUS pins are
+  // inputs that feed the regulators. Other supply pins join the rail named on the pin,
+  // else the controller's rail, else the highest rail within their maximum voltage.
+  const regulated = new Map<number, string>();
+  const inputs: { voltage?: number; name: string }[] = [];
+  const supplies: { comp: ComponentItem; pin: PinDefinition }[] = [];
+  parts.forEach(comp => (comp.pins || []).filter(p => p.type === 'Power').forEach(pin => {
+    if (isGroundPin(pin)) {
+      connect('GND', comp, pin, 'ground');
+    } else if (isRegulator(comp) && isRegulatorOutput(pin)) {
+      const voltage = regulatorVoltage(comp) ?? voltageFromName(pin.name);
+      if (voltage === undefined) {
+        notes.push(`Output voltage of ${comp.name} is unknown; ${pin.name} is not wired.`);
+        return;
+      }
+      if (!regulated.has(voltage)) regulated.set(voltage, railName(voltage));
+      connect(regulated.get(voltage)!, comp, pin, 'power');
+    } else if (!isRegulator(comp) && (isConnector(comp) || /VBUS|VUSB/i.test(pin.name))) {
+      const voltage = voltageFromName(pin.name);
+      const name = /VBUS|VUSB/i.test(pin.name) ? 'VBUS' : voltage !== undefined ? `VIN_${railName(voltage)}` : 'VIN';
+      if (!inputs.some(i => i.name === name)) inputs.push({ voltage, name });
+      connect(name, comp, pin, 'power');
+    } else {
+      supplies.push({ comp, pin });
+    }
+  }));
+
+  const rails = [
+    ...Array.from(regulated.entries()).map(([voltage, name]) => ({ voltage, name })),
+    ...inputs.filter((i): i is { voltage: number; name: string } => i.voltage !== undefined && !regulated.has(i.voltage))
+  ];
+  let controllerRail: { voltage: number; name: string } | undefined;
+  const railFor = (comp: ComponentItem, pin: PinDefinition) => {
+    const named = voltageFromName(pin.name);
+    if (named !== undefined) {
+      let rail = rails.find(r => r.voltage === named);
+      if (!rail) rails.push(rail = { voltage: named, name: railName(named) });
+      return rail;
+    }
+    const max = getPinQuantity(pin, 'maxVoltage');
+    const fitting = rails.filter(r => !max || r.voltage <= max.value);
+    if (comp !== controller && controllerRail && fitting.includes(controllerRail)) return controllerRail;
+    return fitting.sort((a, b) => b.voltage - a.voltage)[0];
+  };
+
+  // The controller goes first so the other parts can follow its rail
+  const ordered = [...supplies.filter(s => s.comp === controller), ...supplies.filter(s => s.comp !== controller)];
+  ordered.forEach(({ comp, pin }) => {
+    if (isRegulator(comp) && isRegulatorInput(pin)) {
+      // Fed by the highest input or regulated rail above the regulator's own output
+      const output = regulatorVoltage(comp) ?? 0;
+      const source = [...inputs, ...rails].filter(r => r.voltage === undefined || r.voltage > output)
+        .sort((a, b) => (b.voltage ?? Infinity) - (a.voltage ?? Infinity))[0];
+      connect(source?.name || 'VIN', comp, pin, 'power');
+      return;
+    }
+    const rail = railFor(comp, pin);
+    if (!rail) {
+      notes.push(`No rail within the rating of ${comp.name} ${pin.name}.`);
+      return;
+    }
+    if (comp === controller && !controllerRail) controllerRail = rail;
+    connect(rail.name, comp, pin, 'power');
+  });
+
+  // 2. Buses. Shared lines join every device; the controller takes part with the
+  // lowest instance of each line.
+  const host = controller ? rolePins(controller, true).sort(byInstance) : [];
+  const hostPin = (role: BusRole, instance?: string) => host.find(r => r.role === role && (instance === undefined || r.instance === instance));
+  const hostBuses = { spi: host.some(r => r.role === 'SCK'), i2c: host.some(r => r.role === 'SDA') && host.some(r => r.role === 'SCL') };
+  const devices = parts.filter(c => c !== controller).map(comp => ({ comp, pins: rolePins(comp, false, hostBuses) }));
+
+  (Object.keys(SHARED_NETS) as BusRole[]).forEach(role => {
+    const name = SHARED_NETS[role]!;
+    const own = hostPin(role);
+    if (own) connect(name, controller, own.pin);
+    devices.forEach(({ comp, pins }) => pins.filter(r => r.role === role).forEach(r => connect(name, comp, r.pin)));
+  });
+
+  // One chip select per SPI device, in BOM order
+  const hostSelects = host.filter(r => r.role === 'CS');
+  devices.filter(d => d.pins.some(r => r.role === 'CS')).forEach(({ comp, pins }, i) => {
+    const select = hostSelects[i];
+    if (!select) {
+      notes.push(`${controller.name} has no chip select left for ${comp.name}; wire its CS to a free GPIO.`);
+      return;
+    }
+    const name = `SPI_CS_${refs[comp.id] || comp.name}`;
+    connect(name, controller, select.pin);
+    pins.filter(r => r.role === 'CS').forEach(r => connect(name, comp, r.pin));
+  });
+
+  // UART is point to point: each device takes the next controller UART, crossed over
+  const uarts = Array.from(new Set(host.filter(r => UART_CROSSOVER[r.role]).map(r => r.instance)));
+  devices.filter(d => d.pins.some(r => UART_CROSSOVER[r.role])).forEach(({ comp, pins }, i) => {
+    const instance = uarts[i];
+    if (instance === undefined) {
+      notes.push(`${controller.name} has no UART left for ${comp.name}.`);
+      return;
+    }
+    pins.filter(r => UART_CROSSOVER[r.role]).forEach(r => {
+      const role = namedFromHost(r) ? r.role : UART_CROSSOVER[r.role]!;
+      const own = hostPin(role, instance);
+      if (!own) return;
+      const name = `UART${instance}_${role}`;
+      connect(name, controller, own.pin);
+      connect(name, comp, r.pin);
+    });
+  });
+
+  // 3. I2C pull-ups to the controller's rail: resistors described as pull-ups are used
+  // first, missing ones are added
+  const spare = parts.filter(c => isResistor(c) && (c.pins || []).length === 2 && /pull[- ]?up|I2C/i.test(`${c.name} ${c.description}`));
+  ['I2C_SDA', 'I2C_SCL'].forEach(line => {
+    const bus = nets.get(line);
+    if (!bus || bus.connections.length < 2) return;
+    if (!controllerRail) {
+      notes.push(`${line} needs a pull-up, but the controller's supply rail is unknown.`);
+      return;
+    }
+    let resistor = spare.shift();
+    if (!resistor) {
+      resistor = passivePart(createComponentId(parts, PULL_UP_VALUE), PULL_UP_VALUE, `I2C pull-up on ${line.slice(4)}`, '0603');
+      parts.push(resistor);
+    }
+    connect(line, resistor, resistor.pins![0]);
+    connect(controllerRail.name, resistor, resistor.pins![1], 'power');
+  });
+
+  const wired: Net[] = [];
+  nets.forEach(net => {
+    if (net.connections.length > 1) {
+      wired.push({ ...net, id: `net_${wired.length}` });
+    } else if (net.type === 'signal') {
+      const only = parts.find(c => c.id === net.connections[0].componentId);
+      const pin = only?.pins?.find(p => String(p.pinNumber) === net.connections[0].pin);
+      notes.push(`${only?.name} ${pin?.name} has no counterpart for ${net.name}.`);
+    }
+  });
+
+  return { data: { components: parts, nets: pairDifferentialNets(wired, parts) }, notes };
+};
+
+export interface WiringConflict {
+  key: string;       // Changes whenever the disagreement does, so a dismissed conflict can come back
+  net: Net;          // Rule net, in the orientation the AI gave two-pin passives
+  aiNets: string[];  // AI nets its pins are on
+  missing: string[]; // Pins of the rule net the AI does not put on it
+  extra: string[];   // Pins the AI puts on it that the rules wire elsewhere
+}
+
+
+const keyOf = (byId: Map<string, ComponentItem>, c: NetConnection) =>
+  `${c.componentId}:${findPin(byId.get(c.componentId), c.pin)?.pinNumber ?? c.pin}`;
+
+/**
+ * Compares the AI netlist with the rule netlist, one conflict per rule net the AI wires
+ * differently. Only pins the rules cover are compared, so the AI's other connections
+ * (GPIOs, LEDs, decoupling) never conflict.
+ */
+export const compareNetlists = (rule: SchematicData, ai: SchematicData): WiringConflict[] => {
+  const byId = new Map(rule.components.map(c => [c.id, c]));
+  ai.components.forEach(c => { if (!byId.has(c.id)) byId.set(c.id, c); });
+  const key = (c: NetConnection) => keyOf(byId, c);
+  const aiNetOf = new Map<string, number>();
+  ai.nets.forEach((net, i) => net.connections.forEach(c => aiNetOf.set(key(c), i)));
+
+  // Two-pin passives are symmetric: follow the AI where it wired one the other way round
+  const nets = rule.nets.map(net => ({ ...net, connections: [...net.connections] }));
+  const overlap = (net: Net | undefined, aiIndex: number | undefined, self: string) => {
+    if (!net || aiIndex === undefined) return 0;
+    const aiKeys = new Set(ai.nets[aiIndex].connections.map(key));
+    return net.connections.filter(c => c.componentId !== self && aiKeys.has(key(c))).length;
+  };
+  rule.components.filter(c => (c.pins || []).length === 2 && c.pins!.every(p => p.type === 'Passive')).forEach(comp => {
+    const [a, b] = comp.pins!.map(p => `${comp.id}:${p.pinNumber}`);
+    const netA = nets.find(n => n.connections.some(c => key(c) === a));
+    const netB = nets.find(n => n.connections.some(c => key(c) === b));
+    const straight = overlap(netA, aiNetOf.get(a), comp.id) + overlap(netB, aiNetOf.get(b), comp.id);
+    const swapped = overlap(netA, aiNetOf.get(b), comp.id) + overlap(netB, aiNetOf.get(a), comp.id);
+    if (swapped <= straight) return;
+    const [pinA, pinB] = comp.pins!.map(p => String(p.pinNumber));
+    nets.forEach(net => net.connections.forEach(c => {
+      if (c.componentId === comp.id) c.pin = key(c) === a ? pinB : pinA;
+    }));
+  });
+
+  const covered = new Set(nets.flatMap(net => net.connections.map(key)));
+  const refs = getDesignators(rule.components);
+  const label = (k: string) => {
+    const [componentId, pin] = [k.slice(0, k.lastIndexOf(':')), k.slice(k.lastIndexOf(':') + 1)];
+    const isNew = !ai.components.some(c => c.id === componentId);
+    return `${refs[componentId] || componentId} ${findPin(byId.get(componentId), pin)?.name ?? pin}${isNew ? ' (new)' : ''}`;
+  };
+
+  const conflicts: WiringConflict[] = [];
+  nets.forEach(net => {
+    const keys = net.connections.map(key);
+    const counts = new Map<number, number>();
+    keys.forEach(k => {
+      const i = aiNetOf.get(k);
+      if (i !== undefined) counts.set(i, (counts.get(i) || 0) + 1);
+    });
+    // The AI net holding most of the rule net's pins stands for it
+    let main: number | undefined;
+    counts.forEach((count, i) => { if (main === undefined || count > counts.get(main)!) main = i; });
+
+    const missing = keys.filter(k => main === undefined || aiNetOf.get(k) !== main);
+    const extra = main === undefined ? [] : ai.nets[main].connections.map(key).filter(k => covered.has(k) && !keys.includes(k));
+    if (missing.length === 0 && extra.length === 0) return;
+    conflicts.push({
+      key: `${net.name}|${missing.join(',')}|${extra.join(',')}`,
+      net,
+      aiNets: Array.from(counts.keys()).map(i => ai.nets[i].name),
+      missing: missing.map(label),
+      extra: extra.map(label)
+    });
+  });
+  return conflicts;
+};
+
+const freeNetId = (nets: Net[]) => {
+  let k = nets.length;
+  while (nets.some(n => n.id === `net_${k}`)) k++;
+  return `net_${k}`;
+};
+
+/**
+ * Takes the rule side of the given conflicts. The pins of each rule net leave their AI
+ * nets and form the rule net, which keeps the id of the AI net it replaces together with
+ * that net's connections the rules do not cover (a test point, a series resistor).
+ * Parts the rules added join the design.
+ */
+export const applyRuleWiring = (data: SchematicData, rule: SchematicData, conflicts: WiringConflict[]): SchematicData => {
+  const referenced = new Set(conflicts.flatMap(c => c.net.connections.map(x => x.componentId)));
+  const components = [...data.components, ...rule.components.filter(c => referenced.has(c.id) && !data.components.some(d => d.id === c.id))];
+  const byId = new Map(components.map(c => [c.id, c]));
+  const key = (c: NetConnection) => keyOf(byId, c);
+  const covered = new Set(rule.nets.flatMap(net => net.connections.map(key)));
+  let nets: Net[] = data.nets.map(net => ({ ...net, connections: [...net.connections] }));
+
+  conflicts.forEach(conflict => {
+    const keys = new Set(conflict.net.connections.map(key));
+    const counts = nets.map(net => net.connections.filter(c => keys.has(key(c))).length);
+    const best = Math.max(0, ...counts);
+    const replaced = best > 0 ? nets[counts.indexOf(best)] : undefined;
+
+    nets = nets.map(net => ({ ...net, connections: net.connections.filter(c => !keys.has(key(c))) }));
+    const remaining = replaced ? nets.find(n => n.id === replaced.id)!.connections : [];
+    const next: Net = {
+      id: replaced?.id ?? freeNetId(nets),
+      name: conflict.net.name,
+      type: conflict.net.type,
+      connections: [...conflict.net.connections, ...remaining.filter(c => !covered.has(key(c)))]
+    };
+    nets = nets.filter(n => n.id !== next.id);
+    // Covered pins the AI had on the replaced net stay together under its old name
+    const leftover = remaining.filter(c => covered.has(key(c)));
+    if (leftover.length > 0) nets.push({ ...replaced!, id: freeNetId([...nets, next]), connections: leftover });
+    nets.forEach(n => { if (n.name === next.name) n.name = `${n.name}_AI`; });
+    nets.push(next);
+  });
+
+  nets = nets.filter(net => net.connections.length > 0);
+  return { components, nets: pairDifferentialNets(nets, components) };
+};
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ComponentItem } from '../types';
+import { classifyComponent } from '../services/annotationService';
+
+const part = (name: string, description = ''): ComponentItem =>
+  ({ id: name, name, description, footprintType: '', status: 'ready' });
+
+test('classes a part by its head noun', () => {
+  assert.equal(classifyComponent(part('LED current limiting resistor')), 'R');
+  assert.equal(classifyComponent(part('Crystal load capacitors')), 'C');
+  assert.equal(classifyComponent(part('MOSFET gate resistor')), 'R');
+  assert.equal(classifyComponent(part('LED driver')), 'U');
+  assert.equal(classifyComponent(part('Status LED')), 'D');
+  assert.equal(classifyComponent(part('Decoupling capacitor for MCU')), 'C');
+});
+
+test('falls back to the description, then to U', () => {
+  assert.equal(classifyComponent(part('BSS138')), 'Q');
+  assert.equal(classifyComponent(part('ABM8-16.000MHZ', '16 MHz crystal')), 'Y');
+  assert.equal(classifyComponent(part('ESP32-WROOM-32E')), 'U');
+});
+
+test('classes a bare resistance value and pull resistors as R', () => {
+  assert.equal(classifyComponent(part('4k7', 'Pull-up')), 'R');
+  assert.equal(classifyComponent(part('10k')), 'R');
+  assert.equal(classifyComponent(part('1R5')), 'R');
+  assert.equal(classifyComponent(part('I2C pull-ups')), 'R');
+  assert.equal(classifyComponent(part('100')), 'U');
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ComponentItem, Net, SchematicData } from '../types';
+import { applyEditPlan, mergeAddedWiring } from '../services/designService';
+import { validateEditPlan } from '../services/validationService';
+
+const part = (id: string, pins: string[]): ComponentItem => ({
+  id, name: id, description: '', footprintType: '',
+  pins: pins.map((name, i) => ({ pinNumber: String(i + 1), name, type: 'IO' as const }))
+});
+
+const mcu = part('mcu', ['GND', 'GPIO5', 'GPIO6']);
+const transceiver = part('can', ['GND', 'TXD']);
+
+const design: SchematicData = {
+  components: [mcu, transceiver],
+  nets: [{ id: 'net_0', name: 'GND', type: 'ground', connections: [{ componentId: 'mcu', pin: '1' }] }]
+};
+
+const pins = (nets: Net[], name: string) => nets.find(n => n.name === name)?.connections.map(c => `${c.componentId}:${c.pin}`);
+
+test('keeps both ends of a new net between the added part and an existing one', () => {
+  const extended: Net[] = [
+    { id: 'net_0', name: 'GND', type: 'ground', connections: [{ componentId: 'mcu', pin: '1' }, { componentId: 'can', pin: '1' }] },
+    { id: '', name: 'CAN_TXD', type: 'signal', connections: [{ componentId: 'mcu', pin: '2' }, { componentId: 'can', pin: '2' }] }
+  ];
+  const { nets, wiring, errors } = mergeAddedWiring(design, extended, ['can']);
+  assert.deepEqual(errors, []);
+  assert.equal(wiring.length, 2);
+  assert.deepEqual(pins(nets, 'CAN_TXD'), ['mcu:2', 'can:2']);
+  assert.deepEqual(pins(nets, 'GND'), ['mcu:1', 'can:1']);
+  assert.equal(new Set(nets.map(n => n.id)).size, nets.length);
+});
+
+test('reports wiring onto a pin the design has since put on another net', () => {
+  const current: SchematicData = {
+    ...design,
+    nets: [...design.nets, { id: 'net_1', name: 'LED', connections: [{ componentId: 'mcu', pin: '2' }] }]
+  };
+  const extended: Net[] = [{ id: '', name: 'CAN_TXD', connections: [{ componentId: 'mcu', pin: '2' }, { componentId: 'can', pin: '2' }] }];
+  const { nets, errors } = mergeAddedWiring(current, extended, ['can']);
+  assert.equal(errors.length, 1);
+  assert.match(errors[0], /on both LED and CAN_TXD/);
+  assert.deepEqual(pins(nets, 'LED'), ['mcu:2']);
+  assert.deepEqual(pins(nets, 'CAN_TXD'), ['can:2']);
+});
+
+// A model response, before validation
+const planned = (plan: Record<string, unknown>) => ({ summary: 'edit', removeComponentIds: [], addComponents: [], disconnect: [], connect: [], wiringInstructions: '', ...plan });
+
+test('rejects connecting a pin that is on another net unless the plan disconnects it', () => {
+  const nets: Net[] = [{ id: 'net_0', name: 'OLD', connections: [{ componentId: 'mcu', pin: '2' }, { componentId: 'can', pin: '2' }] }];
+  const connect = [{ name: 'NEW', connections: [{ componentId: 'mcu', pin: 'GPIO5' }, { componentId: 'mcu', pin: '3' }] }];
+
+  const rejected = validateEditPlan(planned({ connect }), design.components, nets);
+  assert.equal(rejected.errors.length, 1);
+  assert.match(rejected.errors[0], /pin 2 of mcu \(mcu\) is already on OLD/);
+  assert.deepEqual(pins(rejected.value.connect, 'NEW'), ['mcu:3']);
+
+  const moved = validateEditPlan(planned({ connect, disconnect: [{ componentId: 'mcu', pin: '2' }] }), design.components, nets);
+  assert.deepEqual(moved.errors, []);
+  const after = applyEditPlan({ components: design.components, nets }, moved.value);
+  assert.deepEqual(pins(after.nets, 'OLD'), ['can:2']);
+  assert.deepEqual(pins(after.nets, 'NEW'), ['mcu:2', 'mcu:3']);
+});
+
+test('gives nets created by an edit ids of their own', () => {
+  const plan = validateEditPlan(planned({ connect: [{ name: 'NEW', connections: [{ componentId: 'mcu', pin: '3' }, { componentId: 'can', pin: '2' }] }] }), design.components, design.nets);
+  const after = applyEditPlan(design, plan.value);
+  assert.deepEqual(after.nets.map(n => n.name), ['GND', 'NEW']);
+  assert.equal(new Set(after.nets.map(n => n.id)).size, 2);
+  assert.equal(after.nets[0].id, 'net_0');
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportNetName, pairDifferentialNets } from '../services/diffPairService';
+import { net, part } from './fixture';
+
+const links = (nets: ReturnType<typeof pairDifferentialNets>) =>
+  nets.filter(n => n.diffPair).map(n => `${n.id}:${n.diffPair!.name}_${n.diffPair!.polarity}->${n.diffPair!.partnerId}`);
+
+test('pairs nets on complementary protocol pins', () => {
+  const bridge = part('u1', 'Bridge', [['D+', 'IO'], ['D-', 'IO'], ['CANH', 'IO'], ['CANL', 'IO']]);
+  const nets = pairDifferentialNets([
+    net('n1', 'USB_DP', ['u1.1']), net('n2', 'USB_DM', ['u1.2']), net('n3', 'CAN_L', ['u1.4']), net('n4', 'CAN_H', ['u1.3'])
+  ], [bridge]);
+  assert.deepEqual(links(nets), ['n1:USB_D_P->n2', 'n2:USB_D_N->n1', 'n3:CAN_N->n4', 'n4:CAN_P->n3']);
+  assert.deepEqual(nets.map(exportNetName), ['USB_D_P', 'USB_D_N', 'CAN_N', 'CAN_P']);
+});
+
+test('pairs generic +/- pins only when they are marked differential', () => {
+  const nets = [net('n1', 'SENSE_HI', ['u1.1']), net('n2', 'SENSE_LO', ['u1.2'])];
+  const plain = part('u1', 'Amplifier', [['IN+', 'Input'], ['IN-', 'Input']]);
+  assert.deepEqual(links(pairDifferentialNets(nets, [plain])), []);
+
+  const differential = part('u1', 'ADC', [['IN+', 'Input', { signalType: 'Differential' }], ['IN-', 'Input', { signalType: 'Differential' }]]);
+  assert.deepEqual(links(pairDifferentialNets(nets, [differential])), ['n1:SENSE_P->n2', 'n2:SENSE_N->n1']);
+});
+
+test('never pairs supply nets and renames a pair whose export names are taken', () => {
+  const phy = part('u1', 'PHY', [['D+', 'IO'], ['D-', 'IO'], ['V+', 'Power'], ['V-', 'Power']]);
+  const nets = pairDifferentialNets([
+    net('n1', 'USB_DP', ['u1.1']), net('n2', 'USB_DM', ['u1.2']), net('n3', 'USB_D_P', []),
+    net('n4', 'VCC', ['u1.3'], 'power'), net('n5', 'GND', ['u1.4'], 'ground')
+  ], [phy]);
+  assert.deepEqual(links(nets), ['n1:USB_D2_P->n2', 'n2:USB_D2_N->n1']);
+});
+
+test('drops links that no longer hold', () => {
+  const bridge = part('u1', 'Bridge', [['D+', 'IO'], ['D-', 'IO']]);
+  const stale = { ...net('n1', 'USB_DP', ['u1.1']), diffPair: { partnerId: 'gone', polarity: 'P' as const, name: 'USB_D' } };
+  assert.deepEqual(links(pairDifferentialNets([stale], [bridge])), []);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SchematicData } from '../types';
+import { ErcRuleId, getErcSeverities, runErc } from '../services/ercService';
+import { loadFixture, net, part } from './fixture';
+
+const mcu = part('mcu', 'MCU', [['VDD', 'Power'], ['GND', 'Power'], ['IO1', 'Output'], ['IO2', 'Input'], ['NC', 'Input']]);
+const sensor = part('sensor', 'Sensor', [['VDD', 'Power'], ['GND', 'Power'], ['OUT', 'Output'], ['INT', 'Output', { signalType: 'Open-Drain' }]]);
+const pullUp = part('r1', '10kΩ', [['1', 'Passive'], ['2', 'Passive']]);
+
+const supplied = (extra: SchematicData): SchematicData => ({
+  components: [mcu, sensor, ...extra.components],
+  nets: [
+    net('net_vdd', '3V3', ['mcu.1', 'sensor.1'], 'power'),
+    net('net_gnd', 'GND', ['mcu.2', 'sensor.2'], 'ground'),
+    ...extra.nets
+  ]
+});
+
+const rules = (data: SchematicData, rule: ErcRuleId) => runErc(data).filter(v => v.rule === rule);
+
+test('the fixture has no errors', () => {
+  assert.deepEqual(runErc(loadFixture().data).filter(v => v.severity === 'error'), []);
+});
+
+test('output-conflict: two push-pull outputs on one net', () => {
+  const data = supplied({ components: [], nets: [net('n1', 'SIG', ['mcu.3', 'sensor.3'])] });
+  const [violation, ...rest] = rules(data, 'output-conflict');
+  assert.equal(rest.length, 0);
+  assert.equal(violation.severity, 'error');
+  assert.equal(violation.netId, 'n1');
+  assert.deepEqual(rules(supplied({ components: [], nets: [net('n1', 'SIG', ['mcu.3', 'sensor.4'])] }), 'output-conflict'), []);
+});
+
+test('floating-input: unconnected inputs, except no-connect pins', () => {
+  const violations = rules(supplied({ components: [], nets: [] }), 'floating-input');
+  assert.deepEqual(violations.map(v => `${v.componentId}:${v.pin}:${v.severity}`), ['mcu:4:warning']);
+});
+
+test('unconnected-power: a supply pin on no net', () => {
+  const data: SchematicData = { components: [mcu], nets: [net('net_gnd', 'GND', ['mcu.2'], 'ground')] };
+  assert.deepEqual(rules(data, 'unconnected-power').map(v => `${v.pin}:${v.severity}`), ['1:error']);
+});
+
+test('single-connection-net: a net that goes nowhere', () => {
+  const data = supplied({ components: [], nets: [net('n1', 'SIG', ['mcu.3'])] });
+  assert.deepEqual(rules(data, 'single-connection-net').map(v => v.netId), ['n1']);
+});
+
+test('open-drain-no-pullup: needs a resistor to a supply net', () => {
+  const bare = supplied({ components: [], nets: [net('n1', 'INT', ['sensor.4', 'mcu.4'])] });
+  assert.deepEqual(rules(bare, 'open-drain-no-pullup').map(v => v.netId), ['n1']);
+
+  const pulled = supplied({ components: [pullUp], nets: [net('n1', 'INT', ['sensor.4', 'mcu.4', 'r1.1'])] });
+  pulled.nets.find(n => n.name === '3V3')!.connections.push({ componentId: 'r1', pin: '2' });
+  assert.deepEqual(rules(pulled, 'open-drain-no-pullup'), []);
+});
+
+test('power-on-signal-net: a supply pin on a signal net', () => {
+  const data: SchematicData = {
+    components: [mcu, sensor],
+    nets: [net('net_vdd', '3V3', ['mcu.1'], 'power'), net('n1', 'SIG', ['sensor.1', 'mcu.4'], 'signal')]
+  };
+  assert.deepEqual(rules(data, 'power-on-signal-net').map(v => `${v.componentId}:${v.pin}`), ['sensor:1']);
+});
+
+test('level-mismatch: a 5V output into a 3.6V input', () => {
+  const arduino = part('uno', 'MCU', [['VCC', 'Power'], ['D1', 'Output']]);
+  const receiver = part('rx', 'Sensor', [['VDD', 'Power'], ['RX', 'Input', { maxVoltage: '3.6V' }]]);
+  const data: SchematicData = {
+    components: [arduino, receiver],
+    nets: [net('n5', '5V', ['uno.1'], 'power'), net('n3', '3V3', ['rx.1'], 'power'), net('n1', 'TX', ['uno.2', 'rx.2'])]
+  };
+  const [violation] = rules(data, 'level-mismatch');
+  assert.equal(violation.severity, 'error');
+  assert.equal(violation.componentId, 'rx');
+  assert.match(violation.message, /drives 5V into Sensor RX \(rated 3\.6V\)/);
+});
+
+test('severities override the rule defaults and can turn a rule off', () => {
+  const data = supplied({ components: [], nets: [net('n1', 'SIG', ['mcu.3', 'sensor.3'])] });
+  const violations = runErc(data, { 'output-conflict': 'warning', 'floating-input': 'off' });
+  assert.deepEqual(violations.filter(v => v.rule === 'output-conflict').map(v => v.severity), ['warning']);
+  assert.deepEqual(violations.filter(v => v.rule === 'floating-input'), []);
+});
+
+test('keeps only known rules with valid severities from saved settings', () => {
+  const saved = JSON.stringify({ 'output-conflict': 'warning', 'floating-input': 'loud', 'retired-rule': 'off', isolation: 3 });
+  Object.assign(globalThis, { localStorage: { getItem: () => saved } });
+  try {
+    assert.deepEqual(getErcSeverities(), { 'output-conflict': 'warning' });
+  } finally {
+    delete (globalThis as { localStorage?: unknown }).localStorage;
+  }
+});
@@ -0,0 +1,42 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { ComponentItem, Net, PinDefinition, PinElectricalSpecs, SchematicData } from '../types';
+import { parseProjectFile } from '../services/projectService';
+import { annotateComponents } from '../services/annotationService';
+import { pairDifferentialNets } from '../services/diffPairService';
+
+export const fixturePath = (relative: string) => fileURLToPath(new URL(relative, import.meta.url));
+
+/**
+ * The weather station fixture, loaded the way App.loadProject does.
+ */
+export const loadFixture = (): { name: string; mainComponentId?: string; data: SchematicData } => {
+  const project = parseProjectFile(readFileSync(fixturePath('./fixtures/weather-station.asproj'), 'utf8'));
+  const components = annotateComponents(project.components);
+  return { name: project.name, mainComponentId: project.mainComponentId, data: { components, nets: pairDifferentialNets(project.nets, components) } };
+};
+
+type PinSpec = [name: string, type: PinDefinition['type'], electrical?: PinElectricalSpecs];
+
+/**
+ * A part whose pins are numbered from 1 in the order given.
+ */
+export const part = (id: string, name: string, pins: PinSpec[], extra: Partial<ComponentItem> = {}): ComponentItem => ({
+  id,
+  name,
+  description: '',
+  footprintType: '',
+  pins: pins.map(([pinName, type, electrical], i) => ({ pinNumber: String(i + 1), name: pinName, type, ...(electrical ? { electrical } : {}) })),
+  status: 'ready',
+  ...extra
+});
+
+/**
+ * A net from "componentId.pin" references.
+ */
+export const net = (id: string, name: string, pins: string[], type?: Net['type']): Net => ({
+  id,
+  name,
+  connections: pins.map(ref => ({ componentId: ref.slice(0, ref.lastIndexOf('.')), pin: ref.slice(ref.lastIndexOf('.') + 1) })),
+  ...(type ? { type } : {})
+});
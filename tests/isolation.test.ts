@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assignNetClasses, checkIsolation, getClassClearances, parseIsolationRules } from '../services/constraintService';
+import { runErc } from '../services/ercService';
+import { net, part } from './fixture';
+
+test('parses prose rules into constraints and leaves the rest advisory', () => {
+  const comp = part('adc', 'ADC', [], { isolationRules: [
+    'Keep separate from Analog GND',
+    'Creepage > 2mm',
+    'AGND and DGND joined at a single point',
+    'Place close to the MCU'
+  ] });
+  assert.deepEqual(parseIsolationRules(comp).map(c => [c.kind, c.classes, c.minCreepageMm]), [
+    ['must-not-share-net', ['AGND'], undefined],
+    ['min-creepage', ['HV'], 2],
+    ['single-tie-point', ['AGND', 'DGND'], undefined]
+  ]);
+});
+
+test('classes nets by name, rail voltage and pairing', () => {
+  const psu = part('psu', 'Connector', [['V60', 'Power']]);
+  const classes = assignNetClasses({
+    components: [psu],
+    nets: [
+      net('a', 'AGND', [], 'ground'), net('g', 'GND', [], 'ground'), net('hv', 'VIN_60V', ['psu.1'], 'power'),
+      net('adc', 'ADC_IN0', []), net('led', 'ONLINE_LED', [])
+    ]
+  });
+  assert.deepEqual(classes, { a: 'AGND', g: 'DGND', hv: 'HV', adc: 'ANALOG', led: 'default' });
+});
+
+const adc = part('adc', 'ADC', [['AGND', 'Power'], ['DGND', 'Power'], ['VDD', 'Power']], { isolationRules: ['AGND and DGND joined at a single point'] });
+const grounds = [net('a', 'AGND', ['adc.1'], 'ground'), net('d', 'DGND', ['adc.2'], 'ground')];
+
+test('single-tie-point: split grounds need exactly one tie', () => {
+  const [violation] = checkIsolation({ components: [adc], nets: grounds });
+  assert.match(violation.message, /AGND and DGND have no tie point/);
+
+  const tie = part('tie', '0R', [['1', 'Passive'], ['2', 'Passive']]);
+  const tied = [net('a', 'AGND', ['adc.1', 'tie.1'], 'ground'), net('d', 'DGND', ['adc.2', 'tie.2'], 'ground')];
+  assert.deepEqual(checkIsolation({ components: [adc, tie], nets: tied }), []);
+});
+
+test('must-not-share-net: a part kept off analog ground', () => {
+  const mcu = part('mcu', 'MCU', [['GND', 'Power']], { isolationRules: ['Keep separate from Analog GND'] });
+  const violations = runErc({ components: [mcu], nets: [net('a', 'AGND', ['mcu.1'], 'ground')] }).filter(v => v.rule === 'isolation');
+  assert.equal(violations.length, 1);
+  assert.equal(violations[0].severity, 'error');
+  assert.match(violations[0].message, /MCU GND is on AGND net AGND despite "Keep separate from Analog GND"/);
+});
+
+test('min-creepage raises the class clearance and warns when the part has no such net', () => {
+  const relay = part('k1', 'Relay', [['COM', 'Passive']], { isolationRules: ['Creepage > 3mm to mains'] });
+  const data = { components: [relay], nets: [net('n', 'SIG', ['k1.1'])] };
+  assert.equal(getClassClearances(data).HV, 3);
+  assert.match(checkIsolation(data)[0].message, /applies to HV nets, but none of its nets is in that class/);
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { SchematicData } from '../types';
+import { findPin } from '../services/componentRules';
+import { generateEdifNetlist, generateKiCadNetlist, generateTelesisNetlist } from '../services/exportService';
+import { fixturePath as path, loadFixture } from './fixture';
+
+/**
+ * Golden-file tests for the netlist writers. The fixture project is loaded the way
+ * App.loadProject does and every writer must reproduce its checked-in output byte for
+ * byte. After an intended format change, regenerate the files with
+ * `UPDATE_GOLDEN=1 npm test` and review the diff.
+ */
+
+// Same design with fresh component and net ids, and every pin referenced by number
+const renumbered = (data: SchematicData): SchematicData => {
+  const componentIds = new Map(data.components.map((c, i) => [c.id, `part_${i}`]));
+  const netIds = new Map(data.nets.map((n, i) => [n.id, `n${data.nets.length - i}`]));
+  return {
+    components: data.components.map(c => ({ ...c, id: componentIds.get(c.id)! })),
+    nets: data.nets.map(net => ({
+      ...net,
+      id: netIds.get(net.id)!,
+      diffPair: net.diffPair && { ...net.diffPair, partnerId: netIds.get(net.diffPair.partnerId)! },
+      connections: net.connections.map(c => {
+        const pin = findPin(data.components.find(comp => comp.id === c.componentId), c.pin);
+        return { componentId: componentIds.get(c.componentId)!, pin: pin ? String(pin.pinNumber) : c.pin };
+      })
+    }))
+  };
+};
+
+const WRITERS: [string, (data: SchematicData, name: string) => string][] = [
+  ['weather-station.net', (data, name) => generateKiCadNetlist(data, name)],
+  ['weather-station.tel', data => generateTelesisNetlist(data)],
+  ['weather-station.edf', (data, name) => generateEdifNetlist(data, name)]
+];
+
+WRITERS.forEach(([file, write]) => {
+  test(`${file} matches the golden file`, () => {
+    const { name, data } = loadFixture();
+    const output = write(data, name);
+    const golden = path(`./golden/${file}`);
+    if (process.env.UPDATE_GOLDEN === '1') writeFileSync(golden, output);
+    assert.equal(output, readFileSync(golden, 'utf8'));
+  });
+
+  test(`${file} does not depend on ids or on how connections name pins`, () => {
+    const { name, data } = loadFixture();
+    assert.equal(write(renumbered(data), name), write(data, name));
+  });
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addDecoupling, expandPassives } from '../services/passiveService';
+import { net, part } from './fixture';
+
+test('splits aggregate passives into one part per value and instance', () => {
+  const { components, decoupling, expanded } = expandPassives([
+    part('mcu', 'ESP32-WROOM-32', [['3V3', 'Power']]),
+    part('r', 'Pull-up Resistors', [], { description: '4.7kΩ x2', footprintType: '0603' }),
+    part('c', 'Capacitor 0603 100nF', [], { footprintType: '0603' }),
+    part('dec', 'Decoupling Capacitors', [], { description: '100nF/10uF', footprintType: '0402' })
+  ]);
+  assert.equal(expanded, 3);
+  assert.deepEqual(components.map(c => [c.name, c.footprintType, c.pins?.length]), [
+    ['ESP32-WROOM-32', '', 1],
+    ['4.7kΩ', '0603', 2],
+    ['4.7kΩ', '0603', 2],
+    ['100nF', '0603', 2]
+  ]);
+  assert.equal(new Set(components.map(c => c.id)).size, components.length);
+  assert.deepEqual(decoupling, { perPin: '100nF', bulk: ['10µF'], footprintType: '0402' });
+});
+
+test('places one capacitor per IC power pin and a bulk capacitor per rail, once', () => {
+  const mcu = part('mcu', 'MCU', [['VDD', 'Power'], ['VDDA', 'Power'], ['GND', 'Power']]);
+  const data = {
+    components: [mcu],
+    nets: [net('n1', '3V3', ['mcu.1', 'mcu.2'], 'power'), net('n2', 'GND', ['mcu.3'], 'ground')]
+  };
+  const spec = { perPin: '100nF', bulk: ['10µF'], footprintType: '0603' };
+  const first = addDecoupling(data, spec);
+  assert.deepEqual(first.added.map(c => [c.name, c.description]), [
+    ['100nF', 'Decoupling for MCU VDD'],
+    ['100nF', 'Decoupling for MCU VDDA'],
+    ['10µF', 'Bulk decoupling for 3V3']
+  ]);
+  first.added.forEach(cap => {
+    assert.ok(first.data.nets[0].connections.some(c => c.componentId === cap.id && c.pin === '1'));
+    assert.ok(first.data.nets[1].connections.some(c => c.componentId === cap.id && c.pin === '2'));
+  });
+  assert.deepEqual(addDecoupling(first.data, spec).added, []);
+});
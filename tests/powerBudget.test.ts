@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ComponentItem } from '../types';
+import { analyzePowerBudget } from '../services/powerBudgetService';
+import { net, part } from './fixture';
+
+const regulator = (name: string, description: string, footprintType: string) =>
+  part('reg', name, [['VIN', 'Power'], ['VOUT', 'Power'], ['GND', 'Power']], { description, footprintType });
+
+const mcu = part('mcu', 'MCU', [['VDD', 'Power'], ['GND', 'Power']], { supplyCurrent: '150mA' });
+const sensor = part('sensor', 'Sensor', [['VDD', 'Power', { maxCurrent: '20mA' }], ['GND', 'Power']]);
+
+const design = (reg: ComponentItem, input: string, loads: ComponentItem[] = [mcu, sensor]) => ({
+  components: [reg, ...loads],
+  nets: [
+    net('in', input, ['reg.1'], 'power'),
+    net('out', 'VREG', ['reg.2', ...loads.map(l => `${l.id}.1`)], 'power'),
+    net('gnd', 'GND', ['reg.3', ...loads.map(l => `${l.id}.2`)], 'ground')
+  ]
+});
+
+test('sums user-entered and pin-rated loads and books them on the input rail', () => {
+  const { rails } = analyzePowerBudget(design(regulator('AMS1117-3.3', '1A LDO', 'SOT-223'), '5V'));
+  const [input, output] = rails;
+  assert.deepEqual(output.loads.map(l => [l.name, l.current, l.source]), [['MCU', 0.15, 'user'], ['Sensor', 0.02, 'maxCurrent']]);
+  assert.equal(Number(output.total.toFixed(3)), 0.17);
+  assert.equal(Number(input.total.toFixed(3)), 0.17);
+  assert.equal(output.regulator?.rating, 1);
+});
+
+test('warns when the load exceeds the regulator rating', () => {
+  const heavy = { ...mcu, supplyCurrent: '1.2A' };
+  const { warnings } = analyzePowerBudget(design(regulator('LM2596-3.3', '1A buck converter', 'TO-263'), '12V', [heavy, sensor]));
+  assert.deepEqual(warnings, ['VREG: load 1.22 A exceeds LM2596-3.3 rating of 1 A']);
+});
+
+test('warns when a linear regulator dissipates more than its package allows', () => {
+  const { rails, warnings } = analyzePowerBudget(design(regulator('XC6206-3.3', '200mA LDO', 'SOT-23'), '12V'));
+  assert.equal(Number(rails[1].regulator!.dissipation!.toFixed(3)), 1.479);
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /^XC6206-3\.3 dissipates 1\.48 W in SOT-23 \(limit 370 mW/);
+});
+
+test('checks dropout for linear regulators only', () => {
+  const ldo = analyzePowerBudget(design(regulator('AMS1117-3.3', '1A LDO', 'SOT-223'), '3V3'));
+  assert.deepEqual(ldo.warnings, ['VREG: AMS1117-3.3 input (3.3V) is not above its output (3.3V)']);
+  const buck = analyzePowerBudget(design(regulator('TPS62160-3.3', '1A buck converter', 'QFN-8'), '3V3'));
+  assert.deepEqual(buck.warnings, []);
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseProjectFile } from '../services/projectService';
+
+const projectFile = (project: Record<string, unknown>) => JSON.stringify({
+  format: 'autoschematic-project',
+  version: 1,
+  savedAt: '2026-01-01T00:00:00.000Z',
+  project: { id: 'p1', name: 'Test', stage: 'INPUT', components: [], nets: [], ...project }
+});
+
+const led = { id: 'd1', name: 'Status LED', description: '', footprintType: '', pins: [{ pinNumber: 1, name: 'A', type: 'Passive' }, { pinNumber: 2, name: 'K', type: 'Passive' }] };
+
+test('canonicalizes pins and net connections of a loaded project', () => {
+  const project = parseProjectFile(projectFile({
+    components: [led],
+    nets: [{ id: 'net_0', name: 'GND', type: 'ground', connections: [{ componentId: 'd1', pin: 'K' }] }]
+  }));
+  assert.equal(project.components[0].pins?.[0].pinNumber, '1');
+  assert.deepEqual(project.nets[0].connections, [{ componentId: 'd1', pin: '2' }]);
+});
+
+test('rejects a project with components or nets that fail validation', () => {
+  assert.throws(() => parseProjectFile(projectFile({ components: [{ ...led, id: undefined }] })), /components\[0\]: missing component id or name/);
+  assert.throws(() => parseProjectFile(projectFile({ components: [{ ...led, pins: [led.pins[0], led.pins[0]] }] })), /duplicate pin number "1"/);
+  assert.throws(() => parseProjectFile(projectFile({
+    components: [led],
+    nets: [{ id: 'net_0', name: 'GND', connections: [{ componentId: 'u1', pin: '1' }] }]
+  })), /component "u1" does not exist/);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ComponentItem } from '../types';
+import { generateSpiceNetlist } from '../services/exportService';
+
+const twoPin = (id: string, name: string, description: string): ComponentItem => ({
+  id, name, description, footprintType: '',
+  pins: [{ pinNumber: '1', name: '1', type: 'Passive' }, { pinNumber: '2', name: '2', type: 'Passive' }]
+});
+
+const elements = (components: ComponentItem[]) =>
+  generateSpiceNetlist({ components, nets: [] }).netlist.split('\n').filter(line => /^[RCL]/.test(line)).map(line => line.split(' ').filter((_, i) => i !== 1 && i !== 2).join(' '));
+
+test('takes passive values with a unit or prefix, not package sizes', () => {
+  assert.deepEqual(elements([
+    twoPin('a', 'Capacitor 0603 100nF', ''),
+    twoPin('b', 'Resistor', '0402 10k 1%'),
+    twoPin('c', '4k7', 'Pull-up'),
+    twoPin('d', '1MΩ', '')
+  ]), ['C1 100n', 'R1 10k', 'R2 4.7k', 'R3 1meg']);
+});
+
+test('shares one subcircuit stub between identical parts', () => {
+  const sensor = (id: string): ComponentItem => ({ ...twoPin(id, 'TMP36', 'Temperature sensor'), manufacturer: 'Analog Devices' });
+  const { netlist, unmodelled } = generateSpiceNetlist({ components: [sensor('a'), sensor('b')], nets: [] });
+  assert.equal(netlist.match(/^\.subckt /gm)?.length, 1);
+  assert.deepEqual(netlist.match(/^X.* (\S+)$/gm)?.map(line => line.split(' ').pop()), ['TMP36', 'TMP36']);
+  assert.deepEqual(unmodelled, ['TMP36']);
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuantity } from '../services/unitsService';
+import { validatePins } from '../services/validationService';
+
+const parsed = (text: string, expected?: Parameters<typeof parseQuantity>[1]) => {
+  const quantity = parseQuantity(text, expected);
+  return quantity && { value: Number(quantity.value.toPrecision(6)), unit: quantity.unit };
+};
+
+test('parses datasheet values with upper- and lowercase units', () => {
+  assert.deepEqual(parsed('3.6 V'), { value: 3.6, unit: 'V' });
+  assert.deepEqual(parsed('3.3v'), { value: 3.3, unit: 'V' });
+  assert.deepEqual(parsed('12v'), { value: 12, unit: 'V' });
+  assert.deepEqual(parsed('20ma'), { value: 0.02, unit: 'A' });
+  assert.deepEqual(parsed('500mv'), { value: 0.5, unit: 'V' });
+  assert.deepEqual(parsed('4k7', 'Ω'), { value: 4700, unit: 'Ω' });
+  assert.deepEqual(parsed('100nF ±10%'), { value: 1e-7, unit: 'F' });
+});
+
+test('reads a unit letter between digits as the decimal point', () => {
+  assert.deepEqual(parsed('3V3'), { value: 3.3, unit: 'V' });
+  assert.deepEqual(parsed('1v8'), { value: 1.8, unit: 'V' });
+  assert.deepEqual(parsed('2A5', 'A'), { value: 2.5, unit: 'A' });
+  assert.deepEqual(parsed('1R5'), { value: 1.5, unit: 'Ω' });
+  assert.equal(parsed('3V3', 'A'), undefined);
+  assert.equal(parsed('3V3A'), undefined);
+});
+
+test('accepts a leading ± as the magnitude', () => {
+  assert.deepEqual(parsed('±20mA'), { value: 0.02, unit: 'A' });
+});
+
+test('never accepts part of a number', () => {
+  assert.equal(parsed('3.3x'), undefined);
+  assert.equal(parsed('VDD+0.3V'), undefined);
+  assert.equal(parsed('3.3v', 'A'), undefined);
+});
+
+test('drops pin specs that are not datasheet text or valid quantities', () => {
+  const { value, errors } = validatePins([{
+    pinNumber: 1,
+    name: 'VDD',
+    type: 'Power',
+    electrical: {
+      maxVoltage: '3.6V',
+      maxCurrent: { typ: 20 },
+      parsed: { maxVoltage: { value: 3.6, unit: 'V' }, maxCurrent: { value: '20', unit: 'A' }, impedance: { value: 50, unit: 'V' } }
+    }
+  }]);
+  assert.deepEqual(value[0].electrical, { maxVoltage: '3.6V', parsed: { maxVoltage: { value: 3.6, unit: 'V' } } });
+  assert.equal(errors.length, 3);
+});
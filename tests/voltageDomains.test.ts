@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeVoltageDomains } from '../services/voltageDomainService';
+import { runErc } from '../services/ercService';
+import { isRegulator } from '../services/componentRules';
+import { loadFixture, net, part } from './fixture';
+
+test('connector pins do not drive their supply level into a signal net', () => {
+  const { data } = loadFixture();
+  const report = analyzeVoltageDomains(data);
+  assert.deepEqual(report.mismatches, []);
+  assert.ok(!report.levels.some(l => l.drivers.some(d => d.startsWith('USB-C'))));
+  assert.deepEqual(runErc(data).filter(v => v.rule === 'level-mismatch'), []);
+});
+
+test('takes rail voltages from regulator part numbers and carries them through beads', () => {
+  const ldo = part('ldo', 'AMS1117-3.3', [['VIN', 'Power'], ['VOUT', 'Power'], ['GND', 'Power']]);
+  const bead = part('fb', 'Ferrite bead', [['1', 'Passive'], ['2', 'Passive']]);
+  const { rails } = analyzeVoltageDomains({
+    components: [ldo, bead],
+    nets: [net('a', 'VBUS', ['ldo.1'], 'power'), net('b', 'VREG', ['ldo.2', 'fb.1'], 'power'), net('c', 'VDDA', ['fb.2'], 'power')]
+  });
+  assert.deepEqual(rails.map(r => [r.netName, r.voltage]), [['VBUS', 5], ['VREG', 3.3], ['VDDA', 3.3]]);
+  assert.equal(rails[2].source, 'VREG through Ferrite bead');
+});
+
+test('takes a 3V3 supply pin of a board with a VIN pin from its name, not as a regulator output', () => {
+  const board = part('mcu', 'ESP32 DevKit', [['VIN', 'Power'], ['3V3', 'Power'], ['GND', 'Power']]);
+  assert.equal(isRegulator(board), false);
+  const { rails } = analyzeVoltageDomains({
+    components: [board],
+    nets: [net('a', 'VBUS', ['mcu.1'], 'power'), net('b', 'VDD_IO', ['mcu.2'], 'power')]
+  });
+  assert.deepEqual(rails.map(r => [r.netName, r.voltage]), [['VBUS', 5], ['VDD_IO', 3.3]]);
+  assert.match(rails[1].source, /^pin /);
+});
+
+const fiveVoltDriver = part('uno', 'MCU', [['VCC', 'Power'], ['D1', 'Output'], ['SDA', 'IO', { signalType: 'Open-Drain' }]]);
+const receiver = (rx: Parameters<typeof part>[2][number]) => part('rx', 'Sensor', [['VDD', 'Power'], rx]);
+const rails = [net('n5', '5V', ['uno.1'], 'power'), net('n3', '3V3', ['rx.1'], 'power')];
+
+test('limits an unrated receiver to its supply + 0.3V and suggests a divider', () => {
+  const { mismatches } = analyzeVoltageDomains({
+    components: [fiveVoltDriver, receiver(['RX', 'Input'])],
+    nets: [...rails, net('n1', 'TX', ['uno.2', 'rx.2'])]
+  });
+  assert.equal(mismatches.length, 1);
+  assert.equal(mismatches[0].limit, 3.6);
+  assert.equal(mismatches[0].limitSource, 'supply');
+  assert.match(mismatches[0].suggestion, /divider of 10 kΩ \(series\) \/ 18 kΩ \(to GND\)/);
+});
+
+test('accepts 5V-tolerant receivers', () => {
+  const { mismatches } = analyzeVoltageDomains({
+    components: [fiveVoltDriver, receiver(['RX', 'Input', { behavior: '5V-tolerant' }])],
+    nets: [...rails, net('n1', 'TX', ['uno.2', 'rx.2'])]
+  });
+  assert.deepEqual(mismatches, []);
+});
+
+test('drives an open-drain net at its pull-up rail', () => {
+  const pullUp = part('r1', '4.7kΩ', [['1', 'Passive'], ['2', 'Passive']]);
+  const { levels, mismatches } = analyzeVoltageDomains({
+    components: [fiveVoltDriver, receiver(['SDA', 'IO']), pullUp],
+    nets: [net('n5', '5V', ['uno.1'], 'power'), net('n3', '3V3', ['rx.1', 'r1.2'], 'power'), net('n1', 'SDA', ['uno.3', 'rx.2', 'r1.1'])]
+  });
+  assert.deepEqual(levels.map(l => [l.netName, l.level, l.drivers]), [['SDA', 3.3, ['Sensor SDA', 'pull-up 4.7kΩ to 3V3']]]);
+  assert.deepEqual(mismatches, []);
+});
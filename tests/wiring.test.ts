@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyRuleWiring, compareNetlists, generateRuleNetlist } from '../services/wiringService';
+import { loadFixture, part } from './fixture';
+
+const netOf = (nets: { name: string; connections: { componentId: string; pin: string | number }[] }[], name: string) =>
+  nets.find(n => n.name === name)?.connections.map(c => `${c.componentId}:${c.pin}`).sort();
+
+test('wires an SDI/SCK sensor without chip select as I2C with pull-ups', () => {
+  const { data, mainComponentId } = loadFixture();
+  const { data: rule, notes } = generateRuleNetlist(data.components, mainComponentId);
+  assert.deepEqual(notes, []);
+  assert.deepEqual(netOf(rule.nets, 'I2C_SDA'), ['comp_0_ESP32:33', 'comp_2_BME280:3', 'comp_3_10k:1']);
+  assert.deepEqual(netOf(rule.nets, 'I2C_SCL'), ['comp_0_ESP32:36', 'comp_2_BME280:4', 'comp_4_10k:1']);
+  assert.ok(!rule.nets.some(n => n.name.startsWith('SPI_')));
+  assert.equal(rule.components.length, data.components.length, 'the pull-ups in the BOM are reused');
+});
+
+test('agrees with the fixture netlist', () => {
+  const { data, mainComponentId } = loadFixture();
+  const { data: rule } = generateRuleNetlist(data.components, mainComponentId);
+  assert.deepEqual(compareNetlists(rule, data), []);
+});
+
+test('reports where the AI netlist swaps two lines and takes the rule side on request', () => {
+  const { data, mainComponentId } = loadFixture();
+  const swapped = {
+    ...data,
+    nets: data.nets.map(n => ({ ...n, connections: n.connections.map(c => c.componentId !== 'comp_2_BME280' ? c : { ...c, pin: c.pin === '3' ? '4' : c.pin === '4' ? '3' : c.pin }) }))
+  };
+  const { data: rule } = generateRuleNetlist(data.components, mainComponentId);
+  const conflicts = compareNetlists(rule, swapped);
+  assert.deepEqual(conflicts.map(c => [c.net.name, c.missing, c.extra]), [
+    ['I2C_SDA', ['U3 SDI'], ['U3 SCK']],
+    ['I2C_SCL', ['U3 SCK'], ['U3 SDI']]
+  ]);
+  const fixed = applyRuleWiring(swapped, rule, conflicts);
+  assert.deepEqual(compareNetlists(rule, fixed), []);
+});
+
+const mcu = part('mcu', 'MCU', [['3V3', 'Power'], ['GND', 'Power'], ['SCK', 'Output'], ['MOSI', 'Output'], ['MISO', 'Input'], ['CS0', 'Output'], ['TXD0', 'Output'], ['RXD0', 'Input']]);
+const flash = part('flash', 'SPI flash', [['VCC', 'Power'], ['GND', 'Power'], ['SCLK', 'Input'], ['SDI', 'Input'], ['SDO', 'Output'], ['/CS', 'Input']]);
+const adc = part('adc', 'ADC', [['VDD', 'Power'], ['GND', 'Power'], ['SCK', 'Input'], ['DIN', 'Input'], ['DOUT', 'Output'], ['CS', 'Input']]);
+const gps = part('gps', 'GPS module', [['VCC', 'Power'], ['GND', 'Power'], ['TXD', 'Output'], ['RXD', 'Input']]);
+
+test('shares SPI lines, gives each device its own chip select and crosses UART over', () => {
+  const { data: rule, notes } = generateRuleNetlist([mcu, flash, adc, gps], 'mcu');
+  assert.deepEqual(netOf(rule.nets, 'SPI_MOSI'), ['adc:4', 'flash:4', 'mcu:4']);
+  assert.deepEqual(netOf(rule.nets, 'SPI_MISO'), ['adc:5', 'flash:5', 'mcu:5']);
+  assert.deepEqual(netOf(rule.nets, 'SPI_CS_U2'), ['flash:6', 'mcu:6']);
+  assert.deepEqual(netOf(rule.nets, 'UART0_TX'), ['gps:4', 'mcu:7']);
+  assert.deepEqual(netOf(rule.nets, 'UART0_RX'), ['gps:3', 'mcu:8']);
+  assert.deepEqual(netOf(rule.nets, '3V3'), ['adc:1', 'flash:1', 'gps:1', 'mcu:1']);
+  assert.deepEqual(notes, ['MCU has no chip select left for ADC; wire its CS to a free GPIO.']);
+});
+
+test('adds pull-ups for an I2C bus without any and wires SDI/SCK as I2C on a controller without SPI', () => {
+  const host = part('mcu', 'MCU', [['3V3', 'Power'], ['GND', 'Power'], ['SDA', 'IO'], ['SCL', 'IO']]);
+  const { data: rule } = generateRuleNetlist([host, flash], 'mcu');
+  assert.deepEqual(netOf(rule.nets, 'I2C_SDA')?.filter(k => !k.startsWith('comp_')), ['flash:4', 'mcu:3']);
+  assert.deepEqual(netOf(rule.nets, 'I2C_SCL')?.filter(k => !k.startsWith('comp_')), ['flash:3', 'mcu:4']);
+  const added = rule.components.slice(2);
+  assert.deepEqual(added.map(c => c.name), ['4.7kΩ', '4.7kΩ']);
+  assert.ok(added.every(r => netOf(rule.nets, '3V3')!.includes(`${r.id}:2`)));
+});
@@ -1,4 +1,14 @@
 
+export type QuantityUnit = 'V' | 'A' | 'Ω' | 'W' | 'F' | 'H' | 'Hz';
+
+export interface Quantity {
+  value: number;      // Base SI units, e.g. 0.04 for "40mA"
+  unit: QuantityUnit;
+  tolerance?: number; // Relative, e.g. 0.05 for "±5%"
+}
+
+export type ElectricalQuantityField = 'minVoltage' | 'maxVoltage' | 'maxCurrent' | 'impedance';
+
 export interface PinElectricalSpecs {
   minVoltage?: string; // e.g., "-0.3V"
   maxVoltage?: string; // e.g., "3.6V"
@@ -6,6 +16,7 @@ export interface PinElectricalSpecs {
   signalType?: string; // e.g., "Push-Pull", "Open-Drain", "Analog", "Differential"
   impedance?: string;  // e.g., "50 ohm", "High-Z"
   behavior?: string;   // e.g., "Active Low", "PWM Capable", "High-Z at Reset"
+  parsed?: Partial<Record<ElectricalQuantityField, Quantity>>; // Numeric values of the text fields above (see unitsService)
 }
 
 export interface PhysicalSpecs {
@@ -35,6 +46,9 @@ export interface ComponentItem {
   physicalSpecs?: PhysicalSpecs;
   isolationRules?: string[]; // e.g. "Keep separate from Analog GND", "High Voltage Creepage > 2mm"
   operatingConditions?: string; // e.g. "Temp: -40 to 85C"
+  dnp?: boolean; // Do Not Populate (kept in schematic, excluded from assembly)
+  supplyCurrent?: string; // User-entered typical supply current, e.g. "80mA"; overrides pin maxCurrent in the power budget
+  designator?: string; // Reference designator, e.g. "R3" (see annotationService)
   
   // For UI state
   status?: 'pending' | 'searching_datasheet' | 'analyzing' | 'ready' | 'error';
@@ -42,6 +56,7 @@ export interface ComponentItem {
   datasheetFile?: File | null; // User uploaded file (runtime)
   analysisReport?: string;
   manufacturer?: string;
+  cachedAt?: number; // Set when the data came from the local component cache (time it was stored)
 }
 
 export interface NetConnection {
@@ -49,11 +64,18 @@ export interface NetConnection {
   pin: string | number;
 }
 
+export interface DiffPairLink {
+  partnerId: string;   // Id of the net carrying the other half
+  polarity: 'P' | 'N';
+  name: string;        // Shared by both halves, e.g. "USB_D" for USB_D+ / USB_D-
+}
+
 export interface Net {
   id: string;
   name: string;
   connections: NetConnection[];
   type?: 'signal' | 'power' | 'ground';
+  diffPair?: DiffPairLink; // Set by differential pair detection (see diffPairService)
 }
 
 export interface SchematicData {
@@ -61,6 +83,31 @@ export interface SchematicData {
   nets: Net[];
 }
 
+export interface DiffConnection {
+  net: string;
+  componentId: string;
+  pin: string;
+}
+
+/**
+ * Structural difference between two versions of a design.
+ * Component names are kept so the diff stays readable after the parts are gone.
+ */
+export interface DesignDiff {
+  addedComponents: { id: string; name: string }[];
+  removedComponents: { id: string; name: string }[];
+  addedConnections: DiffConnection[];
+  removedConnections: DiffConnection[];
+}
+
+export interface DesignHistoryEntry {
+  id: string;
+  timestamp: number;
+  request: string; // What the user asked for
+  summary: string;
+  diff: DesignDiff;
+}
+
 export enum AppStage {
   PROJECTS = 'PROJECTS',
   INPUT = 'INPUT',
@@ -80,6 +127,7 @@ export interface ComponentAction {
   type: 'ADD' | 'REMOVE';
   componentName: string;
   description: string;
+  footprintType?: string; // Package of an added part, e.g. "SOT-23-6"
   reason: string;
 }
 
@@ -90,14 +138,37 @@ export interface CompatibilityReport {
   actions: ComponentAction[];
 }
 
+/**
+ * A user-defined BOM column, e.g. "Supplier P/N" or "Unit Price".
+ * Values are keyed by component id; components without an entry get `defaultValue`.
+ */
+export interface BomExtraField {
+  key: string;
+  label: string;
+  values: Record<string, string>;
+  defaultValue?: string;
+}
+
+export interface BomOptions {
+  includeDnp?: boolean;         // Adds a DNP column (values from ComponentItem.dnp)
+  extraFields?: BomExtraField[];
+}
+
 export interface Project {
   id: string;
   name: string;
   lastModified: number;
   mainComponent: string;
+  mainComponentId?: string; // The main controller among `components`, once the pipeline has run
   appDescription: string;
   components: ComponentItem[];
   nets: Net[];
   compatibilityReport: CompatibilityReport | null;
   stage: AppStage;
+  revision?: string; // Title block metadata for printed schematics
+  author?: string;
+  positions?: Record<string, { x: number; y: number; w: number; h: number }>; // Schematic layout (px), keyed by component id
+  logs?: LogEntry[];
+  history?: DesignHistoryEntry[]; // Applied design edits, oldest first
+  bomOptions?: BomOptions; // Columns of the manufacturing BOM export
 }